@@ -1,4 +1,5 @@
-import { AgentType } from '../core/types.js';
+import { AgentType, IterationUsage, OutputRecord } from '../core/types.js';
+import { OutputParser } from './output.js';
 
 // Spawn arguments for safe execution (no shell)
 export interface SpawnArgs {
@@ -19,8 +20,15 @@ export interface AgentAdapter {
   // Build argv array to continue/resume a session
   buildContinueArgs(sessionId: string, prompt: string, skipPermissions: boolean): SpawnArgs;
 
-  // Extract session ID from agent output (returns null if not found)
-  extractSessionId(output: string): string | null;
+  // Extract session ID from agent output (returns null if not found).
+  // Parsed records are checked first when the adapter has an output parser.
+  extractSessionId(output: string, records?: OutputRecord[]): string | null;
+
+  // Extract token usage of a run (optional; null if none reported)
+  extractUsage?(output: string, records?: OutputRecord[]): IterationUsage | null;
+
+  // Create a parser that decodes stdout into structured records (optional)
+  createOutputParser?(): OutputParser;
 
   // Build follow-up prompt for session continuity (optional)
   buildFollowUpPrompt?(context: string): string;
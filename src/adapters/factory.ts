@@ -3,6 +3,43 @@ import fs from 'fs';
 import { AgentAdapter, SpawnArgs } from './base.js';
 import { AdapterConfig, TemplateContext } from './schema.js';
 import { renderArgs, renderTemplate } from './template.js';
+import { createOutputParser, OutputParser } from './output.js';
+import { IterationUsage, OutputRecord } from '../core/types.js';
+
+// Value of the last match of a pattern (group 1)
+function lastMatch(output: string, pattern: string | undefined): string | null {
+  if (!pattern) return null;
+  let value: string | null = null;
+  for (const match of output.matchAll(new RegExp(pattern, 'g'))) {
+    if (match[1]) value = match[1];
+  }
+  return value;
+}
+
+function extractUsageFromText(
+  output: string,
+  patterns: NonNullable<NonNullable<AdapterConfig['usageExtraction']>['patterns']>
+): IterationUsage | null {
+  const toNumber = (value: string | null): number | null => {
+    if (value === null) return null;
+    const n = Number.parseFloat(value.replace(/,/g, ''));
+    return Number.isFinite(n) ? n : null;
+  };
+
+  const input = toNumber(lastMatch(output, patterns.inputTokens));
+  const outputTokens = toNumber(lastMatch(output, patterns.outputTokens));
+  const total = toNumber(lastMatch(output, patterns.totalTokens));
+  if (input === null && outputTokens === null && total === null) {
+    return null;
+  }
+
+  return {
+    inputTokens: input ?? (outputTokens === null ? total ?? 0 : 0),
+    outputTokens: outputTokens ?? 0,
+    model: lastMatch(output, patterns.model) ?? undefined,
+    costUsd: toNumber(lastMatch(output, patterns.costUsd)) ?? undefined,
+  };
+}
 
 /**
  * Create an AgentAdapter from a config file definition.
@@ -39,7 +76,12 @@ export function createCustomAdapter(config: AdapterConfig): AgentAdapter {
       };
     },
 
-    extractSessionId(output: string): string | null {
+    extractSessionId(output: string, records?: OutputRecord[]): string | null {
+      const sessionRecords = (records ?? []).filter(r => r.kind === 'session');
+      const sessionRecord = sessionRecords[sessionRecords.length - 1];
+      if (sessionRecord?.kind === 'session') {
+        return sessionRecord.sessionId;
+      }
       for (const pattern of config.sessionExtraction.patterns) {
         const regex = new RegExp(pattern);
         const match = output.match(regex);
@@ -83,6 +125,31 @@ export function createCustomAdapter(config: AdapterConfig): AgentAdapter {
     };
   }
 
+  if (config.usageExtraction) {
+    const { fromRecords, patterns } = config.usageExtraction;
+    adapter.extractUsage = (output: string, records?: OutputRecord[]): IterationUsage | null => {
+      if (fromRecords && records) {
+        const results = records.filter(r => r.kind === 'result');
+        const result = results[results.length - 1];
+        if (result?.kind === 'result' && result.usage) {
+          return { ...result.usage, model: result.model, costUsd: result.costUsd, byModel: result.modelUsage };
+        }
+      }
+      return patterns ? extractUsageFromText(output, patterns) : null;
+    };
+  }
+
+  if (config.outputParser) {
+    const parserName = config.outputParser;
+    adapter.createOutputParser = (): OutputParser => {
+      const parser = createOutputParser(parserName);
+      if (!parser) {
+        throw new Error(`Unknown output parser: ${parserName}`);
+      }
+      return parser;
+    };
+  }
+
   if (config.resumePrompt) {
     adapter.buildResumePrompt = (workSummary: string, remainingCriteria: string[]): string => {
       return renderTemplate(config.resumePrompt!, {
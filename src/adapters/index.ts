@@ -10,4 +10,6 @@ startWatching();
 // Re-export utilities
 export { getAdapter, getAvailableAdapters, registerAdapter, getAdapterNames, hasAdapter } from './base.js';
 export type { AgentAdapter, SpawnArgs } from './base.js';
+export { renderOutputRecord, getOutputRecordsText } from './output.js';
+export type { OutputParser } from './output.js';
 export { adapterEvents } from './watcher.js';
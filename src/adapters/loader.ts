@@ -5,6 +5,7 @@ import { parse as parseYaml } from 'yaml';
 import { AdapterConfig } from './schema.js';
 import { AgentAdapter } from './base.js';
 import { createCustomAdapter } from './factory.js';
+import { getOutputParserNames } from './output.js';
 
 // Get directory of this module for bundled adapters
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -195,5 +196,25 @@ function validateConfig(config: unknown): ValidationResult {
     }
   }
 
+  // Optional: usageExtraction patterns must be valid regexes
+  if (c.usageExtraction !== undefined) {
+    const usage = c.usageExtraction as Record<string, unknown> | null;
+    if (!usage || typeof usage !== 'object') {
+      return { valid: false, error: 'usageExtraction must be an object' };
+    }
+    for (const pattern of Object.values((usage.patterns ?? {}) as Record<string, unknown>)) {
+      try {
+        new RegExp(pattern as string);
+      } catch {
+        return { valid: false, error: `Invalid usage pattern: ${pattern}` };
+      }
+    }
+  }
+
+  // Optional: outputParser must name a known parser
+  if (c.outputParser !== undefined && !getOutputParserNames().includes(c.outputParser as string)) {
+    return { valid: false, error: `outputParser must be one of: ${getOutputParserNames().join(', ')}` };
+  }
+
   return { valid: true };
 }
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'bun:test';
+import { createStreamJsonParser, getOutputRecordsText, renderOutputRecord } from './output.js';
+
+const events = [
+  { type: 'system', subtype: 'init', session_id: 'abc-123', tools: ['Bash', 'Edit'] },
+  {
+    type: 'assistant',
+    session_id: 'abc-123',
+    message: {
+      content: [
+        { type: 'text', text: 'Adding the parser. <criterion-complete>1</criterion-complete>' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Edit', input: { file_path: 'src/parser.ts', old_string: 'a', new_string: 'b' } },
+        { type: 'tool_use', id: 'toolu_2', name: 'Bash', input: { command: 'bun test' } },
+      ],
+    },
+  },
+  {
+    type: 'user',
+    session_id: 'abc-123',
+    message: {
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: [{ type: 'text', text: '1 fail\n3 pass' }], is_error: true },
+      ],
+    },
+  },
+  {
+    type: 'result',
+    subtype: 'success',
+    session_id: 'abc-123',
+    is_error: false,
+    num_turns: 3,
+    duration_ms: 4200,
+    total_cost_usd: 0.0123,
+    result: 'Done.',
+    usage: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 900 },
+    modelUsage: {
+      'claude-sonnet-4-5': { inputTokens: 90, outputTokens: 45, cacheReadInputTokens: 900, costUSD: 0.012 },
+      'claude-haiku-4-5': { inputTokens: 10, outputTokens: 5, costUSD: 0.0003 },
+    },
+  },
+];
+
+const stream = events.map(e => JSON.stringify(e)).join('\n') + '\n';
+
+describe('createStreamJsonParser', () => {
+  test('decodes events into typed records', () => {
+    const parser = createStreamJsonParser();
+    const records = [...parser.push(stream), ...parser.flush()];
+
+    expect(records.map(r => r.kind)).toEqual(['session', 'text', 'file_edit', 'tool_use', 'tool_result', 'result']);
+    expect(records[0]).toEqual({ kind: 'session', sessionId: 'abc-123' });
+    expect(records[2]).toEqual({ kind: 'file_edit', path: 'src/parser.ts', tool: 'Edit' });
+    expect(records[3]).toMatchObject({ kind: 'tool_use', name: 'Bash', input: { command: 'bun test' } });
+    expect(records[4]).toEqual({ kind: 'tool_result', toolUseId: 'toolu_2', content: '1 fail\n3 pass', isError: true });
+    expect(records[5]).toEqual({
+      kind: 'result',
+      text: 'Done.',
+      isError: false,
+      numTurns: 3,
+      durationMs: 4200,
+      costUsd: 0.0123,
+      usage: { inputTokens: 100, outputTokens: 50, cacheReadTokens: 900, cacheCreationTokens: undefined },
+      modelUsage: [
+        { model: 'claude-sonnet-4-5', inputTokens: 90, outputTokens: 45, cacheReadTokens: 900, costUsd: 0.012 },
+        { model: 'claude-haiku-4-5', inputTokens: 10, outputTokens: 5, costUsd: 0.0003 },
+      ],
+    });
+  });
+
+  test('reassembles lines split across chunks', () => {
+    const parser = createStreamJsonParser();
+    const records = [];
+    for (let i = 0; i < stream.length; i += 7) {
+      records.push(...parser.push(stream.slice(i, i + 7)));
+    }
+    records.push(...parser.flush());
+    expect(records).toHaveLength(6);
+  });
+
+  test('keeps non-JSON lines as text and a trailing line on flush', () => {
+    const parser = createStreamJsonParser();
+    expect(parser.push('Warning: something odd\n{"type":"result","result":"x","is_error":true}')).toEqual([
+      { kind: 'text', text: 'Warning: something odd' },
+    ]);
+    expect(parser.flush()).toMatchObject([{ kind: 'result', text: 'x', isError: true }]);
+  });
+});
+
+describe('getOutputRecordsText', () => {
+  test('uses text records, falling back to the result text', () => {
+    const parser = createStreamJsonParser();
+    const records = parser.push(stream);
+    expect(getOutputRecordsText(records)).toBe('Adding the parser. <criterion-complete>1</criterion-complete>');
+    expect(getOutputRecordsText(records.filter(r => r.kind !== 'text'))).toBe('Done.');
+  });
+});
+
+describe('renderOutputRecord', () => {
+  test('renders tool activity as single lines', () => {
+    expect(renderOutputRecord({ kind: 'tool_use', name: 'Bash', input: { command: 'bun test\nmore' } })).toBe('→ Bash: bun test');
+    expect(renderOutputRecord({ kind: 'file_edit', path: 'a.ts', tool: 'Write' })).toBe('✎ Write a.ts');
+    expect(renderOutputRecord({ kind: 'result', text: '', isError: false, numTurns: 2, costUsd: 0.5 })).toBe('■ Result: done, 2 turns, $0.5000');
+  });
+});
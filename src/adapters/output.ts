@@ -0,0 +1,259 @@
+import { OutputRecord, TokenUsage, ModelTokenUsage } from '../core/types.js';
+
+/**
+ * Output parsers decode an agent's stdout into typed records, so the loop
+ * doesn't have to guess from raw text. An adapter opts in with
+ * `outputParser: <name>` in its config; without one, output stays plain text.
+ * Parsers are stateful (chunks can split lines), so one is created per run.
+ */
+export interface OutputParser {
+  // Feed a stdout chunk, returns the records completed by it
+  push(chunk: string): OutputRecord[];
+  // End of output, returns records from any trailing partial line
+  flush(): OutputRecord[];
+}
+
+// Tools whose use is recorded as a file edit instead of a plain tool call
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+const OUTPUT_PARSERS: Record<string, () => OutputParser> = {
+  'stream-json': createStreamJsonParser,
+};
+
+export function getOutputParserNames(): string[] {
+  return Object.keys(OUTPUT_PARSERS);
+}
+
+export function createOutputParser(name: string): OutputParser | null {
+  const factory = OUTPUT_PARSERS[name];
+  return factory ? factory() : null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// Tool results are a string or a list of content blocks
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => {
+      const b = asRecord(block);
+      return b?.type === 'text' && typeof b.text === 'string' ? b.text : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function parseUsage(value: unknown): TokenUsage | undefined {
+  const usage = asRecord(value);
+  if (!usage) return undefined;
+  return {
+    inputTokens: asNumber(usage.input_tokens) ?? 0,
+    outputTokens: asNumber(usage.output_tokens) ?? 0,
+    cacheReadTokens: asNumber(usage.cache_read_input_tokens),
+    cacheCreationTokens: asNumber(usage.cache_creation_input_tokens),
+  };
+}
+
+// Per-model usage of a result event, e.g. a main model plus a small one for
+// subagents: { "<model>": { inputTokens, outputTokens, ..., costUSD } }
+function parseModelUsage(value: unknown): ModelTokenUsage[] | undefined {
+  const entries = Object.entries(asRecord(value) ?? {}).flatMap(([model, raw]) => {
+    const usage = asRecord(raw);
+    if (!usage) return [];
+    return [{
+      model,
+      inputTokens: asNumber(usage.inputTokens) ?? 0,
+      outputTokens: asNumber(usage.outputTokens) ?? 0,
+      cacheReadTokens: asNumber(usage.cacheReadInputTokens),
+      cacheCreationTokens: asNumber(usage.cacheCreationInputTokens),
+      costUsd: asNumber(usage.costUSD),
+    }];
+  });
+  return entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Decode one stream-json event (Claude CLI `--output-format stream-json`).
+ */
+export function parseStreamJsonEvent(event: Record<string, unknown>): OutputRecord[] {
+  const records: OutputRecord[] = [];
+  const content = asRecord(event.message)?.content;
+  const blocks = Array.isArray(content) ? content.map(asRecord) : [];
+
+  switch (event.type) {
+    case 'assistant':
+      for (const block of blocks) {
+        if (block?.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+          records.push({ kind: 'text', text: block.text });
+        } else if (block?.type === 'tool_use' && typeof block.name === 'string') {
+          const input = asRecord(block.input) ?? {};
+          const filePath = input.file_path ?? input.notebook_path;
+          if (FILE_EDIT_TOOLS.has(block.name) && typeof filePath === 'string') {
+            records.push({ kind: 'file_edit', path: filePath, tool: block.name });
+          } else {
+            records.push({
+              kind: 'tool_use',
+              id: typeof block.id === 'string' ? block.id : undefined,
+              name: block.name,
+              input,
+            });
+          }
+        }
+      }
+      break;
+
+    case 'user':
+      for (const block of blocks) {
+        if (block?.type === 'tool_result') {
+          records.push({
+            kind: 'tool_result',
+            toolUseId: typeof block.tool_use_id === 'string' ? block.tool_use_id : undefined,
+            content: toolResultText(block.content),
+            isError: block.is_error === true,
+          });
+        }
+      }
+      break;
+
+    case 'result': {
+      const modelUsage = parseModelUsage(event.modelUsage);
+      records.push({
+        kind: 'result',
+        text: typeof event.result === 'string' ? event.result : '',
+        isError: event.is_error === true,
+        numTurns: asNumber(event.num_turns),
+        durationMs: asNumber(event.duration_ms),
+        costUsd: asNumber(event.total_cost_usd) ?? asNumber(event.cost_usd),
+        usage: parseUsage(event.usage),
+        // Several models can't be named by one - see modelUsage
+        model: modelUsage?.length === 1 ? modelUsage[0].model : undefined,
+        modelUsage,
+      });
+      break;
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Parser for newline-delimited stream-json events. Lines that aren't JSON
+ * (CLI warnings, crash output) are kept as text records. The session ID is
+ * emitted once, from the first event that carries it; the model named by the
+ * init event is added to the result record.
+ */
+export function createStreamJsonParser(): OutputParser {
+  let buffer = '';
+  let sessionId: string | null = null;
+  let model: string | undefined;
+
+  const parseLine = (line: string): OutputRecord[] => {
+    const trimmed = line.trim();
+    if (!trimmed) return [];
+
+    let event: Record<string, unknown> | null = null;
+    try {
+      event = asRecord(JSON.parse(trimmed));
+    } catch {
+      // Not an event
+    }
+    if (!event) {
+      return [{ kind: 'text', text: trimmed }];
+    }
+
+    const records: OutputRecord[] = [];
+    if (typeof event.session_id === 'string' && event.session_id !== sessionId) {
+      sessionId = event.session_id;
+      records.push({ kind: 'session', sessionId });
+    }
+    if (event.type === 'system' && typeof event.model === 'string') {
+      model = event.model;
+    }
+    for (const record of parseStreamJsonEvent(event)) {
+      // The init event names the model; result events may not
+      records.push(record.kind === 'result' && !record.model ? { ...record, model } : record);
+    }
+    return records;
+  };
+
+  return {
+    push(chunk: string): OutputRecord[] {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      return lines.flatMap(parseLine);
+    },
+    flush(): OutputRecord[] {
+      const rest = buffer;
+      buffer = '';
+      return parseLine(rest);
+    },
+  };
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.trim().split('\n')[0] ?? '';
+  return line.length > max ? `${line.substring(0, max - 1)}…` : line;
+}
+
+// Most informative argument of a tool call, for the log line
+function describeToolInput(input: Record<string, unknown>): string {
+  for (const key of ['command', 'file_path', 'path', 'pattern', 'url', 'description']) {
+    if (typeof input[key] === 'string') {
+      return truncate(input[key] as string, 120);
+    }
+  }
+  return '';
+}
+
+/**
+ * Render a record as a single log line (stored as the log entry content).
+ */
+export function renderOutputRecord(record: OutputRecord): string {
+  switch (record.kind) {
+    case 'text':
+      return record.text;
+    case 'tool_use': {
+      const detail = describeToolInput(record.input);
+      return `→ ${record.name}${detail ? `: ${detail}` : ''}`;
+    }
+    case 'tool_result':
+      return `  ↳ ${record.isError ? 'error: ' : ''}${truncate(record.content, 160) || '(no output)'}`;
+    case 'file_edit':
+      return `✎ ${record.tool} ${record.path}`;
+    case 'result': {
+      const parts = [record.isError ? 'error' : 'done'];
+      if (record.numTurns !== undefined) parts.push(`${record.numTurns} turns`);
+      if (record.durationMs !== undefined) parts.push(`${(record.durationMs / 1000).toFixed(1)}s`);
+      if (record.costUsd !== undefined) parts.push(`$${record.costUsd.toFixed(4)}`);
+      return `■ Result: ${parts.join(', ')}`;
+    }
+    case 'session':
+      return `Session ${record.sessionId}`;
+  }
+}
+
+/**
+ * The agent's own words from a run: its text blocks, or the final result
+ * text if it streamed none.
+ */
+export function getOutputRecordsText(records: OutputRecord[]): string {
+  const text = records
+    .filter((r): r is Extract<OutputRecord, { kind: 'text' }> => r.kind === 'text')
+    .map(r => r.text)
+    .join('\n');
+  if (text) return text;
+  return records
+    .filter((r): r is Extract<OutputRecord, { kind: 'result' }> => r.kind === 'result')
+    .map(r => r.text)
+    .join('\n');
+}
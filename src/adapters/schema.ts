@@ -42,6 +42,25 @@ export interface AdapterConfig {
     patterns: string[];
   };
 
+  // Optional: how to extract token usage from output
+  usageExtraction?: {
+    // Take usage from the output parser's result record (e.g. stream-json)
+    fromRecords?: boolean;
+    // Regex patterns, group 1 is the value (last match wins). A total is
+    // counted as input tokens when the agent doesn't split it.
+    patterns?: {
+      inputTokens?: string;
+      outputTokens?: string;
+      totalTokens?: string;
+      costUsd?: string;
+      model?: string;
+    };
+  };
+
+  // Optional: decode stdout into structured records (e.g. 'stream-json');
+  // without it, output is treated as plain text
+  outputParser?: string;
+
   // Optional: custom follow-up prompt template
   followUpPrompt?: string;
 
@@ -50,6 +50,24 @@ const FLAG_TO_KEY: Record<string, keyof UserConfig> = {
   '--scrolling-text': 'scrollingText',
 };
 
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set([
+  '--list',
+  '--dry-run',
+  '--force',
+  '--tutorial',
+  '--help',
+  '--safe',
+  '--no-worktree',
+  '--detach',
+  '--stop',
+  '--status',
+  '--yes',
+  '--once',
+  '--no-comment',
+  '--no-start',
+]);
+
 /**
  * Load user config from ~/.alex/config.json
  */
@@ -107,58 +125,73 @@ export function shouldShowTutorial(flags: Record<string, string | boolean>): boo
 /**
  * Parse command line arguments
  */
-export function parseArgs(): { command: 'tui' | 'configure' | 'clean' | 'uninstall' | 'help'; flags: Record<string, string | boolean> } {
-  const args = process.argv.slice(2);
+export function parseArgs(): { command: 'tui' | 'run' | 'import' | 'watch' | 'daemon' | 'configure' | 'clean' | 'uninstall' | 'help'; args: string[]; flags: Record<string, string | boolean> } {
+  const argv = process.argv.slice(2);
   const flags: Record<string, string | boolean> = {};
+  const positionals: string[] = [];
 
-  // Find first non-flag argument as command
-  let command: string | undefined;
-  let startIdx = 0;
-  for (let i = 0; i < args.length; i++) {
-    if (!args[i].startsWith('--')) {
-      command = args[i];
-      startIdx = i + 1;
-      break;
-    }
-  }
-
-  // Parse all flags (before and after command)
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+  // Parse all flags (before and after command), collecting positional args
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
     if (arg.startsWith('--')) {
-      const nextArg = args[i + 1];
+      const nextArg = argv[i + 1];
       // Boolean flags
-      if (arg === '--list' || arg === '--dry-run' || arg === '--force' || arg === '--tutorial') {
+      if (BOOLEAN_FLAGS.has(arg)) {
         flags[arg] = true;
       } else if (nextArg && !nextArg.startsWith('--')) {
         flags[arg] = nextArg;
         i++;
       }
+    } else {
+      positionals.push(arg);
     }
   }
 
+  // First positional argument is the command
+  const [command, ...args] = positionals;
+
+  if (flags['--help']) {
+    return { command: 'help', args, flags };
+  }
+
   if (!command) {
-    return { command: 'tui', flags };
+    return { command: 'tui', args, flags };
+  }
+
+  if (command === 'run') {
+    return { command: 'run', args, flags };
+  }
+
+  if (command === 'import') {
+    return { command: 'import', args, flags };
+  }
+
+  if (command === 'watch') {
+    return { command: 'watch', args, flags };
+  }
+
+  if (command === 'daemon') {
+    return { command: 'daemon', args, flags };
   }
 
   if (command === 'configure' || command === 'config') {
-    return { command: 'configure', flags };
+    return { command: 'configure', args, flags };
   }
 
   if (command === 'clean') {
-    return { command: 'clean', flags };
+    return { command: 'clean', args, flags };
   }
 
   if (command === 'uninstall') {
-    return { command: 'uninstall', flags };
+    return { command: 'uninstall', args, flags };
   }
 
-  if (command === 'help' || command === '--help' || command === '-h') {
-    return { command: 'help', flags };
+  if (command === 'help' || command === '-h') {
+    return { command: 'help', args, flags };
   }
 
   // Unknown command, show help
-  return { command: 'help', flags };
+  return { command: 'help', args, flags };
 }
 
 /**
@@ -322,6 +355,10 @@ export function showHelp(): void {
   Usage:
     alex                Launch TUI
     alex --tutorial     Show tutorial/onboarding
+    alex run <url>      Run a loop headless (no TUI)
+    alex import [repo]  Queue loops for matching GitHub issues
+    alex watch [repo]   Queue loops for issues as they get a trigger label
+    alex daemon         Run the loop manager in the background
     alex configure      View/set configuration
     alex clean          Remove orphaned worktrees
     alex uninstall      Remove alex completely
@@ -339,11 +376,64 @@ export function showHelp(): void {
     --transparency      Transparent modal backgrounds (on/off)
     --scrolling-text    Marquee scroll for long loop titles (on/off)
 
+  Run flags:
+    --agent             Agent to use (default: configured default agent)
+    --task              Local markdown task file to run instead of an issue URL
+    --max-iterations    Iteration cap for this loop
+    --repo              Local repo root (default: current directory)
+    --safe              Don't skip agent permission prompts
+    --no-worktree       Run in the repo root instead of a worktree
+    --iteration-timeout      Minutes before an iteration is killed
+    --no-progress-threshold  Trip the breaker after N idle iterations
+    --same-error-threshold   Trip the breaker after N repeated errors
+    --output-decline-threshold  Trip the breaker if output shrinks by this fraction
+    --test-only-threshold    Exit after N test-only iterations
+    --calls-per-hour         Agent invocations allowed per hour
+    --fallback          Comma-separated agents that take over if the agent fails
+    --failed-exit-threshold  Hand off to the next fallback after N failed agent exits
+    --max-cost          Stop the loop once it has cost this many USD (0: no cap)
+    --max-tokens        Stop the loop once it has used this many tokens (0: no cap)
+    --test-command      Run after every iteration; the loop only completes once it passes
+
+  Run exit codes:
+    0  completed        2  max iterations    4  test saturation
+    1  error            3  circuit breaker   5  budget exceeded
+    130  stopped (Ctrl-C)
+
+  Import flags:
+    --label             Comma-separated labels the issues must all have
+    --milestone         Milestone title
+    --assignee          Assignee login (@me for yourself)
+    --search            GitHub search query, e.g. "parser in:title"
+    --limit             Most issues to list (default 50)
+    --yes               Queue every listed issue without asking
+    --agent, --max-iterations, --repo, --safe, --no-worktree  As for run
+
+  Watch flags:
+    --label             Trigger label (default alex:go)
+    --in-progress-label Label that replaces it once a loop exists (default alex:in-progress)
+    --interval          Minutes between polls (default 5)
+    --no-comment        Don't comment on picked up issues
+    --no-start          Hold new loops until started from the TUI
+    --once              Poll once and exit (e.g. from cron)
+    --agent, --max-iterations, --repo, --safe, --no-worktree  As for run
+
+  Daemon flags:
+    --detach            Start the daemon in the background
+    --status            Show whether a daemon is running
+    --stop              Stop the running daemon (and its agents)
+
   Clean flags:
     --dry-run           Show what would be removed
     --force             Skip confirmation prompt
 
   Examples:
+    alex run https://github.com/owner/repo/issues/42 --agent codex --max-iterations 15
+    alex run https://github.com/owner/repo/pull/57    # address its unresolved review threads
+    alex run --task tasks/refactor-auth.md --no-worktree
+    alex import --label ready-for-agent --milestone "Sprint 12"
+    alex watch acme/app --label alex:go --interval 10
+    alex daemon --detach
     alex configure --default-agent gemini
     alex configure --theme light --transparency off
     alex clean --dry-run
@@ -23,6 +23,10 @@ interface UserConfig {
     maxIterations?: number;
     iterationTimeoutMs?: number;
     autoCompleteOnCriteria?: boolean;
+    maxConcurrent?: number;
+    fallbackAgents?: string[];
+    verifyTimeoutMs?: number;
+    verifyCommands?: boolean;
   };
   stuckDetection?: {
     enabled?: boolean;
@@ -33,6 +37,36 @@ interface UserConfig {
     logTailLines?: number;
     scrollingText?: boolean;
   };
+  pullRequests?: {
+    autoCreate?: boolean;
+    draft?: boolean;
+    reviewThreads?: string;
+  };
+  tasks?: {
+    writeBack?: boolean;
+  };
+  issueSync?: {
+    enabled?: boolean;
+    debounceMs?: number;
+  };
+  issueContext?: {
+    maxChars?: number;
+    criteriaAuthors?: string[];
+  };
+  // Per-label agent/iteration rules for bulk imports (validated in core/imports)
+  import?: {
+    rules?: unknown;
+  };
+  // Issue watcher labels, poll interval and pick-up comment (validated in core/watcher)
+  watch?: Record<string, unknown>;
+  // Milestones that post or update the loop's progress comment (validated in core/progressComments)
+  progressComments?: Record<string, unknown>;
+  // GitLab/Jira hosts and credentials (validated in core/providers)
+  issueTrackers?: Record<string, unknown>;
+  // Default run policy for all loops (see RunPolicy in core/types.ts)
+  policy?: Record<string, unknown>;
+  // Model prices in USD per million tokens, merged over the defaults
+  pricing?: Record<string, unknown>;
 }
 
 // Load user config from ~/.alex/config.yaml
@@ -92,6 +126,23 @@ export const AUTO_COMPLETE_ON_CRITERIA = userConfig.loops?.autoCompleteOnCriteri
 export const WORKTREES_ENABLED = userConfig.worktrees?.enabled ?? true;
 export const STUCK_DETECTION_ENABLED = userConfig.stuckDetection?.enabled ?? true;
 export const SCROLLING_TEXT_ENABLED = userConfig.ui?.scrollingText ?? false;
+export const MAX_CONCURRENT_LOOPS = userConfig.loops?.maxConcurrent ?? 0; // 0 = no auto-start
+export const FALLBACK_AGENTS = userConfig.loops?.fallbackAgents ?? []; // default fallback chain for new loops
+export const AUTO_CREATE_PULL_REQUESTS = userConfig.pullRequests?.autoCreate ?? false; // open a PR when a worktree loop completes
+export const PULL_REQUEST_DRAFT = userConfig.pullRequests?.draft ?? false;
+export const TASK_WRITE_BACK = userConfig.tasks?.writeBack ?? true; // tick task file checkboxes as criteria complete
+export const ISSUE_SYNC_ENABLED = userConfig.issueSync?.enabled ?? false; // push criteria progress to the issue checklist
+export const ISSUE_SYNC_DEBOUNCE_MS = userConfig.issueSync?.debounceMs ?? 10000;
+export const ISSUE_CONTEXT_MAX_CHARS = userConfig.issueContext?.maxChars ?? 8000; // labels, links and comments in the prompt
+export const ISSUE_CRITERIA_AUTHORS = userConfig.issueContext?.criteriaAuthors ?? []; // comment authors whose checklists become criteria
+export const IMPORT_RULES = userConfig.import?.rules ?? [];
+export const WATCH_CONFIG = userConfig.watch ?? {};
+export const PROGRESS_COMMENTS = userConfig.progressComments ?? {};
+// What a completed pull request loop does with the review threads it addressed
+export const REVIEW_THREAD_ACTION: 'off' | 'reply' | 'resolve' =
+  userConfig.pullRequests?.reviewThreads === 'reply' || userConfig.pullRequests?.reviewThreads === 'resolve'
+    ? userConfig.pullRequests.reviewThreads
+    : 'off';
 
 // Circuit breaker thresholds
 export const CB_NO_PROGRESS_THRESHOLD = 3;        // Open after N loops with no file changes
@@ -102,8 +153,43 @@ export const CB_CONSECUTIVE_TEST_THRESHOLD = 3;   // Exit after N consecutive te
 // Rate limiting
 export const RATE_LIMIT_CALLS_PER_HOUR = 100;
 
+// Agent fallback
+export const FALLBACK_FAILED_EXIT_THRESHOLD = 2;  // Hand off after N consecutive non-zero agent exits
+
+// Budget caps (0 = no cap)
+export const BUDGET_MAX_COST_USD = 0;
+export const BUDGET_MAX_TOKENS = 0;
+
+// Test command run after every iteration ('' = none)
+export const TEST_COMMAND = '';
+
+// Model prices in USD per million tokens. Keys match a model by prefix, or an
+// agent name for agents that don't report their model.
+export const DEFAULT_MODEL_PRICES: Record<string, { input: number; output: number; cacheRead?: number; cacheWrite?: number }> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+};
+
+// User price table overrides (validated in core/usage.ts)
+export const USER_MODEL_PRICES = userConfig.pricing ?? {};
+
 // Timeouts
-export const ITERATION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes per iteration
+export const ITERATION_TIMEOUT_MS = userConfig.loops?.iterationTimeoutMs ?? 5 * 60 * 1000; // 5 minutes per iteration
+export const VERIFY_TIMEOUT_MS = userConfig.loops?.verifyTimeoutMs ?? 5 * 60 * 1000; // per criterion verification command
+
+// Run `verify:` commands for loops without skipPermissions too
+export const VERIFY_COMMANDS_ENABLED = userConfig.loops?.verifyCommands ?? false;
+export const HOOK_TIMEOUT_MS = 5 * 60 * 1000; // repo hooks without their own timeoutMs
+
+// Issue tracker settings (validated in core/providers/index.ts)
+export const ISSUE_TRACKERS = userConfig.issueTrackers ?? {};
+
+// User run policy overrides (validated in core/policy.ts)
+export const USER_RUN_POLICY = userConfig.policy ?? {};
 
 // Completion promise tag
 export const COMPLETION_PROMISE = '<promise>TASK COMPLETE</promise>';
@@ -2,7 +2,8 @@ import { execFileSync } from 'child_process';
 import { createHash } from 'crypto';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { AnalysisResult } from './types.js';
+import { AnalysisResult, OutputRecord, TestRun } from './types.js';
+import { isTestProgress, formatTestRun } from './testResults.js';
 import {
   COMPLETION_PROMISE,
   RALPH_STATUS_REGEX,
@@ -21,12 +22,78 @@ export interface GitBaselineInfo {
   initialFileHashes: Map<string, string>;  // filename -> content hash
 }
 
+/**
+ * Signals taken from parsed output records instead of raw text: what the agent
+ * said, which commands it ran, which files it edited and which tools failed.
+ */
+interface RecordSignals {
+  text: string;
+  commands: string[];
+  fileEdits: number;
+  errors: string[];
+}
+
+function getRecordSignals(records: OutputRecord[], output: string): RecordSignals {
+  const signals: RecordSignals = { text: '', commands: [], fileEdits: 0, errors: [] };
+  const texts: string[] = [];
+  let resultText = '';
+
+  for (const record of records) {
+    switch (record.kind) {
+      case 'text':
+        texts.push(record.text);
+        break;
+      case 'tool_use':
+        if (typeof record.input.command === 'string') {
+          signals.commands.push(record.input.command);
+        }
+        break;
+      case 'file_edit':
+        signals.fileEdits++;
+        break;
+      case 'tool_result':
+        if (record.isError && record.content.trim()) {
+          signals.errors.push(record.content.trim().split('\n')[0]);
+        }
+        break;
+      case 'result':
+        resultText = record.text;
+        if (record.isError) {
+          signals.errors.push(`Error: ${record.text.trim().split('\n')[0] || 'agent run failed'}`);
+        }
+        break;
+    }
+  }
+
+  signals.text = texts.length > 0 ? texts.join('\n') : resultText;
+
+  // Non-JSON lines (stderr, CLI crashes) still carry errors
+  const plainLines = output.split('\n').filter(line => !line.trim().startsWith('{')).join('\n');
+  for (const error of extractErrors(plainLines)) {
+    if (!signals.errors.includes(error)) {
+      signals.errors.push(error);
+    }
+  }
+
+  return signals;
+}
+
 /**
  * Analyze agent output to detect completion, stuck state, and test-only signals.
  * Based on ralph-claude-code's response_analyzer.sh logic.
  * @param gitBaseline - Git baseline with initial dirty files and hashes to exclude
+ * @param records - Parsed output records; when given, signals come from the
+ *   agent's text, commands and file edits instead of regexing the raw output
  */
-export function analyzeResponse(output: string, workingDir: string, gitBaseline?: GitBaselineInfo | null): AnalysisResult {
+export function analyzeResponse(
+  rawOutput: string,
+  workingDir: string,
+  gitBaseline?: GitBaselineInfo | null,
+  records?: OutputRecord[]
+): AnalysisResult {
+  const signals = records ? getRecordSignals(records, rawOutput) : null;
+  const output = signals ? signals.text : rawOutput;
+
   const result: AnalysisResult = {
     hasCompletionSignal: false,
     isTestOnly: false,
@@ -83,17 +150,23 @@ export function analyzeResponse(output: string, workingDir: string, gitBaseline?
   let testCommandCount = 0;
   let implementationCount = 0;
 
-  for (const pattern of TEST_ONLY_PATTERNS) {
-    const matches = output.match(new RegExp(pattern.source, 'gi'));
-    if (matches) {
-      testCommandCount += matches.length;
+  if (signals) {
+    // Commands the agent actually ran vs files it actually edited
+    testCommandCount = signals.commands.filter(cmd => TEST_ONLY_PATTERNS.some(p => p.test(cmd))).length;
+    implementationCount = signals.fileEdits;
+  } else {
+    for (const pattern of TEST_ONLY_PATTERNS) {
+      const matches = output.match(new RegExp(pattern.source, 'gi'));
+      if (matches) {
+        testCommandCount += matches.length;
+      }
     }
-  }
 
-  for (const pattern of IMPLEMENTATION_PATTERNS) {
-    const matches = output.match(new RegExp(pattern.source, 'gi'));
-    if (matches) {
-      implementationCount += matches.length;
+    for (const pattern of IMPLEMENTATION_PATTERNS) {
+      const matches = output.match(new RegExp(pattern.source, 'gi'));
+      if (matches) {
+        implementationCount += matches.length;
+      }
     }
   }
 
@@ -108,7 +181,7 @@ export function analyzeResponse(output: string, workingDir: string, gitBaseline?
   }
 
   // 7. Extract errors (filter out JSON field false positives)
-  result.errors = extractErrors(output);
+  result.errors = signals ? signals.errors : extractErrors(output);
   if (result.errors.length > 0) {
     result.confidenceScore -= 10;
   }
@@ -124,6 +197,25 @@ export function analyzeResponse(output: string, workingDir: string, gitBaseline?
   return result;
 }
 
+/**
+ * Fold the loop's test run into an analysis. Fewer failures (or red to green)
+ * is progress even without file changes, and an iteration that moved the
+ * tests isn't test-only. A failing suite is reported as an error, so the same
+ * failure count iteration after iteration trips the same-error breaker.
+ */
+export function applyTestRun(analysis: AnalysisResult, run: TestRun, previous?: TestRun): AnalysisResult {
+  const result: AnalysisResult = { ...analysis, testRun: run };
+  if (isTestProgress(run, previous)) {
+    result.hasProgress = true;
+    result.isTestOnly = false;
+    result.isStuck = false;
+  }
+  if (!run.ok) {
+    result.errors = [...analysis.errors, `Tests failing: ${formatTestRun(run)}`];
+  }
+  return result;
+}
+
 /**
  * Count git-tracked file changes since the baseline.
  * Counts: (1) newly dirty files, (2) dirty files whose content changed since baseline.
@@ -0,0 +1,110 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { createCheckpoint, loadCheckpoints, restoreCheckpoint } from './checkpoints.js';
+import { getLoopDir } from './state.js';
+
+const LOOP_ID = `loop_checkpoints_test_${process.pid}`;
+
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, {
+    cwd: repo,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'test',
+      GIT_AUTHOR_EMAIL: 'test@localhost',
+      GIT_COMMITTER_NAME: 'test',
+      GIT_COMMITTER_EMAIL: 'test@localhost',
+    },
+  }).trim();
+}
+
+function write(file: string, content: string): void {
+  fs.writeFileSync(path.join(repo, file), content);
+}
+
+function read(file: string): string | null {
+  const filePath = path.join(repo, file);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+function listRefs(): string[] {
+  return git('for-each-ref', '--format=%(refname)', `refs/alex/${LOOP_ID}`).split('\n').filter(Boolean);
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'alex-checkpoints-'));
+  git('init', '--quiet');
+  write('app.ts', 'v0\n');
+  git('add', 'app.ts');
+  git('commit', '--quiet', '-m', 'initial');
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+  fs.rmSync(getLoopDir(LOOP_ID), { recursive: true, force: true });
+});
+
+describe('createCheckpoint', () => {
+  test('snapshots each iteration to a ref without touching the index', () => {
+    write('app.ts', 'v1\n');
+    write('notes.md', 'untracked\n');
+    const first = createCheckpoint(LOOP_ID, repo, 1);
+    write('app.ts', 'v2\n');
+    const second = createCheckpoint(LOOP_ID, repo, 2);
+
+    expect(first?.ref).toBe(`refs/alex/${LOOP_ID}/iter-1`);
+    expect(first?.diffStat).toBe('2 files changed, 2 insertions(+), 1 deletion(-)');
+    expect(second?.diffStat).toBe('1 file changed, 1 insertion(+), 1 deletion(-)');
+    expect(git('rev-parse', `${second?.commit}^`)).toBe(first!.commit);
+    expect(git('show', `${first?.ref}:notes.md`)).toBe('untracked');
+
+    expect(loadCheckpoints(LOOP_ID).map(c => c.iteration)).toEqual([1, 2]);
+    expect(listRefs()).toEqual([`refs/alex/${LOOP_ID}/iter-1`, `refs/alex/${LOOP_ID}/iter-2`]);
+    expect(git('status', '--porcelain')).toBe('M app.ts\n?? notes.md');
+  });
+
+  test('returns null outside a git repository', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alex-no-git-'));
+    expect(createCheckpoint(LOOP_ID, dir, 1)).toBeNull();
+    expect(loadCheckpoints(LOOP_ID)).toEqual([]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('restoreCheckpoint', () => {
+  test('restores the working tree and branch and prunes later checkpoints', () => {
+    const head = git('rev-parse', 'HEAD');
+    write('app.ts', 'v1\n');
+    write('notes.md', 'untracked\n');
+    createCheckpoint(LOOP_ID, repo, 1);
+
+    write('app.ts', 'v2\n');
+    write('extra.ts', 'added later\n');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'agent commit');
+    createCheckpoint(LOOP_ID, repo, 2);
+
+    const backupRef = restoreCheckpoint(LOOP_ID, repo, 1);
+
+    expect(read('app.ts')).toBe('v1\n');
+    expect(read('notes.md')).toBe('untracked\n');
+    expect(read('extra.ts')).toBeNull();
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+    expect(git('status', '--porcelain')).toBe('M app.ts\n?? notes.md');
+
+    expect(loadCheckpoints(LOOP_ID).map(c => c.iteration)).toEqual([1]);
+    expect(listRefs()).toEqual([backupRef, `refs/alex/${LOOP_ID}/iter-1`]);
+    expect(git('show', `${backupRef}:extra.ts`)).toBe('added later');
+  });
+
+  test('rejects an iteration without a checkpoint', () => {
+    createCheckpoint(LOOP_ID, repo, 1);
+    expect(() => restoreCheckpoint(LOOP_ID, repo, 3)).toThrow('No checkpoint for iteration 3');
+  });
+});
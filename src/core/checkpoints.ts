@@ -0,0 +1,191 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { getLoopDir, ensureLoopDir } from './state.js';
+
+/**
+ * Per-iteration git checkpoints. After every iteration the worktree (tracked
+ * and untracked files, ignoring .gitignore'd ones) is committed to a shadow
+ * ref, refs/alex/{loopId}/iter-{n}, without touching the branch, index or
+ * working tree. Rolling back restores the working tree and branch HEAD to a
+ * checkpoint; the state before the rollback is kept under a before-rollback
+ * ref so nothing is lost.
+ */
+export interface Checkpoint {
+  iteration: number;
+  ref: string;            // refs/alex/{loopId}/iter-{n}
+  commit: string;         // snapshot commit (parent: previous checkpoint or HEAD)
+  tree: string;
+  head: string | null;    // branch HEAD when the snapshot was taken
+  createdAt: string;      // ISO timestamp
+  diffStat: string;       // changes during this iteration (git diff --shortstat)
+}
+
+// The tree of an empty repository - base for diffs before the first commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Snapshots must not depend on the user's git identity being configured
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'alex',
+  GIT_AUTHOR_EMAIL: 'alex@localhost',
+  GIT_COMMITTER_NAME: 'alex',
+  GIT_COMMITTER_EMAIL: 'alex@localhost',
+};
+
+// Get checkpoint metadata path for a loop
+export function getCheckpointsPath(loopId: string): string {
+  return path.join(getLoopDir(loopId), 'checkpoints.json');
+}
+
+// Load checkpoint metadata for a loop, oldest first (empty if none)
+export function loadCheckpoints(loopId: string): Checkpoint[] {
+  const checkpointsPath = getCheckpointsPath(loopId);
+  if (!fs.existsSync(checkpointsPath)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(checkpointsPath, 'utf-8')) as Checkpoint[];
+  } catch {
+    return [];
+  }
+}
+
+function saveCheckpoints(loopId: string, checkpoints: Checkpoint[]): void {
+  ensureLoopDir(loopId);
+  const checkpointsPath = getCheckpointsPath(loopId);
+  const tmpPath = `${checkpointsPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(checkpoints, null, 2));
+  fs.renameSync(tmpPath, checkpointsPath);
+}
+
+function git(workingDir: string, args: string[], env?: Record<string, string>): string {
+  return execFileSync('git', args, {
+    cwd: workingDir,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: env ? { ...process.env, ...env } : process.env,
+  }).trim();
+}
+
+function getHead(workingDir: string): string | null {
+  try {
+    return git(workingDir, ['rev-parse', '--verify', '--quiet', 'HEAD']) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the current working tree (including untracked files) as a git tree
+ * using a throwaway copy of the index, so the real index is left alone.
+ */
+function snapshotTree(workingDir: string): string {
+  const indexPath = path.resolve(workingDir, git(workingDir, ['rev-parse', '--git-path', 'index']));
+  const tmpIndex = path.join(os.tmpdir(), `alex-index-${process.pid}-${Date.now()}`);
+  try {
+    // Start from the real index so unchanged files aren't rehashed
+    if (fs.existsSync(indexPath)) {
+      fs.copyFileSync(indexPath, tmpIndex);
+    }
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    git(workingDir, ['add', '-A', '--', '.'], env);
+    return git(workingDir, ['write-tree'], env);
+  } finally {
+    fs.rmSync(tmpIndex, { force: true });
+  }
+}
+
+function shortStat(workingDir: string, from: string, to: string): string {
+  return git(workingDir, ['diff', '--shortstat', from, to]) || 'no changes';
+}
+
+/**
+ * Snapshot the working tree after an iteration. Returns null if the
+ * directory isn't a git repository or the snapshot fails.
+ */
+export function createCheckpoint(loopId: string, workingDir: string, iteration: number): Checkpoint | null {
+  try {
+    const checkpoints = loadCheckpoints(loopId).filter(c => c.iteration < iteration);
+    const previous = checkpoints[checkpoints.length - 1];
+    const head = getHead(workingDir);
+
+    const tree = snapshotTree(workingDir);
+    const parent = previous?.commit ?? head;
+    const commit = git(workingDir, [
+      'commit-tree', tree,
+      ...(parent ? ['-p', parent] : []),
+      '-m', `alex checkpoint: ${loopId} iteration ${iteration}`,
+    ], CHECKPOINT_IDENTITY);
+
+    const ref = `refs/alex/${loopId}/iter-${iteration}`;
+    git(workingDir, ['update-ref', ref, commit]);
+
+    const checkpoint: Checkpoint = {
+      iteration,
+      ref,
+      commit,
+      tree,
+      head,
+      createdAt: new Date().toISOString(),
+      diffStat: shortStat(workingDir, previous?.tree ?? head ?? EMPTY_TREE, tree),
+    };
+    saveCheckpoints(loopId, [...checkpoints, checkpoint]);
+    return checkpoint;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restore the working tree and branch HEAD to the checkpoint taken after
+ * `iteration`. Files created since are removed; files that were untracked at
+ * the checkpoint are restored untracked. Later checkpoints are dropped.
+ * Returns the ref holding the state from before the rollback.
+ */
+export function restoreCheckpoint(loopId: string, workingDir: string, iteration: number): string {
+  const checkpoints = loadCheckpoints(loopId);
+  const checkpoint = checkpoints.find(c => c.iteration === iteration);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint for iteration ${iteration}`);
+  }
+
+  // Keep the current state reachable so the rollback can be undone by hand
+  const currentTree = snapshotTree(workingDir);
+  const currentHead = getHead(workingDir);
+  const backupCommit = git(workingDir, [
+    'commit-tree', currentTree,
+    ...(currentHead ? ['-p', currentHead] : []),
+    '-m', `alex: before rollback of ${loopId} to iteration ${iteration}`,
+  ], CHECKPOINT_IDENTITY);
+  const backupRef = `refs/alex/${loopId}/before-rollback-${Date.now()}`;
+  git(workingDir, ['update-ref', backupRef, backupCommit]);
+
+  // Files that didn't exist at the checkpoint (tracked or not)
+  const added = git(workingDir, ['diff', '-z', '--name-only', '--no-renames', '--diff-filter=A', checkpoint.tree, currentTree]);
+  for (const file of added.split('\0').filter(Boolean)) {
+    fs.rmSync(path.join(workingDir, file), { force: true });
+  }
+
+  // Move the branch back if the agent committed since, then check out the
+  // snapshot and reset the index to HEAD so untracked files stay untracked
+  if (checkpoint.head && checkpoint.head !== currentHead) {
+    git(workingDir, ['reset', '--quiet', '--soft', checkpoint.head]);
+  }
+  git(workingDir, ['read-tree', '-u', '--reset', checkpoint.tree]);
+  if (checkpoint.head) {
+    git(workingDir, ['reset', '--quiet']);
+  }
+
+  for (const later of checkpoints.filter(c => c.iteration > iteration)) {
+    try {
+      git(workingDir, ['update-ref', '-d', later.ref]);
+    } catch {
+      // Ref already gone
+    }
+  }
+  saveCheckpoints(loopId, checkpoints.filter(c => c.iteration <= iteration));
+
+  return backupRef;
+}
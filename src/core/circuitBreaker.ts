@@ -1,4 +1,4 @@
-import { CircuitBreakerState, CircuitState, AnalysisResult } from './types.js';
+import { CircuitBreakerState, CircuitState, AnalysisResult, RunPolicy } from './types.js';
 import {
   CB_NO_PROGRESS_THRESHOLD,
   CB_SAME_ERROR_THRESHOLD,
@@ -15,6 +15,18 @@ import {
  * - OPEN: Execution halted, requires manual reset
  */
 
+// Thresholds that open the breaker (taken from the loop's run policy)
+export type CircuitBreakerThresholds = Pick<
+  Required<RunPolicy>,
+  'noProgressThreshold' | 'sameErrorThreshold' | 'outputDeclineThreshold'
+>;
+
+const DEFAULT_THRESHOLDS: CircuitBreakerThresholds = {
+  noProgressThreshold: CB_NO_PROGRESS_THRESHOLD,
+  sameErrorThreshold: CB_SAME_ERROR_THRESHOLD,
+  outputDeclineThreshold: CB_OUTPUT_DECLINE_THRESHOLD,
+};
+
 /**
  * Create initial circuit breaker state.
  */
@@ -34,7 +46,8 @@ export function createCircuitBreaker(): CircuitBreakerState {
  */
 export function recordIteration(
   cb: CircuitBreakerState,
-  analysis: AnalysisResult
+  analysis: AnalysisResult,
+  thresholds: CircuitBreakerThresholds = DEFAULT_THRESHOLDS
 ): CircuitBreakerState {
   const newCb = { ...cb };
 
@@ -83,7 +96,7 @@ export function recordIteration(
   newCb.lastOutputLength = analysis.outputLength;
 
   // State transitions based on thresholds
-  newCb.state = determineState(newCb, outputDecline);
+  newCb.state = determineState(newCb, outputDecline, thresholds);
 
   return newCb;
 }
@@ -93,7 +106,8 @@ export function recordIteration(
  */
 function determineState(
   cb: CircuitBreakerState,
-  outputDecline: number
+  outputDecline: number,
+  thresholds: CircuitBreakerThresholds
 ): CircuitState {
   // Already open stays open (manual reset required)
   if (cb.state === 'open') {
@@ -101,19 +115,19 @@ function determineState(
   }
 
   // Check for open conditions
-  if (cb.consecutiveNoProgress >= CB_NO_PROGRESS_THRESHOLD) {
+  if (cb.consecutiveNoProgress >= thresholds.noProgressThreshold) {
     cb.openReason = `No progress for ${cb.consecutiveNoProgress} iterations`;
     cb.openedAt = new Date().toISOString();
     return 'open';
   }
 
-  if (cb.consecutiveSameError >= CB_SAME_ERROR_THRESHOLD) {
+  if (cb.consecutiveSameError >= thresholds.sameErrorThreshold) {
     cb.openReason = `Same errors for ${cb.consecutiveSameError} iterations`;
     cb.openedAt = new Date().toISOString();
     return 'open';
   }
 
-  if (outputDecline >= CB_OUTPUT_DECLINE_THRESHOLD) {
+  if (outputDecline >= thresholds.outputDeclineThreshold) {
     cb.openReason = `Output declined by ${Math.round(outputDecline * 100)}%`;
     cb.openedAt = new Date().toISOString();
     return 'open';
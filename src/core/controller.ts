@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import {
+  loopEvents,
+  startLoop,
+  pauseLoop,
+  pauseLoopAfterIteration,
+  cancelPauseAfterIteration,
+  resumeLoop,
+  resumePausedLoop,
+  stopLoop,
+  retryLoop,
+  markLoopManualComplete,
+  sendIntervention,
+  canResumeInSession,
+  resetLoopCircuitBreaker,
+  resetLoopSession,
+  rollbackLoop,
+  killAll,
+} from './loops.js';
+import { scheduleQueuedLoops, drainQueue } from './scheduler.js';
+
+/**
+ * Operations that need the loop manager (agent processes, in-memory iteration
+ * state, the event emitter). The TUI and CLI go through a controller so the
+ * same code works in-process or attached to `alex daemon`.
+ */
+export interface LoopController {
+  readonly mode: 'local' | 'daemon';
+  // LoopEvent stream - emits 'event' plus the typed event, like loopEvents
+  readonly events: EventEmitter;
+
+  startLoop(loopId: string): Promise<void>;
+  retryLoop(loopId: string): Promise<void>;
+  resumePausedLoop(loopId: string): Promise<void>;
+  pauseLoop(loopId: string): Promise<void>;
+  pauseLoopAfterIteration(loopId: string): Promise<void>;
+  cancelPauseAfterIteration(loopId: string): Promise<void>;
+  resumeLoop(loopId: string): Promise<void>;
+  stopLoop(loopId: string): Promise<void>;
+  markLoopManualComplete(loopId: string, note?: string): Promise<void>;
+  sendIntervention(loopId: string, message: string): Promise<void>;
+  canResumeInSession(loopId: string): Promise<boolean>;
+  resetLoopCircuitBreaker(loopId: string): Promise<void>;
+  resetLoopSession(loopId: string): Promise<void>;
+  rollbackLoop(loopId: string, iteration: number, intervention?: string): Promise<void>;
+  scheduleQueuedLoops(): Promise<string[]>;
+  drainQueue(): Promise<string[]>;
+
+  // Detach from the loop manager. Local controllers kill their agents;
+  // daemon controllers just disconnect and leave loops running.
+  close(): void;
+}
+
+/**
+ * Controller that drives loops in the current process.
+ */
+export function createLocalController(): LoopController {
+  return {
+    mode: 'local',
+    events: loopEvents,
+    startLoop: (loopId) => startLoop(loopId),
+    retryLoop: (loopId) => retryLoop(loopId),
+    resumePausedLoop: (loopId) => resumePausedLoop(loopId),
+    pauseLoop: async (loopId) => pauseLoop(loopId),
+    pauseLoopAfterIteration: async (loopId) => pauseLoopAfterIteration(loopId),
+    cancelPauseAfterIteration: async (loopId) => cancelPauseAfterIteration(loopId),
+    resumeLoop: async (loopId) => resumeLoop(loopId),
+    stopLoop: async (loopId) => stopLoop(loopId),
+    markLoopManualComplete: async (loopId, note) => markLoopManualComplete(loopId, note),
+    sendIntervention: async (loopId, message) => sendIntervention(loopId, message),
+    canResumeInSession: async (loopId) => canResumeInSession(loopId),
+    resetLoopCircuitBreaker: async (loopId) => resetLoopCircuitBreaker(loopId),
+    resetLoopSession: async (loopId) => resetLoopSession(loopId),
+    rollbackLoop: async (loopId, iteration, intervention) => rollbackLoop(loopId, iteration, intervention),
+    scheduleQueuedLoops: async () => scheduleQueuedLoops(),
+    drainQueue: async () => drainQueue(),
+    close: () => killAll(),
+  };
+}
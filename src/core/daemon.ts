@@ -0,0 +1,318 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { LoopEvent } from './types.js';
+import { LoopController } from './controller.js';
+import { ALEX_DIR } from '../config.js';
+
+/**
+ * Daemon protocol: newline-delimited JSON over a Unix domain socket.
+ *   client -> daemon  { id, method, params }
+ *   daemon -> client  { id, result } | { id, error }
+ *   daemon -> client  { event }        (every LoopEvent, pushed to all clients)
+ */
+
+export const DAEMON_SOCKET_PATH = path.join(ALEX_DIR, 'daemon.sock');
+
+// Controller methods a client may invoke remotely
+const CONTROLLER_METHODS = [
+  'startLoop',
+  'retryLoop',
+  'resumePausedLoop',
+  'pauseLoop',
+  'pauseLoopAfterIteration',
+  'cancelPauseAfterIteration',
+  'resumeLoop',
+  'stopLoop',
+  'markLoopManualComplete',
+  'sendIntervention',
+  'canResumeInSession',
+  'resetLoopCircuitBreaker',
+  'resetLoopSession',
+  'rollbackLoop',
+  'scheduleQueuedLoops',
+  'drainQueue',
+] as const;
+
+type ControllerMethod = typeof CONTROLLER_METHODS[number];
+
+interface DaemonRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+type DaemonMessage =
+  | { id: number; result?: unknown; error?: string }
+  | { event: LoopEvent };
+
+export interface DaemonInfo {
+  pid: number;
+  startedAt: string;
+  clients: number;
+}
+
+/**
+ * Split a socket stream into JSON messages, one per line.
+ */
+function onJsonLines(socket: net.Socket, handler: (message: any) => void): void {
+  let buffer = '';
+  socket.setEncoding('utf-8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+      try {
+        handler(JSON.parse(line));
+      } catch {
+        // Ignore malformed lines
+      }
+    }
+  });
+}
+
+function send(socket: net.Socket, message: DaemonMessage): void {
+  if (!socket.destroyed) {
+    socket.write(JSON.stringify(message) + '\n');
+  }
+}
+
+/**
+ * Serve a controller on the daemon socket.
+ * `shutdown` requests are passed to onShutdown once the reply has been sent.
+ */
+export async function startDaemonServer(
+  controller: LoopController,
+  onShutdown: () => void,
+  socketPath: string = DAEMON_SOCKET_PATH
+): Promise<net.Server> {
+  const clients = new Set<net.Socket>();
+  const startedAt = new Date().toISOString();
+
+  // A socket file without a listener is left over from a crashed daemon
+  if (fs.existsSync(socketPath)) {
+    if (await pingDaemon(socketPath)) {
+      throw new Error(`Daemon already running (${socketPath})`);
+    }
+    fs.unlinkSync(socketPath);
+  }
+
+  const forwardEvent = (event: LoopEvent): void => {
+    for (const client of clients) {
+      send(client, { event });
+    }
+  };
+  controller.events.on('event', forwardEvent);
+
+  const server = net.createServer((socket) => {
+    clients.add(socket);
+    socket.on('close', () => clients.delete(socket));
+    socket.on('error', () => clients.delete(socket));
+
+    onJsonLines(socket, (request: DaemonRequest) => {
+      const { id, method, params = [] } = request;
+
+      if (method === 'ping') {
+        const info: DaemonInfo = { pid: process.pid, startedAt, clients: clients.size };
+        send(socket, { id, result: info });
+        return;
+      }
+
+      if (method === 'shutdown') {
+        send(socket, { id, result: null });
+        setImmediate(onShutdown);
+        return;
+      }
+
+      if (!(CONTROLLER_METHODS as readonly string[]).includes(method)) {
+        send(socket, { id, error: `Unknown method: ${method}` });
+        return;
+      }
+
+      const fn = controller[method as ControllerMethod] as (...args: unknown[]) => Promise<unknown>;
+      fn(...params).then(
+        (result) => send(socket, { id, result: result ?? null }),
+        (err: Error) => send(socket, { id, error: err.message })
+      );
+    });
+  });
+
+  server.on('close', () => {
+    controller.events.off('event', forwardEvent);
+    for (const client of clients) {
+      client.destroy();
+    }
+  });
+
+  // Owner-only from the moment the socket exists - a chmod after listen
+  // leaves a window where other users can connect
+  const previousUmask = process.umask(0o177);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  } finally {
+    process.umask(previousUmask);
+  }
+  fs.chmodSync(socketPath, 0o600);
+
+  return server;
+}
+
+/**
+ * Open a client connection to the daemon (null if no daemon is listening).
+ */
+function connect(socketPath: string, timeoutMs: number): Promise<net.Socket | null> {
+  return new Promise((resolve) => {
+    if (!fs.existsSync(socketPath)) {
+      resolve(null);
+      return;
+    }
+
+    const socket = net.createConnection(socketPath);
+    const timer = setTimeout(() => {
+      socket.destroy();
+      resolve(null);
+    }, timeoutMs);
+
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+  });
+}
+
+/**
+ * Client side of the protocol: request/response matching plus the event stream.
+ */
+function createDaemonClient(socket: net.Socket) {
+  const events = new EventEmitter();
+  // 'error' is a regular loop event - see loopEvents
+  events.on('error', () => {});
+
+  const pending = new Map<number, { resolve: (value: any) => void; reject: (err: Error) => void }>();
+  let nextId = 1;
+
+  onJsonLines(socket, (message: DaemonMessage) => {
+    if ('event' in message) {
+      events.emit('event', message.event);
+      events.emit(message.event.type, message.event);
+      return;
+    }
+
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.error !== undefined) {
+      request.reject(new Error(message.error));
+    } else {
+      request.resolve(message.result);
+    }
+  });
+
+  socket.on('close', () => {
+    for (const request of pending.values()) {
+      request.reject(new Error('Lost connection to alex daemon'));
+    }
+    pending.clear();
+    events.emit('disconnected');
+  });
+  socket.on('error', () => {
+    // 'close' follows and rejects pending requests
+  });
+
+  const call = <T>(method: string, ...params: unknown[]): Promise<T> => {
+    if (socket.destroyed) {
+      return Promise.reject(new Error('Not connected to alex daemon'));
+    }
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      socket.write(JSON.stringify({ id, method, params }) + '\n');
+    });
+  };
+
+  return { events, call };
+}
+
+/**
+ * Check whether a daemon is listening. Returns its info, or null.
+ */
+export async function pingDaemon(
+  socketPath: string = DAEMON_SOCKET_PATH,
+  timeoutMs = 500
+): Promise<DaemonInfo | null> {
+  const socket = await connect(socketPath, timeoutMs);
+  if (!socket) return null;
+
+  try {
+    return await createDaemonClient(socket).call<DaemonInfo>('ping');
+  } catch {
+    return null;
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Ask a running daemon to shut down. Returns false if none was running.
+ */
+export async function stopDaemon(socketPath: string = DAEMON_SOCKET_PATH): Promise<boolean> {
+  const socket = await connect(socketPath, 500);
+  if (!socket) return false;
+
+  try {
+    await createDaemonClient(socket).call('shutdown');
+    return true;
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Attach to a running daemon. Returns a controller that forwards every call
+ * over the socket, or null if no daemon is listening.
+ */
+export async function connectToDaemon(
+  socketPath: string = DAEMON_SOCKET_PATH,
+  timeoutMs = 500
+): Promise<LoopController | null> {
+  const socket = await connect(socketPath, timeoutMs);
+  if (!socket) return null;
+
+  const { events, call } = createDaemonClient(socket);
+
+  return {
+    mode: 'daemon',
+    events,
+    startLoop: (loopId) => call('startLoop', loopId),
+    retryLoop: (loopId) => call('retryLoop', loopId),
+    resumePausedLoop: (loopId) => call('resumePausedLoop', loopId),
+    pauseLoop: (loopId) => call('pauseLoop', loopId),
+    pauseLoopAfterIteration: (loopId) => call('pauseLoopAfterIteration', loopId),
+    cancelPauseAfterIteration: (loopId) => call('cancelPauseAfterIteration', loopId),
+    resumeLoop: (loopId) => call('resumeLoop', loopId),
+    stopLoop: (loopId) => call('stopLoop', loopId),
+    markLoopManualComplete: (loopId, note) => call('markLoopManualComplete', loopId, note),
+    sendIntervention: (loopId, message) => call('sendIntervention', loopId, message),
+    canResumeInSession: (loopId) => call('canResumeInSession', loopId),
+    resetLoopCircuitBreaker: (loopId) => call('resetLoopCircuitBreaker', loopId),
+    resetLoopSession: (loopId) => call('resetLoopSession', loopId),
+    rollbackLoop: (loopId, iteration, intervention) => call('rollbackLoop', loopId, iteration, intervention),
+    scheduleQueuedLoops: () => call('scheduleQueuedLoops'),
+    drainQueue: () => call('drainQueue'),
+    close: () => socket.end(),
+  };
+}
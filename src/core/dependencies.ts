@@ -0,0 +1,134 @@
+import { Loop } from './types.js';
+import { formatIssueRef } from './issues.js';
+
+/**
+ * Loop dependencies: a loop with dependsOn stays queued until every parent
+ * has completed (and, with requireApprovedReview, until each parent's review
+ * approved it). Its worktree is then created from the first parent's branch,
+ * once whatever that parent left uncommitted is committed to it.
+ * A parent that errored, was stopped or had changes requested blocks the
+ * dependent loop until the operator intervenes.
+ */
+
+export type DependencyState = 'none' | 'ready' | 'waiting' | 'blocked';
+
+export interface DependencyStatus {
+  state: DependencyState;
+  waitingOn: string[];   // parent loop IDs not finished yet
+  blockedBy: string[];   // human-readable reasons the loop cannot start
+}
+
+/**
+ * Evaluate whether a loop's dependencies allow it to start.
+ */
+export function getDependencyStatus(loop: Loop, loops: Loop[]): DependencyStatus {
+  const parentIds = loop.dependsOn ?? [];
+  if (parentIds.length === 0) {
+    return { state: 'none', waitingOn: [], blockedBy: [] };
+  }
+
+  const waitingOn: string[] = [];
+  const blockedBy: string[] = [];
+
+  for (const parentId of parentIds) {
+    const parent = loops.find(l => l.id === parentId);
+    if (!parent) {
+      blockedBy.push(`${parentId} no longer exists`);
+      continue;
+    }
+
+    const label = formatIssueRef(parent.issue);
+    if (parent.status === 'error' || parent.status === 'stopped') {
+      blockedBy.push(`${label} ${parent.status === 'error' ? 'errored' : 'was stopped'}`);
+    } else if (parent.status !== 'completed') {
+      waitingOn.push(parentId);
+    } else if (loop.requireApprovedReview && parent.reviewVerdict === 'changes_requested') {
+      blockedBy.push(`${label} review requested changes`);
+    } else if (loop.requireApprovedReview && parent.reviewVerdict !== 'approved') {
+      waitingOn.push(parentId);
+    }
+  }
+
+  const state: DependencyState = blockedBy.length > 0 ? 'blocked'
+    : waitingOn.length > 0 ? 'waiting'
+    : 'ready';
+  return { state, waitingOn, blockedBy };
+}
+
+/**
+ * Check if a loop can start as far as its dependencies are concerned.
+ */
+export function areDependenciesMet(loop: Loop, loops: Loop[]): boolean {
+  const { state } = getDependencyStatus(loop, loops);
+  return state === 'none' || state === 'ready';
+}
+
+/**
+ * Describe unmet dependencies (for errors and the detail pane).
+ */
+export function describeUnmetDependencies(loop: Loop, loops: Loop[]): string | null {
+  const status = getDependencyStatus(loop, loops);
+  if (status.state === 'blocked') {
+    return `Blocked: ${status.blockedBy.join(', ')}`;
+  }
+  if (status.state === 'waiting') {
+    const labels = status.waitingOn.map(id => {
+      const parent = loops.find(l => l.id === id);
+      return parent ? formatIssueRef(parent.issue) : id;
+    });
+    return `Waiting on ${labels.join(', ')}${loop.requireApprovedReview ? ' (approved review required)' : ''}`;
+  }
+  return null;
+}
+
+/**
+ * Get the parent a dependent loop's worktree should be based on
+ * (the first parent that has a worktree branch).
+ */
+export function getDependencyBaseLoop(loop: Loop, loops: Loop[]): Loop | undefined {
+  for (const parentId of loop.dependsOn ?? []) {
+    const parent = loops.find(l => l.id === parentId);
+    if (parent?.worktreeBranch) {
+      return parent;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the branch a dependent loop's worktree should be based on.
+ */
+export function getDependencyBaseBranch(loop: Loop, loops: Loop[]): string | undefined {
+  return getDependencyBaseLoop(loop, loops)?.worktreeBranch;
+}
+
+/**
+ * Get the ancestors of a loop in dependency order (root first).
+ * Each loop appears once; cycles are cut.
+ */
+export function getDependencyChain(loopId: string, loops: Loop[]): Loop[] {
+  const chain: Loop[] = [];
+  const visited = new Set<string>([loopId]);
+
+  const visit = (id: string): void => {
+    const loop = loops.find(l => l.id === id);
+    for (const parentId of loop?.dependsOn ?? []) {
+      if (visited.has(parentId)) continue;
+      visited.add(parentId);
+      visit(parentId);
+      const parent = loops.find(l => l.id === parentId);
+      if (parent) chain.push(parent);
+    }
+  };
+
+  visit(loopId);
+  return chain;
+}
+
+/**
+ * Check whether making loopId depend on parentId would create a cycle.
+ */
+export function wouldCreateCycle(loopId: string, parentId: string, loops: Loop[]): boolean {
+  if (loopId === parentId) return true;
+  return getDependencyChain(parentId, loops).some(l => l.id === loopId);
+}
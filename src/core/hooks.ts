@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Loop } from './types.js';
+import { runShellCommand, ShellCommandResult } from './shell.js';
+import { HOOK_TIMEOUT_MS } from '../config.js';
+
+/**
+ * Repo hooks: shell commands from {repo}/.alex/hooks.yaml run at points in a
+ * loop's life, in the loop's working directory, with ALEX_* environment
+ * variables describing the loop:
+ *
+ *   beforeLoop: bun install
+ *   afterIteration:
+ *     command: bun run lint
+ *     appendOutput: true     # put the output in the next prompt
+ *   onComplete: ./scripts/notify.sh "$ALEX_ISSUE_TITLE"
+ *
+ * A hook is a command string or { command, appendOutput?, timeoutMs? }.
+ */
+
+export const REPO_HOOKS_FILE = path.join('.alex', 'hooks.yaml');
+
+export const HOOK_NAMES = ['beforeLoop', 'beforeIteration', 'afterIteration', 'onComplete', 'onError'] as const;
+export type HookName = typeof HOOK_NAMES[number];
+
+export interface HookConfig {
+  command: string;
+  appendOutput?: boolean;   // afterIteration only: add the output to the next prompt
+  timeoutMs?: number;
+}
+
+export type RepoHooks = Partial<Record<HookName, HookConfig>>;
+
+// Output kept for the log and the next prompt
+const MAX_HOOK_OUTPUT_CHARS = 4000;
+
+/**
+ * Keep only valid hooks (a non-blank command); anything else is dropped.
+ */
+export function sanitizeRepoHooks(raw: unknown): RepoHooks {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const hooks: RepoHooks = {};
+  for (const name of HOOK_NAMES) {
+    const value = (raw as Record<string, unknown>)[name];
+    if (typeof value === 'string' && value.trim()) {
+      hooks[name] = { command: value.trim() };
+      continue;
+    }
+    if (!value || typeof value !== 'object') continue;
+    const entry = value as Record<string, unknown>;
+    if (typeof entry.command !== 'string' || !entry.command.trim()) continue;
+    hooks[name] = {
+      command: entry.command.trim(),
+      appendOutput: entry.appendOutput === true ? true : undefined,
+      timeoutMs: typeof entry.timeoutMs === 'number' && entry.timeoutMs > 0 ? entry.timeoutMs : undefined,
+    };
+  }
+  return hooks;
+}
+
+/**
+ * Load hooks from {repoRoot}/.alex/hooks.yaml (empty if there is none). An
+ * unreadable file gives no hooks and an error for the caller to report.
+ */
+export function loadRepoHooks(repoRoot: string): { hooks: RepoHooks; error?: string } {
+  const hooksPath = path.join(repoRoot, REPO_HOOKS_FILE);
+  if (!fs.existsSync(hooksPath)) {
+    return { hooks: {} };
+  }
+
+  try {
+    return { hooks: sanitizeRepoHooks(parseYaml(fs.readFileSync(hooksPath, 'utf-8'))) };
+  } catch (err) {
+    return { hooks: {}, error: `Failed to load ${hooksPath}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+// Hooks for a loop: the repo it was created against, else its working directory
+export function getLoopHooks(loop: Loop): { hooks: RepoHooks; error?: string } {
+  return loadRepoHooks(loop.repoRoot ?? loop.workingDir);
+}
+
+/**
+ * Environment variables a hook runs with.
+ */
+export function getHookEnv(
+  loop: Loop,
+  hook: HookName,
+  details: { iteration?: number; exitReason?: string; error?: string } = {}
+): Record<string, string> {
+  return {
+    ALEX_HOOK: hook,
+    ALEX_LOOP_ID: loop.id,
+    ALEX_AGENT: loop.agent,
+    ALEX_ITERATION: String(details.iteration ?? loop.iteration ?? 0),
+    ALEX_MAX_ITERATIONS: String(loop.maxIterations ?? ''),
+    ALEX_WORKING_DIR: loop.workingDir,
+    ALEX_WORKTREE: loop.worktreePath ?? '',
+    ALEX_BRANCH: loop.worktreeBranch ?? '',
+    ALEX_REPO_ROOT: loop.repoRoot ?? loop.workingDir,
+    ALEX_ISSUE_URL: loop.issue.url,
+    ALEX_ISSUE_NUMBER: String(loop.issue.number),
+    ALEX_ISSUE_TITLE: loop.issue.title,
+    ALEX_EXIT_REASON: details.exitReason ?? '',
+    ALEX_ERROR: details.error ?? '',
+  };
+}
+
+/**
+ * Run a hook for a loop in its working directory.
+ */
+export function runHook(
+  loop: Loop,
+  hook: HookConfig,
+  env: Record<string, string>
+): Promise<ShellCommandResult> {
+  return runShellCommand(hook.command, loop.workingDir, {
+    timeoutMs: hook.timeoutMs ?? HOOK_TIMEOUT_MS,
+    maxOutputChars: MAX_HOOK_OUTPUT_CHARS,
+    env,
+  });
+}
@@ -0,0 +1,35 @@
+import { describe, test, expect } from 'bun:test';
+import { sanitizeImportRules, findImportRule } from './imports.js';
+import { buildIssueListArgs } from './providers/index.js';
+
+describe('import rules', () => {
+  test('keeps valid rules and fields', () => {
+    expect(sanitizeImportRules([
+      { label: 'ready-for-agent', agent: 'codex', maxIterations: 15 },
+      { label: ' small ', maxIterations: -1 },
+      { agent: 'claude' },
+      'docs',
+    ])).toEqual([
+      { label: 'ready-for-agent', agent: 'codex', maxIterations: 15 },
+      { label: 'small' },
+    ]);
+    expect(sanitizeImportRules({ label: 'x' })).toEqual([]);
+  });
+
+  test('picks the first rule whose label the issue has', () => {
+    const rules = [{ label: 'Frontend', agent: 'gemini' }, { label: 'ready', agent: 'codex' }];
+    expect(findImportRule(['ready', 'frontend'], rules)?.agent).toBe('gemini');
+    expect(findImportRule(['ready'], rules)?.agent).toBe('codex');
+    expect(findImportRule(['bug'], rules)).toBeUndefined();
+  });
+});
+
+describe('buildIssueListArgs', () => {
+  test('passes each filter to gh issue list', () => {
+    expect(buildIssueListArgs({ repo: 'acme/app', labels: ['ready', 'backend'], milestone: 'Sprint 12', assignee: '@me', search: 'parser', limit: 10 })).toEqual([
+      'issue', 'list', '--state', 'open', '--json', 'number,title,body,url,labels,assignees,comments', '--limit', '10',
+      '--repo', 'acme/app', '--label', 'ready', '--label', 'backend',
+      '--milestone', 'Sprint 12', '--assignee', '@me', '--search', 'parser',
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { Issue, Loop, AgentType, RunPolicy } from './types.js';
+import { loadState } from './state.js';
+import { createLoop } from './loops.js';
+import { listIssues, IssueQuery } from './providers/index.js';
+import { getAdapter } from '../adapters/index.js';
+import { IMPORT_RULES } from '../config.js';
+
+/**
+ * Bulk import: one queued loop per GitHub issue matching a query (labels,
+ * milestone, assignee, search). Per-label rules from the `import` section of
+ * ~/.alex/config.yaml choose the agent and iteration cap of each loop.
+ */
+
+export interface ImportRule {
+  label: string;
+  agent?: AgentType;
+  maxIterations?: number;
+}
+
+export interface ImportCandidate {
+  issue: Issue;
+  labels: string[];
+  agent: AgentType;
+  maxIterations: number;
+  rule?: string;        // label of the rule that applied
+  tracked: boolean;     // a loop for this issue already exists
+}
+
+/**
+ * Validate the `import.rules` list of config.yaml. Rules without a label are
+ * dropped, as are invalid agent or iteration fields.
+ */
+export function sanitizeImportRules(raw: unknown): ImportRule[] {
+  if (!Array.isArray(raw)) return [];
+
+  const rules: ImportRule[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { label, agent, maxIterations } = entry as Record<string, unknown>;
+    if (typeof label !== 'string' || !label.trim()) continue;
+
+    const rule: ImportRule = { label: label.trim() };
+    if (typeof agent === 'string' && agent.trim()) {
+      rule.agent = agent.trim();
+    }
+    if (typeof maxIterations === 'number' && Number.isInteger(maxIterations) && maxIterations > 0) {
+      rule.maxIterations = maxIterations;
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
+// First rule (in config order) whose label the issue has
+export function findImportRule(labels: string[], rules: ImportRule[]): ImportRule | undefined {
+  const names = new Set(labels.map(label => label.toLowerCase()));
+  return rules.find(rule => names.has(rule.label.toLowerCase()));
+}
+
+// Whether any loop (hidden ones included) was created from this issue
+export function isIssueTracked(url: string, loops: Loop[]): boolean {
+  return loops.some(loop => loop.issue.url === url);
+}
+
+/**
+ * Fetch the issues matching a query and decide each one's agent and
+ * iteration cap. Rules naming an unknown agent fall back to the default.
+ */
+export async function previewImport(
+  query: IssueQuery,
+  cwd: string,
+  defaults: { agent: AgentType; maxIterations: number },
+  rules: ImportRule[] = sanitizeImportRules(IMPORT_RULES)
+): Promise<ImportCandidate[]> {
+  const issues = await listIssues(query, cwd);
+  const { loops } = loadState();
+
+  return issues.map(({ issue, labels }) => {
+    const rule = findImportRule(labels, rules);
+    const agent = rule?.agent && getAdapter(rule.agent) ? rule.agent : defaults.agent;
+    return {
+      issue,
+      labels,
+      agent,
+      maxIterations: rule?.maxIterations ?? defaults.maxIterations,
+      rule: rule?.label,
+      tracked: isIssueTracked(issue.url, loops),
+    };
+  });
+}
+
+/**
+ * Create a queued loop for each candidate, in order. Issues that already
+ * have a loop are skipped.
+ */
+export async function importIssues(
+  candidates: ImportCandidate[],
+  repoRoot: string,
+  skipPermissions: boolean,
+  options?: { useWorktree?: boolean; policy?: RunPolicy; held?: boolean }
+): Promise<Loop[]> {
+  const created: Loop[] = [];
+  for (const candidate of candidates) {
+    if (isIssueTracked(candidate.issue.url, loadState().loops)) continue;
+    const loop = await createLoop(candidate.issue, candidate.agent, skipPermissions, repoRoot, candidate.maxIterations, options);
+    created.push(loop);
+  }
+  return created;
+}
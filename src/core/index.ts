@@ -2,8 +2,27 @@
 export * from './types.js';
 export * from './state.js';
 export * from './issues.js';
+export * from './providers/index.js';
 export * from './logs.js';
 export * from './loops.js';
 export * from './metrics.js';
 export * from './worktree.js';
 export * from './review.js';
+export * from './scheduler.js';
+export * from './recovery.js';
+export * from './controller.js';
+export * from './daemon.js';
+export * from './policy.js';
+export * from './dependencies.js';
+export * from './race.js';
+export * from './checkpoints.js';
+export * from './usage.js';
+export * from './verify.js';
+export * from './testResults.js';
+export * from './hooks.js';
+export * from './pullRequests.js';
+export * from './reviewThreads.js';
+export * from './imports.js';
+export * from './watcher.js';
+export * from './issueSync.js';
+export * from './progressComments.js';
@@ -0,0 +1,182 @@
+import { Issue, Loop, AcceptanceCriterion } from './types.js';
+import { loadState, updateLoop, mutateState } from './state.js';
+import { appendLog } from './logs.js';
+import { applyCriteriaProgressToIssueBody } from './issues.js';
+import { canRunVerification } from './verify.js';
+import { fetchIssue, updateIssueBody } from './providers/index.js';
+import { ISSUE_SYNC_ENABLED, ISSUE_SYNC_DEBOUNCE_MS } from '../config.js';
+
+/**
+ * Two-way criteria sync with the issue tracker. Criteria progress is pushed
+ * to the issue's checklist (debounced, when `issueSync.enabled` is set), and
+ * refreshing a loop's issue merges the tracker's criteria into the loop's
+ * instead of replacing them.
+ */
+
+// Pending pushes, by loop ID
+const pendingSyncs: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+/**
+ * Merge the criteria fetched from the tracker into a loop's criteria, by
+ * text. Existing criteria keep their place and completion state (ticked on
+ * the tracker counts as completed by the operator); new ones are appended
+ * and missing ones flagged as removed, so criterion numbers never shift.
+ * Verification commands are only taken from the tracker when `trustVerify`
+ * is set (the loop may run them - see canRunVerification).
+ */
+export function mergeIssueCriteria(
+  current: AcceptanceCriterion[],
+  fetched: AcceptanceCriterion[],
+  trustVerify = false
+): { criteria: AcceptanceCriterion[]; added: number; removed: number } {
+  const unmatched = [...fetched];
+  let removed = 0;
+
+  const criteria = current.map((criterion): AcceptanceCriterion => {
+    const index = unmatched.findIndex(c => c.text === criterion.text);
+    if (index < 0) {
+      if (!criterion.removed) removed++;
+      return { ...criterion, removed: true };
+    }
+
+    const [remote] = unmatched.splice(index, 1);
+    const { removed: _removed, ...merged } = criterion;
+    if (trustVerify) merged.verify = remote.verify;
+    merged.fromComment = remote.fromComment;
+    merged.reviewThread = criterion.reviewThread ?? remote.reviewThread;
+    if (remote.completed && !criterion.completed) {
+      merged.completed = true;
+      merged.completedBy = 'operator';
+      merged.completedAt = new Date().toISOString();
+    }
+    return merged;
+  });
+
+  const appended = trustVerify ? unmatched : unmatched.map(({ verify: _verify, ...criterion }) => criterion);
+  return { criteria: [...criteria, ...appended], added: unmatched.length, removed };
+}
+
+/**
+ * A loop's issue with a fresh fetch from the tracker merged in: the tracker's
+ * title, body and context, the loop's criteria merged with the tracker's
+ * (mergeIssueCriteria) and the original criteria kept for the record. The
+ * loop's linked issues are kept if the fetch skipped them.
+ */
+export function mergeFetchedIssue(
+  current: Issue,
+  fetched: Issue,
+  trustVerify = false
+): { issue: Issue; added: number; removed: number } {
+  const { criteria, added, removed } = mergeIssueCriteria(current.acceptanceCriteria, fetched.acceptanceCriteria, trustVerify);
+  const issue: Issue = {
+    ...fetched,
+    acceptanceCriteria: criteria,
+    originalAcceptanceCriteria: current.originalAcceptanceCriteria ?? fetched.originalAcceptanceCriteria,
+    linkedIssues: fetched.linkedIssues ?? current.linkedIssues,
+  };
+  return { issue, added, removed };
+}
+
+// Merge a fetched issue into a loop under the state lock - criteria may have
+// changed while the issue was fetched
+function saveFetchedIssue(loop: Loop, fetched: Issue): { issue: Issue; added: number; removed: number } {
+  let result = { issue: loop.issue, added: 0, removed: 0 };
+  mutateState(state => {
+    const current = state.loops.find(l => l.id === loop.id)?.issue ?? loop.issue;
+    result = mergeFetchedIssue(current, fetched, canRunVerification(loop));
+    return updateLoop(state, loop.id, { issue: result.issue });
+  });
+  return result;
+}
+
+function describeCriteriaChanges(added: number, removed: number): string {
+  const changes = [added > 0 ? `${added} new` : '', removed > 0 ? `${removed} removed` : ''].filter(Boolean);
+  return changes.length > 0 ? `: ${changes.join(', ')} criteria` : '';
+}
+
+/**
+ * Re-fetch a loop's issue and merge it in.
+ */
+export async function refreshIssue(loopId: string): Promise<{ issue: Issue; added: number; removed: number }> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop) {
+    throw new Error(`Loop not found: ${loopId}`);
+  }
+
+  const result = saveFetchedIssue(loop, await fetchIssue(loop.issue.url));
+  appendLog(loopId, { type: 'system', content: `Issue refreshed${describeCriteriaChanges(result.added, result.removed)}` });
+  return result;
+}
+
+/**
+ * Push a loop's criteria progress to its issue's checklist. Pull requests
+ * (criteria are review threads) and task files (written back directly) are
+ * skipped. The issue is fetched first, so edits made on the tracker since
+ * it was last fetched are merged in (see refreshIssue) rather than
+ * overwritten. Returns false if the issue body didn't change.
+ */
+export async function pushIssueCriteria(loopId: string): Promise<boolean> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop || loop.issue.pullRequest || loop.issue.provider === 'file') return false;
+
+  // Only the checklist matters here - skip the linked issue lookups
+  const fetched = await fetchIssue(loop.issue.url, { linkedIssues: false });
+  let issue = loadState().loops.find(l => l.id === loopId)?.issue ?? loop.issue;
+  if (fetched.body !== issue.body) {
+    const merged = saveFetchedIssue(loop, fetched);
+    issue = merged.issue;
+    appendLog(loopId, {
+      type: 'system',
+      content: `Issue edited on the tracker - merged before syncing${describeCriteriaChanges(merged.added, merged.removed)}`,
+    });
+  }
+
+  const criteria = issue.acceptanceCriteria.filter(c => !c.removed);
+  const body = applyCriteriaProgressToIssueBody(fetched.body, criteria);
+  if (body === fetched.body) return false;
+
+  await updateIssueBody(loop.issue.url, body);
+
+  // Remember what the tracker has, so the next push can tell edits made there
+  mutateState(state => {
+    const current = state.loops.find(l => l.id === loopId);
+    return current ? updateLoop(state, loopId, { issue: { ...current.issue, body } }) : state;
+  });
+
+  const done = criteria.filter(c => c.completed).length;
+  appendLog(loopId, { type: 'system', content: `Issue checklist updated (${done}/${criteria.length} complete)` });
+  return true;
+}
+
+function runIssueSync(loopId: string): Promise<void> {
+  pendingSyncs.delete(loopId);
+  return pushIssueCriteria(loopId).then(() => undefined, (err: Error) => {
+    appendLog(loopId, { type: 'error', content: `Failed to sync criteria to issue: ${err.message}` });
+  });
+}
+
+/**
+ * Push a loop's criteria to its issue once they stop changing for
+ * `issueSync.debounceMs`. No-op unless `issueSync.enabled` is set.
+ */
+export function scheduleIssueSync(loopId: string): void {
+  if (!ISSUE_SYNC_ENABLED) return;
+
+  const pending = pendingSyncs.get(loopId);
+  if (pending) clearTimeout(pending);
+  pendingSyncs.set(loopId, setTimeout(() => {
+    runIssueSync(loopId);
+  }, ISSUE_SYNC_DEBOUNCE_MS));
+}
+
+/**
+ * Push a pending sync now (a loop finishing, alex quitting).
+ * Resolves once it's done; no-op if nothing is pending.
+ */
+export async function flushIssueSync(loopId?: string): Promise<void> {
+  const loopIds = loopId ? [loopId] : [...pendingSyncs.keys()];
+  await Promise.all(loopIds.filter(id => pendingSyncs.has(id)).map(id => {
+    clearTimeout(pendingSyncs.get(id));
+    return runIssueSync(id);
+  }));
+}
@@ -0,0 +1,153 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  parseAcceptanceCriteria,
+  parseCriterionText,
+  applyAcceptanceCriteriaToIssueBody,
+  applyCriteriaProgressToIssueBody,
+  addCommentCriteria,
+  formatCriteriaChecklist,
+  formatIssueContext,
+} from './issues.js';
+import { Issue } from './types.js';
+
+function makeIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    url: 'https://github.com/acme/app/issues/7',
+    number: 7,
+    title: 'Add parser',
+    body: '',
+    repo: 'acme/app',
+    acceptanceCriteria: [{ text: 'Parses input', completed: false }],
+    ...overrides,
+  };
+}
+
+describe('parseCriterionText', () => {
+  test('splits off a trailing verify command', () => {
+    expect(parseCriterionText('Parser handles empty input `verify: bun test src/parser.test.ts`')).toEqual({
+      text: 'Parser handles empty input',
+      verify: 'bun test src/parser.test.ts',
+    });
+  });
+
+  test('leaves other inline code alone', () => {
+    expect(parseCriterionText('Add `--dry-run` flag')).toEqual({ text: 'Add `--dry-run` flag' });
+    expect(parseCriterionText('Run `verify: x` before merging')).toEqual({ text: 'Run `verify: x` before merging' });
+  });
+});
+
+describe('parseAcceptanceCriteria', () => {
+  const body = [
+    'Intro',
+    '',
+    '## Acceptance Criteria',
+    '- [ ] Exports the parser `verify: grep -q parse src/index.ts`',
+    '- [x] Docs updated',
+    '',
+    '## Notes',
+    '- not a criterion',
+  ].join('\n');
+
+  test('reads verify commands from checkbox items', () => {
+    expect(parseAcceptanceCriteria(body)).toEqual([
+      { text: 'Exports the parser', verify: 'grep -q parse src/index.ts', completed: false, completedBy: undefined },
+      { text: 'Docs updated', completed: true, completedBy: 'operator' },
+    ]);
+  });
+
+  test('round-trips through the rendered issue body', () => {
+    const criteria = parseAcceptanceCriteria(body);
+    const updated = applyAcceptanceCriteriaToIssueBody(body, criteria);
+    expect(updated).toContain('- [ ] Exports the parser `verify: grep -q parse src/index.ts`');
+    expect(parseAcceptanceCriteria(updated)).toEqual(criteria);
+  });
+});
+
+describe('applyCriteriaProgressToIssueBody', () => {
+  const BODY = '# Refactor auth\n\nNotes\n\n- [ ] Extract session store\n- [x] Drop legacy tokens `verify: bun test`\n';
+
+  test('ticks checkboxes in place', () => {
+    const criteria = [
+      { text: 'Drop legacy tokens', completed: false },
+      { text: 'Extract session store', completed: true },
+    ];
+    expect(applyCriteriaProgressToIssueBody(BODY, criteria)).toBe(
+      '# Refactor auth\n\nNotes\n\n- [x] Extract session store\n- [ ] Drop legacy tokens `verify: bun test`\n'
+    );
+  });
+
+  test('rewrites the criteria section when a criterion has no checkbox', () => {
+    const updated = applyCriteriaProgressToIssueBody('# Task\n\n## Acceptance Criteria\n- Works', [{ text: 'Works', completed: true }]);
+    expect(updated).toBe('# Task\n\n## Acceptance Criteria\n- [x] Works');
+  });
+
+  test('leaves criteria from comments out of the body', () => {
+    const criteria = [
+      { text: 'Extract session store', completed: true },
+      { text: 'Drop legacy tokens', completed: true },
+      { text: 'Log out everywhere', completed: true, fromComment: true },
+    ];
+    expect(applyCriteriaProgressToIssueBody(BODY, criteria)).toBe(
+      '# Refactor auth\n\nNotes\n\n- [x] Extract session store\n- [x] Drop legacy tokens `verify: bun test`\n'
+    );
+  });
+});
+
+describe('formatCriteriaChecklist', () => {
+  test('marks claims waiting for the operator', () => {
+    const checklist = formatCriteriaChecklist([
+      { text: 'Parses input', completed: true },
+      { text: 'Rejects empty input', completed: false, verify: 'bun test', claimed: true },
+    ]);
+    expect(checklist).toBe(
+      '- [x] Parses input\n' +
+      '- [ ] Rejects empty input (verified by running `bun test`) (claimed - waiting for the operator to confirm it)'
+    );
+  });
+});
+
+describe('addCommentCriteria', () => {
+  test('adds new criteria from comments by the listed authors only', () => {
+    const issue = addCommentCriteria(makeIssue({
+      comments: [
+        { author: 'Maintainer', createdAt: '2026-01-02T00:00:00Z', body: 'Also:\n- [ ] Parses input\n- [ ] Rejects empty input' },
+        { author: 'someone', createdAt: '2026-01-03T00:00:00Z', body: '- [ ] Supports YAML' },
+      ],
+    }), ['maintainer']);
+
+    expect(issue.acceptanceCriteria.map(c => c.text)).toEqual(['Parses input', 'Rejects empty input']);
+    expect(issue.acceptanceCriteria.map(c => c.fromComment)).toEqual([undefined, true]);
+    expect(issue.originalAcceptanceCriteria?.map(c => c.text)).toEqual(['Parses input', 'Rejects empty input']);
+  });
+});
+
+describe('formatIssueContext', () => {
+  const comments = [1, 2, 3].map(n => ({ author: `user${n}`, createdAt: `2026-01-0${n}T10:00:00Z`, body: `Comment ${n} `.repeat(10) }));
+
+  test('lists labels, assignees, linked issues and comments', () => {
+    const context = formatIssueContext(makeIssue({
+      labels: ['bug'],
+      assignees: ['ana'],
+      linkedIssues: [{ ref: '#3', title: 'Lexer', state: 'open' }, { ref: 'PROJ-9', relation: 'blocks' }],
+      comments: comments.slice(0, 1),
+    }), 8000);
+
+    expect(context).toContain('## Issue Details\nLabels: bug\nAssignees: ana\nLinked issues:\n- #3 Lexer (open)\n- blocks PROJ-9\n\n');
+    expect(context).toContain('## Discussion\n**@user1** (2026-01-01):\nComment 1');
+  });
+
+  test('drops the oldest comments to stay within the budget', () => {
+    const context = formatIssueContext(makeIssue({ comments }), 350);
+    expect(context.length).toBeLessThanOrEqual(350);
+    expect(context).toContain('(1 earlier comment omitted)');
+    expect(context).not.toContain('@user1');
+    expect(context.indexOf('@user2')).toBeLessThan(context.indexOf('@user3'));
+  });
+
+  test('cuts the newest comment short if it alone is over budget', () => {
+    const context = formatIssueContext(makeIssue({ comments }), 100);
+    expect(context.length).toBeLessThanOrEqual(100);
+    expect(context).toContain('@user3');
+    expect(context).toContain('...');
+  });
+});
@@ -1,92 +1,5 @@
-import { execFileSync, execSync } from 'child_process';
-import { Issue, AcceptanceCriterion } from './types.js';
-
-// Parse a GitHub issue URL
-// Supports: https://github.com/owner/repo/issues/123
-export function parseIssueUrl(url: string): { repo: string; number: number } | null {
-  const match = url.match(/github\.com\/([^/]+\/[^/]+)\/issues\/(\d+)/);
-  if (!match) return null;
-  return {
-    repo: match[1],
-    number: parseInt(match[2], 10),
-  };
-}
-
-// Fetch issue data using gh CLI
-export async function fetchIssue(url: string): Promise<Issue> {
-  const parsed = parseIssueUrl(url);
-  if (!parsed) {
-    throw new Error(`Invalid GitHub issue URL: ${url}`);
-  }
-
-  const { repo, number } = parsed;
-
-  try {
-    // Use gh CLI to fetch issue JSON
-    const result = execSync(
-      `gh issue view ${number} --repo ${repo} --json title,body,number,url`,
-      { encoding: 'utf-8', timeout: 30000 }
-    );
-
-    const data = JSON.parse(result);
-    const acceptanceCriteria = parseAcceptanceCriteria(data.body || '');
-    const originalAcceptanceCriteria = acceptanceCriteria.map(criterion => ({ ...criterion }));
-
-    return {
-      url: data.url || url,
-      number: data.number,
-      title: data.title,
-      body: data.body || '',
-      repo,
-      acceptanceCriteria,
-      originalAcceptanceCriteria,
-    };
-  } catch (err: any) {
-    if (err.message?.includes('gh: command not found')) {
-      throw new Error('GitHub CLI (gh) not found. Install from https://cli.github.com');
-    }
-    throw new Error(`Failed to fetch issue: ${err.message}`);
-  }
-}
-
-export type CloseIssueResult = 'closed' | 'already_closed';
-
-// Close issue using gh CLI with optional comment
-export function closeIssue(url: string, comment?: string): CloseIssueResult {
-  if (!url) {
-    throw new Error('Missing GitHub issue URL');
-  }
-
-  const args = ['issue', 'close', url];
-  const trimmedComment = comment?.trim();
-  if (trimmedComment) {
-    args.push('--comment', trimmedComment);
-  }
-
-  try {
-    execFileSync('gh', args, {
-      encoding: 'utf-8',
-      stdio: ['ignore', 'pipe', 'pipe'],
-      timeout: 30000,
-    });
-    return 'closed';
-  } catch (err: any) {
-    const stderr = err?.stderr?.toString?.() || '';
-    const stdout = err?.stdout?.toString?.() || '';
-    const message = (stderr || stdout || err?.message || '').trim();
-
-    if (err?.code === 'ENOENT' || message.includes('gh: command not found')) {
-      throw new Error('GitHub CLI (gh) not found. Install from https://cli.github.com');
-    }
-
-    if (/already\s+closed/i.test(message) || /already\s+been\s+closed/i.test(message)) {
-      return 'already_closed';
-    }
-
-    const firstLine = message.split('\n')[0] || 'Unknown error';
-    throw new Error(`Failed to close issue: ${firstLine}`);
-  }
-}
+import path from 'path';
+import { Issue, AcceptanceCriterion, IssueComment } from './types.js';
 
 const criteriaSectionHeaders = [
   /^#{1,3}\s*acceptance\s*criteria/i,
@@ -96,12 +9,31 @@ const criteriaSectionHeaders = [
   /^\*\*acceptance\s*criteria\*\*/i,
 ];
 
+// Inline verification command at the end of a criterion: `verify: <command>`
+const VERIFY_SUFFIX = /\s*`verify:\s*([^`]+)`\s*$/i;
+
+/**
+ * Split a criterion line into its text and optional verification command,
+ * e.g. "Parser handles empty input `verify: bun test src/parser.test.ts`".
+ */
+export function parseCriterionText(line: string): { text: string; verify?: string } {
+  const match = line.match(VERIFY_SUFFIX);
+  if (!match) return { text: line.trim() };
+  const verify = match[1].trim();
+  return { text: line.slice(0, match.index).trim(), verify: verify || undefined };
+}
+
+// Inverse of parseCriterionText - used for issue bodies and the criteria editor
+export function formatCriterionText(criterion: Pick<AcceptanceCriterion, 'text' | 'verify'>): string {
+  return criterion.verify ? `${criterion.text} \`verify: ${criterion.verify}\`` : criterion.text;
+}
+
 function renderAcceptanceCriteriaSection(criteria: AcceptanceCriterion[]): string {
   const lines = ['## Acceptance Criteria'];
   if (criteria.length > 0) {
     for (const ac of criteria) {
       const checkbox = ac.completed ? '[x]' : '[ ]';
-      lines.push(`- ${checkbox} ${ac.text}`);
+      lines.push(`- ${checkbox} ${formatCriterionText(ac)}`);
     }
   }
   return lines.join('\n');
@@ -142,34 +74,39 @@ export function applyAcceptanceCriteriaToIssueBody(body: string, criteria: Accep
   return `${trimmed}${spacer}${section.join('\n')}`;
 }
 
-export function updateIssueBody(url: string, body: string): void {
-  if (!url) {
-    throw new Error('Missing GitHub issue URL');
-  }
-
-  try {
-    execFileSync('gh', ['issue', 'edit', url, '--body', body], {
-      encoding: 'utf-8',
-      stdio: ['ignore', 'pipe', 'pipe'],
-      timeout: 30000,
-    });
-  } catch (err: any) {
-    const stderr = err?.stderr?.toString?.() || '';
-    const stdout = err?.stdout?.toString?.() || '';
-    const message = (stderr || stdout || err?.message || '').trim();
-
-    if (err?.code === 'ENOENT' || message.includes('gh: command not found')) {
-      throw new Error('GitHub CLI (gh) not found. Install from https://cli.github.com');
-    }
+const CHECKBOX_LINE = /^(\s*[-*]\s*\[)([ xX])(\]\s*)(.+)$/;
+
+// Tick or clear checkboxes in place, matched to criteria by text; null if
+// some criterion has no checkbox
+function markCriteriaCheckboxes(body: string, criteria: AcceptanceCriterion[]): string | null {
+  const remaining = [...criteria];
+  const lines = body.split('\n').map(line => {
+    const match = line.match(CHECKBOX_LINE);
+    if (!match) return line;
+    const { text } = parseCriterionText(match[4]);
+    const index = remaining.findIndex(criterion => criterion.text === text);
+    if (index < 0) return line;
+    const [criterion] = remaining.splice(index, 1);
+    return `${match[1]}${criterion.completed ? 'x' : ' '}${match[3]}${match[4]}`;
+  });
+  return remaining.length === 0 ? lines.join('\n') : null;
+}
 
-    const firstLine = message.split('\n')[0] || 'Unknown error';
-    throw new Error(`Failed to update issue: ${firstLine}`);
-  }
+/**
+ * Write criteria progress into an issue body or task file. Checkboxes are
+ * ticked in place when every criterion has one, so the rest of the body
+ * keeps its layout; otherwise the criteria section is rewritten. Criteria
+ * from comments are left out - the body never listed them.
+ */
+export function applyCriteriaProgressToIssueBody(body: string, criteria: AcceptanceCriterion[]): string {
+  const listed = criteria.filter(criterion => !criterion.fromComment);
+  return markCriteriaCheckboxes(body, listed) ?? applyAcceptanceCriteriaToIssueBody(body, listed);
 }
 
 // Parse acceptance criteria from issue body
 // Looks for headings like "Acceptance Criteria", "Done When", "Stop Conditions"
 // Falls back to checkbox items
+// A trailing `verify: <command>` becomes the criterion's verification command
 export function parseAcceptanceCriteria(body: string): AcceptanceCriterion[] {
   const criteria: AcceptanceCriterion[] = [];
   const lines = body.split('\n');
@@ -204,7 +141,7 @@ export function parseAcceptanceCriteria(body: string): AcceptanceCriterion[] {
     const checkboxMatch = line.match(/^[\s]*[-*]\s*\[([ xX])\]\s*(.+)/);
     if (checkboxMatch) {
       criteria.push({
-        text: checkboxMatch[2].trim(),
+        ...parseCriterionText(checkboxMatch[2]),
         completed: checkboxMatch[1].toLowerCase() === 'x',
         completedBy: checkboxMatch[1].toLowerCase() === 'x' ? 'operator' : undefined,
       });
@@ -215,7 +152,7 @@ export function parseAcceptanceCriteria(body: string): AcceptanceCriterion[] {
     const bulletMatch = line.match(/^[\s]*[-*]\s+(.+)/);
     if (bulletMatch && inSection) {
       criteria.push({
-        text: bulletMatch[1].trim(),
+        ...parseCriterionText(bulletMatch[1]),
         completed: false,
         completedBy: undefined,
       });
@@ -228,7 +165,7 @@ export function parseAcceptanceCriteria(body: string): AcceptanceCriterion[] {
       const checkboxMatch = line.match(/^[\s]*[-*]\s*\[([ xX])\]\s*(.+)/);
       if (checkboxMatch) {
       criteria.push({
-        text: checkboxMatch[2].trim(),
+        ...parseCriterionText(checkboxMatch[2]),
         completed: checkboxMatch[1].toLowerCase() === 'x',
         completedBy: checkboxMatch[1].toLowerCase() === 'x' ? 'operator' : undefined,
       });
@@ -239,27 +176,135 @@ export function parseAcceptanceCriteria(body: string): AcceptanceCriterion[] {
   return criteria;
 }
 
-// Build prompt for agent from issue
-export function buildPromptFromIssue(issue: Issue): string {
+/**
+ * Add the criteria listed in comments by the given authors (maintainers,
+ * case-insensitive) to the issue's, skipping ones it already has.
+ */
+export function addCommentCriteria(issue: Issue, authors: string[]): Issue {
+  const wanted = new Set(authors.map(author => author.toLowerCase()));
+  const known = new Set(issue.acceptanceCriteria.map(c => c.text));
+  const added: AcceptanceCriterion[] = [];
+
+  for (const comment of issue.comments ?? []) {
+    if (!wanted.has(comment.author.toLowerCase())) continue;
+    for (const criterion of parseAcceptanceCriteria(comment.body)) {
+      if (known.has(criterion.text)) continue;
+      known.add(criterion.text);
+      added.push({ ...criterion, fromComment: true });
+    }
+  }
+
+  if (added.length === 0) return issue;
+  return {
+    ...issue,
+    acceptanceCriteria: [...issue.acceptanceCriteria, ...added],
+    originalAcceptanceCriteria: [...(issue.originalAcceptanceCriteria ?? issue.acceptanceCriteria), ...added].map(c => ({ ...c })),
+  };
+}
+
+// Room kept for the "(N earlier comments omitted)" note
+const OMITTED_NOTE_CHARS = 40;
+
+function formatComment(comment: IssueComment): string {
+  return `**@${comment.author}** (${comment.createdAt.slice(0, 10)}):\n${comment.body.trim()}`;
+}
+
+/**
+ * Labels, assignees, linked issues and the discussion, within `maxChars`.
+ * The discussion gets what the rest leaves; the oldest comments are dropped
+ * first, and a newest comment that alone is too long is cut short.
+ */
+export function formatIssueContext(issue: Issue, maxChars: number): string {
+  const details: string[] = [];
+  if (issue.labels?.length) details.push(`Labels: ${issue.labels.join(', ')}`);
+  if (issue.assignees?.length) details.push(`Assignees: ${issue.assignees.join(', ')}`);
+  if (issue.linkedIssues?.length) {
+    const links = issue.linkedIssues.map(link => {
+      const title = link.title ? ` ${link.title}` : '';
+      const state = link.state ? ` (${link.state})` : '';
+      return `- ${link.relation ? `${link.relation} ` : ''}${link.ref}${title}${state}`;
+    });
+    details.push(`Linked issues:\n${links.join('\n')}`);
+  }
+
+  let context = details.length > 0 ? `## Issue Details\n${details.join('\n')}\n\n` : '';
+  if (context.length > maxChars) {
+    context = `${context.slice(0, Math.max(0, maxChars - 5))}...\n\n`;
+  }
+
+  const comments = issue.comments ?? [];
+  let budget = maxChars - context.length - '## Discussion\n'.length - OMITTED_NOTE_CHARS;
+  const kept: string[] = [];
+  for (let i = comments.length - 1; i >= 0 && budget > 0; i--) {
+    let text = formatComment(comments[i]);
+    if (text.length + 2 > budget) {
+      if (kept.length > 0) break;
+      text = `${text.slice(0, Math.max(0, budget - 6))}...`;
+    }
+    kept.unshift(text);
+    budget -= text.length + 2;
+  }
+
+  if (kept.length > 0) {
+    const omitted = comments.length - kept.length;
+    const note = omitted > 0 ? `(${omitted} earlier comment${omitted === 1 ? '' : 's'} omitted)\n\n` : '';
+    context += `## Discussion\n${note}${kept.join('\n\n')}\n\n`;
+  }
+  return context;
+}
+
+// Short reference to an issue for lists and messages: #12, or a task file's name
+export function formatIssueRef(issue: Issue): string {
+  return issue.provider === 'file' ? path.basename(issue.url) : `#${issue.number}`;
+}
+
+/**
+ * Criteria as a prompt checklist. Removed criteria keep their place so the
+ * agent's criterion numbers stay the same.
+ */
+export function formatCriteriaChecklist(criteria: AcceptanceCriterion[]): string {
+  return criteria
+    .map(ac => {
+      if (ac.removed) return `- [-] ~~${ac.text}~~ (removed from the issue - skip it)`;
+      const checkbox = ac.completed ? '[x]' : '[ ]';
+      const verify = ac.verify ? ` (verified by running \`${ac.verify}\`)` : '';
+      const claimed = ac.claimed && !ac.completed ? ' (claimed - waiting for the operator to confirm it)' : '';
+      return `- ${checkbox} ${ac.text}${verify}${claimed}`;
+    })
+    .join('\n');
+}
+
+// Tracker names for prompts (Issue.provider, unset for issues saved before providers)
+const TRACKER_LABELS: Record<string, string> = { github: 'GitHub', gitlab: 'GitLab', jira: 'Jira' };
+
+// Build prompt for agent from issue; `contextChars` caps the issue's
+// labels, links and discussion
+export function buildPromptFromIssue(issue: Issue, contextChars: number = 8000): string {
   let prompt = `# Task: ${issue.title}\n\n`;
-  prompt += `GitHub Issue: ${issue.url}\n\n`;
+  if (issue.pullRequest) {
+    prompt += `GitHub Pull Request: ${issue.url} (branch ${issue.pullRequest.headRefName} into ${issue.pullRequest.baseRefName})\n\n`;
+    prompt += `The working tree is the pull request's branch. Each acceptance criterion is an unresolved review thread - address the reviewer's comments (see the threads below).\n\n`;
+  } else if (issue.provider === 'file') {
+    prompt += `Task file: ${issue.url}\n\n`;
+  } else {
+    prompt += `${TRACKER_LABELS[issue.provider ?? 'github'] ?? issue.provider} Issue: ${issue.url}\n\n`;
+  }
 
   if (issue.acceptanceCriteria.length > 0) {
-    prompt += `## Acceptance Criteria\n`;
-    for (const ac of issue.acceptanceCriteria) {
-      const checkbox = ac.completed ? '[x]' : '[ ]';
-      prompt += `- ${checkbox} ${ac.text}\n`;
-    }
-    prompt += '\n';
+    prompt += `## Acceptance Criteria\n${formatCriteriaChecklist(issue.acceptanceCriteria)}\n\n`;
   }
 
   prompt += `## Issue Description\n${issue.body}\n\n`;
+  prompt += formatIssueContext(issue, contextChars);
   prompt += `## Instructions\n`;
   prompt += `Complete all acceptance criteria above.\n`;
   prompt += `Mark criteria as you finish them with:\n`;
   prompt += `- <criterion-complete>N</criterion-complete>\n`;
   prompt += `- <criterion-incomplete>N</criterion-incomplete> (if you need to regress)\n`;
   prompt += `Criteria are 1-indexed based on the list above.\n`;
+  if (issue.acceptanceCriteria.some(ac => ac.verify)) {
+    prompt += `Criteria with a verification command are only marked complete once that command passes - run it yourself before claiming them.\n`;
+  }
   prompt += `When all criteria are complete, output the exact tag: <promise>TASK COMPLETE</promise>\n`;
 
   return prompt;
@@ -176,6 +176,19 @@ export function formatLogEntry(entry: LogEntry): string {
     error: '#ff006e',
   };
   const color = typeColors[entry.type] || '#666';
+
+  // Parsed agent output: color tool activity apart from the agent's text
+  if (entry.record && entry.record.kind !== 'text') {
+    const recordColors: Record<string, string> = {
+      tool_use: '#9b5de5',
+      tool_result: entry.record.kind === 'tool_result' && entry.record.isError ? '#ff006e' : '#666',
+      file_edit: '#00f5d4',
+      result: '#ffbe0b',
+      session: '#666',
+    };
+    return `{${color}-fg}[${entry.type}]{/} {${recordColors[entry.record.kind]}-fg}${entry.content}{/}`;
+  }
+
   return `{${color}-fg}[${entry.type}]{/} ${entry.content}`;
 }
 
@@ -207,23 +220,26 @@ export function generateResumeSummary(loopId: string, maxChars: number = 2000):
     .filter(l => l.content.includes('Criterion') && l.content.includes('complete'))
     .map(l => l.content);
 
-  // Extract file modifications from agent output
+  // Extract file modifications and tool usage - from parsed records when
+  // the adapter has an output parser, otherwise guessed from the text
   const filePatterns = /(?:created|modified|edited|wrote|updated|deleted)\s+(?:file\s+)?[`"]?([^\s`"]+\.[a-z]{1,5})[`"]?/gi;
-  const filesModified = new Set<string>();
-  for (const log of agentLogs) {
-    let match;
-    while ((match = filePatterns.exec(log.content)) !== null) {
-      filesModified.add(match[1]);
-    }
-  }
-
-  // Extract tool usage from agent output
   const toolPatterns = /(?:Using|Called|Invoked)\s+(?:tool\s+)?(\w+)/gi;
+  const filesModified = new Set<string>();
   const toolsUsed = new Set<string>();
   for (const log of agentLogs) {
-    let match;
-    while ((match = toolPatterns.exec(log.content)) !== null) {
-      toolsUsed.add(match[1]);
+    if (log.record?.kind === 'file_edit') {
+      filesModified.add(log.record.path);
+      toolsUsed.add(log.record.tool);
+    } else if (log.record?.kind === 'tool_use') {
+      toolsUsed.add(log.record.name);
+    } else if (!log.record) {
+      let match;
+      while ((match = filePatterns.exec(log.content)) !== null) {
+        filesModified.add(match[1]);
+      }
+      while ((match = toolPatterns.exec(log.content)) !== null) {
+        toolsUsed.add(match[1]);
+      }
     }
   }
 
@@ -240,6 +256,10 @@ export function generateResumeSummary(loopId: string, maxChars: number = 2000):
     parts.push(`Files touched: ${Array.from(filesModified).slice(0, 10).join(', ')}`);
   }
 
+  if (toolsUsed.size > 0) {
+    parts.push(`Tools used: ${Array.from(toolsUsed).slice(0, 10).join(', ')}`);
+  }
+
   if (criteriaCompletions.length > 0) {
     parts.push(`Criteria progress: ${criteriaCompletions.length} updates`);
   }
@@ -248,8 +268,13 @@ export function generateResumeSummary(loopId: string, maxChars: number = 2000):
     parts.push(`Last analysis: ${lastAnalysis.replace('Analysis: ', '')}`);
   }
 
-  // Add recent agent activity (last meaningful chunks)
-  const recentAgent = agentLogs.slice(-5).map(l => l.content.slice(0, 200)).join('\n');
+  // Add recent agent activity (last meaningful chunks - the agent's own text
+  // rather than tool chatter when output was parsed)
+  const recentAgent = agentLogs
+    .filter(l => !l.record || l.record.kind === 'text')
+    .slice(-5)
+    .map(l => l.content.slice(0, 200))
+    .join('\n');
   if (recentAgent.length > 0) {
     parts.push(`Recent activity:\n${recentAgent.slice(0, 800)}`);
   }
@@ -2,7 +2,7 @@ import { spawn, type Subprocess } from 'bun';
 import { execFileSync } from 'child_process';
 import { EventEmitter } from 'events';
 import { createHash } from 'crypto';
-import { readFileSync } from 'fs';
+import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import {
   Loop,
@@ -13,32 +13,73 @@ import {
   LoopIterationState,
   ExitReason,
   AcceptanceCriterion,
+  RunPolicy,
+  AgentHandoff,
+  OutputRecord,
+  IterationUsage,
+  LoopUsage,
+  TestRun,
 } from './types.js';
-import { getAdapter, getAvailableAdapters, SpawnArgs } from '../adapters/index.js';
-import { appendLog, generateResumeSummary } from './logs.js';
-import { buildPromptFromIssue } from './issues.js';
+import {
+  getAdapter,
+  getAvailableAdapters,
+  AgentAdapter,
+  SpawnArgs,
+  OutputParser,
+  renderOutputRecord,
+  getOutputRecordsText,
+} from '../adapters/index.js';
+import { appendLog, readLogs, generateResumeSummary } from './logs.js';
+import { buildPromptFromIssue, formatCriteriaChecklist } from './issues.js';
 import {
   createWorktree,
+  removeWorktree,
   getHeadCommit,
   isWorktreeAvailable,
 } from './worktree.js';
-import { generateReviewContext } from './review.js';
+import { generateReviewContext, parseReviewStatus } from './review.js';
+import {
+  areDependenciesMet,
+  describeUnmetDependencies,
+  getDependencyBaseLoop,
+  wouldCreateCycle,
+} from './dependencies.js';
 import {
   COMPLETION_PROMISE,
   MAX_ITERATIONS_DEFAULT,
-  CB_CONSECUTIVE_TEST_THRESHOLD,
-  ITERATION_TIMEOUT_MS,
   AUTO_COMPLETE_ON_CRITERIA,
+  FALLBACK_AGENTS,
+  AUTO_CREATE_PULL_REQUESTS,
+  REVIEW_THREAD_ACTION,
+  ISSUE_CONTEXT_MAX_CHARS,
 } from '../config.js';
+import { resolveRunPolicy, formatRunPolicy, loadRepoPolicy, sanitizeRunPolicy } from './policy.js';
 import {
   loadState,
-  saveState,
   updateLoop,
   addLoop,
   generateLoopId,
   ensureLoopDir,
+  mutateState,
+  saveLoopUpdates,
 } from './state.js';
-import { analyzeResponse, shouldExit, GitBaselineInfo } from './analyzer.js';
+import { analyzeResponse, applyTestRun, shouldExit, GitBaselineInfo } from './analyzer.js';
+import { createCheckpoint, restoreCheckpoint } from './checkpoints.js';
+import { priceUsage, addLoopUsage, checkBudget, formatUsage } from './usage.js';
+import { runVerification, formatVerificationFailure, canRunVerification } from './verify.js';
+import { runTestCommand, formatTestRun } from './testResults.js';
+import { getLoopHooks, getHookEnv, runHook, HookName, HookConfig } from './hooks.js';
+import { ShellCommandResult } from './shell.js';
+import { createPullRequest, updatePullRequestBody, publishReviewThreadReplies, commitWorktreeChanges } from './pullRequests.js';
+import { fetchPullRequestHead } from './reviewThreads.js';
+import { syncTaskProgress } from './providers/index.js';
+import { scheduleIssueSync, flushIssueSync } from './issueSync.js';
+import {
+  saveRecoveryState,
+  loadRecoveryState,
+  clearRecoveryState,
+  isProcessAlive,
+} from './recovery.js';
 import {
   createCircuitBreaker,
   recordIteration,
@@ -61,12 +102,53 @@ const processes: Map<string, Subprocess> = new Map();
 const iterationStates: Map<string, LoopIterationState> = new Map();
 const criterionBuffers: Map<string, string> = new Map();
 
+// Criteria the agent claimed complete that have a verification command -
+// checked once the iteration's agent process has exited
+const pendingVerifications: Map<string, Set<number>> = new Map();
+
 // Pending interventions - will be injected into next iteration prompt
 const pendingInterventions: Map<string, string> = new Map();
 
+// Soft-paused loops parked at an iteration boundary - resolver wakes the iteration loop
+const parkedLoops: Map<string, () => void> = new Map();
+
+// Loops suspended for shutdown - their iteration loop exits without finalizing
+const suspendedLoops: Set<string> = new Set();
+
+// Last hooks file error logged for each loop
+const reportedHookErrors: Map<string, string> = new Map();
+
+// Iteration timeout timers - suspended while the agent is hard-paused (SIGSTOP)
+interface IterationTimer {
+  remainingMs: number;
+  startedAt: number;
+  timeoutId: ReturnType<typeof setTimeout> | null;
+  fire: () => void;
+}
+const iterationTimers: Map<string, IterationTimer> = new Map();
+
+function suspendIterationTimer(loopId: string): void {
+  const timer = iterationTimers.get(loopId);
+  if (!timer || !timer.timeoutId) return;
+  clearTimeout(timer.timeoutId);
+  timer.timeoutId = null;
+  timer.remainingMs -= Date.now() - timer.startedAt;
+}
+
+function resumeIterationTimer(loopId: string): void {
+  const timer = iterationTimers.get(loopId);
+  if (!timer || timer.timeoutId) return;
+  timer.startedAt = Date.now();
+  timer.timeoutId = setTimeout(timer.fire, Math.max(0, timer.remainingMs));
+}
+
 // Event emitter for loop events
 export const loopEvents = new EventEmitter();
 
+// 'error' is a regular loop event here - keep EventEmitter from throwing
+// when nothing subscribes to it (e.g. headless runs)
+loopEvents.on('error', () => {});
+
 // Emit a typed event
 function emit(event: LoopEvent): void {
   loopEvents.emit('event', event);
@@ -102,47 +184,322 @@ function parseCriterionTags(chunk: string, buffer: string): { updates: Criterion
   return { updates, rest };
 }
 
-function applyCriterionUpdates(loopId: string, updates: CriterionUpdate[], completedBy: 'agent' | 'operator'): void {
+function applyCriterionUpdates(
+  loopId: string,
+  updates: CriterionUpdate[],
+  completedBy: 'agent' | 'operator',
+  verified = false
+): void {
   if (updates.length === 0) return;
 
-  let state = loadState();
-  const loop = state.loops.find(l => l.id === loopId);
-  if (!loop) return;
-
-  let changed = false;
-  const criteria = loop.issue.acceptanceCriteria;
-
-  for (const update of updates) {
-    if (update.index < 0 || update.index >= criteria.length) continue;
-    const criterion = criteria[update.index];
-    const nextCompleted = update.completed;
-    const nextBy = nextCompleted ? completedBy : undefined;
-    if (criterion.completed !== nextCompleted || criterion.completedBy !== nextBy) {
-      criterion.completed = nextCompleted;
-      criterion.completedBy = nextBy;
-      criterion.completedAt = nextCompleted ? new Date().toISOString() : undefined;
+  // Held under the state lock so concurrent criterion edits aren't lost
+  let updatedIssue: Issue | undefined;
+  mutateState(state => {
+    const loop = state.loops.find(l => l.id === loopId);
+    if (!loop) return state;
+
+    let changed = false;
+    const criteria = loop.issue.acceptanceCriteria;
+    const verifiable = canRunVerification(loop);
+
+    for (const update of updates) {
+      if (update.index < 0 || update.index >= criteria.length) continue;
+      const criterion = criteria[update.index];
+
+      // The agent's word isn't enough for criteria with a verification command
+      if (completedBy === 'agent' && criterion.verify && !verified && !verifiable && update.completed) {
+        // The command may not run here - leave the criterion for the operator
+        if (!criterion.completed && !criterion.claimed) {
+          criterion.claimed = true;
+          appendLog(loopId, {
+            type: 'system',
+            content: `Criterion ${update.index + 1} claimed by agent - left unverified for the operator to confirm (verify command not run - loop does not skip permissions; see loops.verifyCommands)`,
+          });
+          changed = true;
+        }
+        continue;
+      }
+      if (completedBy === 'agent' && criterion.verify && !verified) {
+        const pending = pendingVerifications.get(loopId) ?? new Set<number>();
+        if (update.completed && !criterion.completed) {
+          if (!pending.has(update.index)) {
+            pending.add(update.index);
+            pendingVerifications.set(loopId, pending);
+            appendLog(loopId, {
+              type: 'system',
+              content: `Criterion ${update.index + 1} claimed by agent - will verify with: ${criterion.verify}`,
+            });
+          }
+          continue;
+        }
+        if (!update.completed) {
+          pending.delete(update.index);
+        }
+      }
+
+      const nextCompleted = update.completed;
+      const nextBy = nextCompleted ? completedBy : undefined;
+      if (criterion.completed !== nextCompleted || criterion.completedBy !== nextBy || criterion.claimed) {
+        criterion.completed = nextCompleted;
+        criterion.completedBy = nextBy;
+        criterion.completedAt = nextCompleted ? new Date().toISOString() : undefined;
+        criterion.claimed = undefined;
+        appendLog(loopId, {
+          type: 'system',
+          content: `Criterion ${update.index + 1} marked ${nextCompleted ? 'complete' : 'incomplete'} by ${completedBy}`,
+        });
+        changed = true;
+      }
+    }
+
+    if (!changed) return state;
+    updatedIssue = loop.issue;
+    return updateLoop(state, loopId, { issue: loop.issue });
+  });
+
+  if (updatedIssue) {
+    writeBackTaskProgress(loopId, updatedIssue);
+    scheduleIssueSync(loopId);
+    emit({ type: 'criteria', loopId });
+  }
+}
+
+/**
+ * Mark a criterion complete or incomplete on the operator's behalf.
+ */
+export function setCriterionCompleted(loopId: string, index: number, completed: boolean): void {
+  applyCriterionUpdates(loopId, [{ index, completed }], 'operator');
+}
+
+// Tick a task file's checkboxes as its criteria change
+function writeBackTaskProgress(loopId: string, issue: Issue): void {
+  try {
+    syncTaskProgress(issue);
+  } catch (err) {
+    appendLog(loopId, { type: 'error', content: `Failed to update task file: ${err instanceof Error ? err.message : String(err)}` });
+  }
+}
+
+/**
+ * Run the verification commands of criteria the agent claimed this iteration.
+ * Passing criteria are marked complete; returns the failures as a prompt
+ * section for the next iteration, or null if none failed.
+ */
+async function verifyClaimedCriteria(loopId: string, workingDir: string): Promise<string | null> {
+  const pending = pendingVerifications.get(loopId);
+  pendingVerifications.delete(loopId);
+  if (!pending || pending.size === 0) return null;
+
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop || loop.status === 'stopped' || !canRunVerification(loop)) return null;
+
+  const passed: CriterionUpdate[] = [];
+  const failures: string[] = [];
+  for (const index of [...pending].sort((a, b) => a - b)) {
+    const command = loop.issue.acceptanceCriteria[index]?.verify;
+    if (!command) continue;
+
+    const result = await runVerification(command, workingDir);
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    if (result.ok) {
+      appendLog(loopId, { type: 'system', content: `Verification passed for criterion ${index + 1} (${seconds}s)` });
+      passed.push({ index, completed: true });
+    } else {
+      const status = result.exitCode === null ? 'timed out' : `exit ${result.exitCode}`;
       appendLog(loopId, {
-        type: 'system',
-        content: `Criterion ${update.index + 1} marked ${nextCompleted ? 'complete' : 'incomplete'} by ${completedBy}`,
+        type: 'error',
+        content: `Verification failed for criterion ${index + 1} (${status}, ${seconds}s): ${result.output.split('\n').pop() || command}`,
       });
-      changed = true;
+      failures.push(formatVerificationFailure(index, command, result));
     }
   }
 
-  if (changed) {
-    state = updateLoop(state, loopId, { issue: loop.issue });
-    saveState(state);
-    emit({ type: 'criteria', loopId });
-  }
+  // Verified - recorded like any other update, with the verify gate bypassed
+  applyCriterionUpdates(loopId, passed, 'agent', true);
+  return failures.length > 0 ? failures.join('\n\n') : null;
+}
+
+// Which criteria a loop has, ignoring progress
+function describeCriteria(criteria: AcceptanceCriterion[]): string {
+  return criteria.map(c => `${c.removed ? '-' : '+'}${c.text}`).join('\n');
 }
 
 function getIncompleteCriteria(criteria: AcceptanceCriterion[]): string[] {
   return criteria
     .map((criterion, idx) => ({ criterion, idx }))
-    .filter(item => !item.criterion.completed)
+    .filter(item => !item.criterion.completed && !item.criterion.removed)
     .map(item => `${item.idx + 1}. ${item.criterion.text}`);
 }
 
+// Store the latest test run on the loop and log it against the previous one
+function recordTestRun(loopId: string, run: TestRun, previous: TestRun | undefined): void {
+  saveLoopUpdates(loopId, { lastTestRun: run });
+  const was = previous ? ` (was ${formatTestRun(previous)})` : '';
+  appendLog(loopId, {
+    type: run.ok ? 'system' : 'error',
+    content: `Tests ${run.ok ? 'green' : 'red'}: ${formatTestRun(run)}${was} in ${(run.durationMs / 1000).toFixed(1)}s`,
+  });
+}
+
+/**
+ * Run a repo hook for a loop if .alex/hooks.yaml defines it, logging the
+ * result. Returns null when there is no such hook.
+ */
+async function runLoopHook(
+  loopId: string,
+  name: HookName,
+  details: { iteration?: number; exitReason?: string; error?: string } = {}
+): Promise<{ hook: HookConfig; result: ShellCommandResult } | null> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop) return null;
+  const { hooks, error } = getLoopHooks(loop);
+  // Logged once while it stays the same - hooks run every iteration
+  if (error && reportedHookErrors.get(loopId) !== error) {
+    reportedHookErrors.set(loopId, error);
+    appendLog(loopId, { type: 'error', content: `${error} - hooks skipped` });
+  } else if (!error) {
+    reportedHookErrors.delete(loopId);
+  }
+  const hook = hooks[name];
+  if (!hook) return null;
+
+  const result = await runHook(loop, hook, getHookEnv(loop, name, details));
+  const seconds = (result.durationMs / 1000).toFixed(1);
+  if (result.ok) {
+    appendLog(loopId, { type: 'system', content: `Hook ${name} passed (${seconds}s): ${hook.command}` });
+  } else {
+    const status = result.exitCode === null ? 'timed out' : `exit ${result.exitCode}`;
+    const lastLine = result.output.split('\n').pop();
+    appendLog(loopId, {
+      type: 'error',
+      content: `Hook ${name} failed (${status}, ${seconds}s): ${hook.command}${lastLine ? ` - ${lastLine}` : ''}`,
+    });
+  }
+  return { hook, result };
+}
+
+function buildTestFailurePrompt(command: string, run: TestRun): string {
+  return `The test suite is failing (\`${command}\`: ${formatTestRun(run)}):\n${run.failures}\n\n` +
+    `Fix the failures before moving on. The task is only complete once the suite passes.`;
+}
+
+/**
+ * Persist iteration progress: the iteration count in state.json and a
+ * recovery checkpoint of the full iteration state in the loop directory.
+ */
+function saveIterationProgress(loopId: string, iterState: LoopIterationState): void {
+  saveLoopUpdates(loopId, { iteration: iterState.iteration });
+  saveRecoveryState(loopId, iterState, pendingInterventions.get(loopId));
+}
+
+/**
+ * Attribute an iteration to the agent that ran it (metrics across handoffs).
+ */
+function recordAgentIteration(loopId: string, agent: AgentType): void {
+  mutateState(state => {
+    const loop = state.loops.find(l => l.id === loopId);
+    if (!loop) return state;
+    const agentIterations = { ...loop.agentIterations, [agent]: (loop.agentIterations?.[agent] ?? 0) + 1 };
+    return updateLoop(state, loopId, { agentIterations });
+  });
+}
+
+// Price a run's usage and add it to the loop's totals
+function recordLoopUsage(loopId: string, agent: AgentType, usage: IterationUsage): void {
+  const costUsd = priceUsage(usage, agent);
+  let loopUsage: LoopUsage | undefined;
+  mutateState(state => {
+    const loop = state.loops.find(l => l.id === loopId);
+    if (!loop) return state;
+    loopUsage = addLoopUsage(loop.usage, agent, usage, costUsd);
+    return updateLoop(state, loopId, { usage: loopUsage });
+  });
+  if (!loopUsage) return;
+  const models = usage.byModel ? usage.byModel.map(m => m.model).join(', ') : usage.model;
+  appendLog(loopId, {
+    type: 'system',
+    content: `Usage: ${formatUsage(usage, costUsd)}${models ? ` (${models})` : ''} - loop total ${formatUsage(loopUsage)}`,
+  });
+}
+
+/**
+ * Build the prompt that picks up a loop's work in a fresh agent session
+ * (cross-session resume, fallback handoff).
+ */
+function buildResumePromptFor(adapter: AgentAdapter, loopId: string, criteria: AcceptanceCriterion[]): string {
+  const workSummary = generateResumeSummary(loopId);
+  const remainingCriteria = criteria
+    .filter(c => !c.completed && !c.removed)
+    .map(c => c.text);
+
+  return adapter.buildResumePrompt
+    ? adapter.buildResumePrompt(workSummary, remainingCriteria)
+    : `Resuming from pause. Previous work summary:\n${workSummary}\n\nRemaining criteria: ${remainingCriteria.join(', ') || 'none'}`;
+}
+
+/**
+ * Pick the next fallback agent for a loop: the first one in its fallback list
+ * that hasn't run the loop yet and whose CLI is available.
+ */
+function getNextFallbackAgent(loop: Loop): AgentType | null {
+  const tried = new Set<AgentType>([loop.agent, ...(loop.handoffs ?? []).map(h => h.from)]);
+  for (const agent of loop.fallbackAgents ?? []) {
+    if (tried.has(agent)) continue;
+    const adapter = getAdapter(agent);
+    if (adapter?.isAvailable()) {
+      return agent;
+    }
+    appendLog(loop.id, { type: 'system', content: `Fallback agent unavailable, skipping: ${agent}` });
+  }
+  return null;
+}
+
+/**
+ * Hand a loop over to its next fallback agent in the same working directory.
+ * The new agent starts a fresh session (with a summary of the work so far)
+ * and a fresh circuit breaker; the iteration budget is shared.
+ * Returns null if there is no fallback left.
+ */
+function handOffToFallback(
+  loopId: string,
+  iterState: LoopIterationState,
+  reason: string
+): { adapter: AgentAdapter; prompt: string } | null {
+  let state = loadState();
+  const loop = state.loops.find(l => l.id === loopId);
+  if (!loop) return null;
+
+  const next = getNextFallbackAgent(loop);
+  const adapter = next ? getAdapter(next) : undefined;
+  if (!next || !adapter) return null;
+
+  const handoff: AgentHandoff = {
+    from: loop.agent,
+    to: next,
+    reason,
+    iteration: iterState.iteration,
+    at: new Date().toISOString(),
+  };
+
+  // Summarize before the handoff so the summary covers the previous agent's work
+  const prompt = buildResumePromptFor(adapter, loopId, loop.issue.acceptanceCriteria);
+
+  iterState.sessionId = undefined;
+  iterState.circuitBreaker = createCircuitBreaker();
+  iterState.consecutiveFailedExits = 0;
+
+  state = saveLoopUpdates(loopId, {
+    agent: next,
+    handoffs: [...(loop.handoffs ?? []), handoff],
+  });
+  saveIterationProgress(loopId, iterState);
+
+  appendLog(loopId, { type: 'system', content: `--- HANDOFF: ${handoff.from} → ${next} (${reason}) ---` });
+  emit({ type: 'handoff', loopId, from: handoff.from, to: next, reason });
+
+  return { adapter, prompt };
+}
+
 // Create a new loop from an issue
 export async function createLoop(
   issue: Issue,
@@ -154,6 +511,12 @@ export async function createLoop(
     parentLoopId?: string;
     isReviewLoop?: boolean;
     useWorktree?: boolean;
+    policy?: RunPolicy;     // explicit overrides (modal/CLI), applied over repo defaults
+    dependsOn?: string[];   // parent loops that must complete first
+    requireApprovedReview?: boolean;
+    fallbackAgents?: AgentType[]; // defaults to loops.fallbackAgents in config.yaml
+    raceId?: string;
+    held?: boolean;         // never auto-started by the scheduler
   }
 ): Promise<Loop> {
   const id = generateLoopId();
@@ -161,12 +524,17 @@ export async function createLoop(
 
   let worktreePath: string | undefined;
   let worktreeBranch: string | undefined;
+  const dependsOn = options?.dependsOn?.length ? options.dependsOn : undefined;
 
-  // Create worktree if available and requested (default: true for non-review loops)
+  // Create worktree if available and requested (default: true for non-review loops).
+  // Dependent loops get theirs at start, from the parent's branch.
   const shouldUseWorktree = options?.useWorktree ?? !options?.isReviewLoop;
-  if (shouldUseWorktree && isWorktreeAvailable()) {
+  const pendingWorktree = shouldUseWorktree && dependsOn ? true : undefined;
+  if (shouldUseWorktree && !dependsOn && isWorktreeAvailable()) {
     try {
-      const wt = await createWorktree(id);
+      // A pull request's loop works on top of its head branch
+      const baseBranch = issue.pullRequest ? await fetchPullRequestHead(workingDir, issue.number) : undefined;
+      const wt = await createWorktree(id, baseBranch, workingDir);
       worktreePath = wt.worktreePath;
       worktreeBranch = wt.worktreeBranch;
     } catch (err) {
@@ -178,6 +546,13 @@ export async function createLoop(
     }
   }
 
+  // Per-repo policy defaults are captured at creation, explicit overrides win
+  const repoPolicy = loadRepoPolicy(workingDir);
+  const policyOverrides = { ...repoPolicy.policy, ...sanitizeRunPolicy(options?.policy) };
+  const storedPolicy = Object.keys(policyOverrides).length > 0 ? policyOverrides : undefined;
+
+  const fallbackAgents = [...new Set(options?.fallbackAgents ?? FALLBACK_AGENTS)].filter(a => a !== agent);
+
   const loop: Loop = {
     id,
     issue,
@@ -185,31 +560,164 @@ export async function createLoop(
     status: 'queued',
     skipPermissions,
     hidden: false,
+    held: options?.held || undefined,
+    createdAt: new Date().toISOString(),
     workingDir: worktreePath || workingDir,
+    repoRoot: workingDir,
     worktreePath,
     worktreeBranch,
+    pendingWorktree,
     iteration: 0,
     maxIterations,
+    policy: storedPolicy,
+    fallbackAgents: fallbackAgents.length > 0 ? fallbackAgents : undefined,
+    raceId: options?.raceId,
+    pullRequestUrl: issue.pullRequest ? issue.url : undefined,
     parentLoopId: options?.parentLoopId,
     isReviewLoop: options?.isReviewLoop,
+    dependsOn,
+    requireApprovedReview: dependsOn && options?.requireApprovedReview ? true : undefined,
   };
 
   // Save to state
-  let state = loadState();
-  state = addLoop(state, loop);
-  saveState(state);
+  mutateState(state => addLoop(state, loop));
 
   appendLog(id, { type: 'system', content: `Loop created for issue: ${issue.title}` });
+  if (repoPolicy.error) {
+    appendLog(id, { type: 'error', content: `${repoPolicy.error} - repo policy defaults not applied` });
+  }
   if (worktreePath) {
     appendLog(id, { type: 'system', content: `Worktree: ${worktreeBranch} at ${worktreePath}` });
   }
+  if (issue.pullRequest) {
+    appendLog(id, {
+      type: 'system',
+      content: `Pull request #${issue.number}: ${issue.acceptanceCriteria.length} unresolved review thread(s)` +
+        (worktreePath ? '' : ` - no worktree, check out ${issue.pullRequest.headRefName} in ${workingDir} before starting`),
+    });
+  }
   if (options?.isReviewLoop && options?.parentLoopId) {
     appendLog(id, { type: 'system', content: `Review loop for: ${options.parentLoopId}` });
   }
+  if (dependsOn) {
+    appendLog(id, { type: 'system', content: `Depends on: ${dependsOn.join(', ')}${loop.requireApprovedReview ? ' (approved review required)' : ''}` });
+  }
 
   return loop;
 }
 
+/**
+ * Create the worktree a dependent loop deferred at creation, based on its
+ * parent's branch so it builds on the parent's work - anything the parent
+ * left uncommitted is committed to that branch first.
+ * Falls back to the repo directory if the worktree can't be created.
+ */
+async function createDeferredWorktree(loop: Loop, loops: Loop[]): Promise<Loop> {
+  const parent = getDependencyBaseLoop(loop, loops);
+  const baseBranch = parent?.worktreeBranch;
+  let updates: Partial<Loop> = { pendingWorktree: undefined };
+
+  if (isWorktreeAvailable()) {
+    if (parent?.worktreePath && existsSync(parent.worktreePath)) {
+      try {
+        if (await commitWorktreeChanges(parent, `dependent loop ${loop.id}`)) {
+          appendLog(loop.id, { type: 'system', content: `Committed ${parent.id}'s uncommitted changes to ${baseBranch}` });
+        }
+      } catch (err) {
+        appendLog(loop.id, {
+          type: 'system',
+          content: `Warning: ${parent.id}'s uncommitted changes are not on ${baseBranch}: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      }
+    }
+
+    try {
+      const wt = await createWorktree(loop.id, baseBranch, loop.repoRoot ?? loop.workingDir);
+      updates = {
+        ...updates,
+        workingDir: wt.worktreePath,
+        worktreePath: wt.worktreePath,
+        worktreeBranch: wt.worktreeBranch,
+        baseBranch,
+      };
+      appendLog(loop.id, {
+        type: 'system',
+        content: `Worktree: ${wt.worktreeBranch} at ${wt.worktreePath}${baseBranch ? ` (based on ${baseBranch})` : ''}`,
+      });
+    } catch (err) {
+      appendLog(loop.id, {
+        type: 'system',
+        content: `Warning: Failed to create worktree: ${err}. Using main directory.`,
+      });
+    }
+  }
+
+  saveLoopUpdates(loop.id, updates);
+  return { ...loop, ...updates };
+}
+
+/**
+ * Set the loops a queued loop depends on. Rejects unknown parents and cycles.
+ * A worktree created before the dependency existed is recreated at start
+ * from the parent's branch.
+ */
+export async function setLoopDependencies(
+  loopId: string,
+  dependsOn: string[],
+  requireApprovedReview: boolean
+): Promise<void> {
+  let state = loadState();
+  const loop = state.loops.find(l => l.id === loopId);
+  if (!loop) {
+    throw new Error(`Loop not found: ${loopId}`);
+  }
+  if (loop.status !== 'queued') {
+    throw new Error(`Dependencies can only be changed on queued loops (status: ${loop.status})`);
+  }
+
+  for (const parentId of dependsOn) {
+    if (!state.loops.some(l => l.id === parentId)) {
+      throw new Error(`Loop not found: ${parentId}`);
+    }
+    if (wouldCreateCycle(loopId, parentId, state.loops)) {
+      throw new Error(`Depending on ${parentId} would create a dependency cycle`);
+    }
+  }
+
+  let updates: Partial<Loop> = {
+    dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+    requireApprovedReview: dependsOn.length > 0 && requireApprovedReview ? true : undefined,
+  };
+
+  if (dependsOn.length > 0 && loop.worktreeBranch && loop.repoRoot && !loop.startedAt) {
+    try {
+      await removeWorktree(loop.worktreeBranch, loop.repoRoot);
+      updates = {
+        ...updates,
+        workingDir: loop.repoRoot,
+        worktreePath: undefined,
+        worktreeBranch: undefined,
+        pendingWorktree: true,
+      };
+    } catch (err) {
+      appendLog(loopId, {
+        type: 'system',
+        content: `Warning: Failed to remove worktree: ${err}. Keeping ${loop.worktreeBranch}.`,
+      });
+    }
+  }
+
+  state = loadState();
+  state = saveLoopUpdates(loopId, updates);
+
+  appendLog(loopId, {
+    type: 'system',
+    content: dependsOn.length > 0
+      ? `Depends on: ${dependsOn.join(', ')}${updates.requireApprovedReview ? ' (approved review required)' : ''}`
+      : 'Dependencies cleared',
+  });
+}
+
 /**
  * Capture git baseline for progress detection.
  * Returns the set of dirty files AND their content hashes.
@@ -266,13 +774,15 @@ function captureGitBaseline(workingDir: string): GitBaselineInfo | null {
  */
 export async function startLoop(loopId: string): Promise<void> {
   let state = loadState();
-  const loop = state.loops.find(l => l.id === loopId);
+  let loop = state.loops.find(l => l.id === loopId);
 
   if (!loop) {
     throw new Error(`Loop not found: ${loopId}`);
   }
 
-  if (loop.status === 'running') {
+  // Loops the scheduler claimed for this process are already marked running
+  const claimedHere = loop.startingPid === process.pid && !iterationStates.has(loopId);
+  if (loop.status === 'running' && !claimedHere) {
     throw new Error(`Loop already running: ${loopId}`);
   }
 
@@ -285,6 +795,17 @@ export async function startLoop(loopId: string): Promise<void> {
     throw new Error(`Agent CLI not available: ${loop.agent}`);
   }
 
+  if (!areDependenciesMet(loop, state.loops)) {
+    throw new Error(`Cannot start ${loopId}: ${describeUnmetDependencies(loop, state.loops)}`);
+  }
+
+  if (loop.pendingWorktree) {
+    // Claim the loop first so the scheduler doesn't start it twice meanwhile
+    state = saveLoopUpdates(loopId, { status: 'running', startingPid: process.pid });
+    loop = await createDeferredWorktree(loop, state.loops);
+    state = loadState();
+  }
+
   // Capture git baseline for progress detection
   const gitBaseline = captureGitBaseline(loop.workingDir);
 
@@ -300,15 +821,21 @@ export async function startLoop(loopId: string): Promise<void> {
     sessionId: undefined,  // Will be set after first iteration
   };
   iterationStates.set(loopId, iterState);
+  suspendedLoops.delete(loopId);
 
   // Initialize rate limiter
-  let rateLimiter = createRateLimiter();
+  const policy = resolveRunPolicy(loop.policy);
+  let rateLimiter = createRateLimiter(policy.callsPerHour);
 
   // Build initial prompt
-  const prompt = buildPromptFromIssue(loop.issue);
+  let prompt = buildPromptFromIssue(loop.issue, ISSUE_CONTEXT_MAX_CHARS);
+  if (policy.testCommand) {
+    prompt += `The test suite (\`${policy.testCommand}\`) is run after every iteration; the task is only complete once it passes.\n`;
+  }
 
   appendLog(loopId, { type: 'system', content: `Starting ${loop.agent} agent with session continuity...` });
-  appendLog(loopId, { type: 'system', content: `Max iterations: ${iterState.maxIterations}, Timeout: ${ITERATION_TIMEOUT_MS / 1000}s` });
+  appendLog(loopId, { type: 'system', content: `Max iterations: ${iterState.maxIterations}, Timeout: ${policy.iterationTimeoutMs / 1000}s` });
+  appendLog(loopId, { type: 'system', content: `Run policy: ${formatRunPolicy(policy)}` });
   if (gitBaseline) {
     appendLog(loopId, { type: 'system', content: `Git baseline captured: ${gitBaseline.initialDirtyFiles.size} dirty files tracked` });
   }
@@ -317,30 +844,36 @@ export async function startLoop(loopId: string): Promise<void> {
   }
 
   // Update state to running
-  state = updateLoop(state, loopId, {
+  // From here on the recovery checkpoint names the owner
+  state = saveLoopUpdates(loopId, {
     status: 'running',
+    startingPid: undefined,
+    held: undefined,
     startedAt: new Date().toISOString(),
     startCommit,
     iteration: 0,
     maxIterations: loop.maxIterations ?? MAX_ITERATIONS_DEFAULT,
   });
-  saveState(state);
+  saveRecoveryState(loopId, iterState);
   emit({ type: 'started', loopId });
 
   // Run iteration loop
   try {
+    const beforeLoop = await runLoopHook(loopId, 'beforeLoop');
+    if (beforeLoop && !beforeLoop.result.ok) {
+      throw new Error(`beforeLoop hook failed: ${beforeLoop.result.output.split('\n').pop() || beforeLoop.hook.command}`);
+    }
     await runIterationLoop(loopId, loop, adapter, prompt, iterState, rateLimiter, gitBaseline);
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : String(err);
     appendLog(loopId, { type: 'error', content: `Loop error: ${errorMsg}` });
 
-    let state = loadState();
-    state = updateLoop(state, loopId, {
+    saveLoopUpdates(loopId, {
       status: 'error',
       error: errorMsg,
       endedAt: new Date().toISOString(),
     });
-    saveState(state);
+    await runLoopHook(loopId, 'onError', { exitReason: 'error', error: errorMsg });
     emit({ type: 'error', loopId, error: errorMsg });
   }
 }
@@ -359,8 +892,18 @@ async function runIterationLoop(
 ): Promise<void> {
   let currentPrompt = initialPrompt;
   let outputBuffer = '';
+  // Failed criterion verifications and afterIteration hook output -
+  // prepended to the next prompt, whatever it is
+  let promptNotes: string[] = [];
+  const policy = resolveRunPolicy(loop.policy);
+  // Criteria the agent knows about - a refresh from the issue is passed on
+  let knownCriteria = describeCriteria(loop.issue.acceptanceCriteria);
 
   while (iterState.iteration < iterState.maxIterations) {
+    if (suspendedLoops.has(loopId)) {
+      return;
+    }
+
     // Check if loop was stopped externally
     let state = loadState();
     const currentLoop = state.loops.find(l => l.id === loopId);
@@ -369,14 +912,50 @@ async function runIterationLoop(
       break;
     }
 
-    // Check circuit breaker
+    // Soft pause - park here until resumed (or stopped), then re-check
+    if (currentLoop.pauseRequested) {
+      await parkLoop(loopId, iterState);
+      continue;
+    }
+
+    const criteriaNow = describeCriteria(currentLoop.issue.acceptanceCriteria);
+    if (criteriaNow !== knownCriteria) {
+      knownCriteria = criteriaNow;
+      promptNotes.push(`The acceptance criteria were updated on the issue:\n${formatCriteriaChecklist(currentLoop.issue.acceptanceCriteria)}`);
+    }
+
+    // Budget caps - checked before starting another (paid) iteration
+    const overBudget = checkBudget(currentLoop.usage, policy);
+    if (overBudget) {
+      appendLog(loopId, { type: 'system', content: `Budget exceeded: ${overBudget}` });
+      iterState.exitReason = 'budget_exceeded';
+      break;
+    }
+
+    // Check circuit breaker - a fallback agent gets a chance before the loop halts
     if (shouldHalt(iterState.circuitBreaker)) {
       const reason = getHaltReason(iterState.circuitBreaker);
       appendLog(loopId, { type: 'system', content: `Circuit breaker OPEN: ${reason}` });
+      const handoff = handOffToFallback(loopId, iterState, `circuit breaker: ${reason}`);
+      if (handoff) {
+        adapter = handoff.adapter;
+        currentPrompt = handoff.prompt;
+        continue;
+      }
       iterState.exitReason = 'circuit_breaker';
       break;
     }
 
+    // Agent CLI keeps failing (usage limit, auth, crash) - hand off if a fallback is left
+    if ((iterState.consecutiveFailedExits ?? 0) >= policy.failedExitThreshold) {
+      const handoff = handOffToFallback(loopId, iterState, `${iterState.consecutiveFailedExits} failed agent exits`);
+      if (handoff) {
+        adapter = handoff.adapter;
+        currentPrompt = handoff.prompt;
+        continue;
+      }
+    }
+
     // Check rate limit
     const remaining = checkRateLimit(rateLimiter);
     if (remaining < 0) {
@@ -391,30 +970,58 @@ async function runIterationLoop(
       content: `--- Iteration ${iterState.iteration}/${iterState.maxIterations} ---`,
     });
     emit({ type: 'iteration', loopId, iteration: iterState.iteration });
+    recordAgentIteration(loopId, currentLoop.agent);
     // NOTE: iteration count is saved AFTER criteria processing to avoid race condition
     // where this save could overwrite concurrent criterion updates from the previous iteration
 
+    await runLoopHook(loopId, 'beforeIteration', { iteration: iterState.iteration });
+
+    const prompt = [...promptNotes, currentPrompt].join('\n\n');
+    promptNotes = [];
+
     // Build spawn args - use continue if we have a session ID
     let spawnArgs: SpawnArgs;
     if (iterState.sessionId) {
       appendLog(loopId, { type: 'system', content: `Continuing session: ${iterState.sessionId.substring(0, 8)}...` });
-      spawnArgs = adapter.buildContinueArgs(iterState.sessionId, currentPrompt, loop.skipPermissions);
+      spawnArgs = adapter.buildContinueArgs(iterState.sessionId, prompt, loop.skipPermissions);
     } else {
-      spawnArgs = adapter.buildSpawnArgs(currentPrompt, loop.skipPermissions);
+      spawnArgs = adapter.buildSpawnArgs(prompt, loop.skipPermissions);
     }
 
     // Run iteration with timeout
-    const result = await runSingleIteration(loopId, loop, spawnArgs, ITERATION_TIMEOUT_MS);
+    const result = await runSingleIteration(loopId, loop, spawnArgs, policy.iterationTimeoutMs, adapter.createOutputParser?.() ?? null);
     outputBuffer = result.output;
+    // What the agent said - decoded from records when the adapter parses its output
+    const agentText = result.records ? getOutputRecordsText(result.records) : outputBuffer;
+
+    // Interrupted by shutdown - state was already saved as paused
+    if (suspendedLoops.has(loopId)) {
+      return;
+    }
+
+    // Repo hook (formatters, linters) - before the checkpoint so it captures their changes
+    const afterIteration = await runLoopHook(loopId, 'afterIteration', { iteration: iterState.iteration });
+    if (afterIteration?.hook.appendOutput && afterIteration.result.output) {
+      const status = afterIteration.result.ok ? 'passed' : 'failed';
+      promptNotes.push(`The afterIteration hook (\`${afterIteration.hook.command}\`) ${status}:\n${afterIteration.result.output}`);
+    }
+
+    // Snapshot the worktree so the operator can roll back to this iteration
+    if (loop.worktreePath) {
+      const checkpoint = createCheckpoint(loopId, loop.workingDir, iterState.iteration);
+      if (checkpoint) {
+        appendLog(loopId, { type: 'system', content: `Checkpoint ${checkpoint.ref.split('/').pop()}: ${checkpoint.diffStat}` });
+      }
+    }
 
     // Handle timeout
     if (result.timedOut) {
-      appendLog(loopId, { type: 'error', content: `Iteration timed out after ${ITERATION_TIMEOUT_MS / 1000}s` });
+      appendLog(loopId, { type: 'error', content: `Iteration timed out after ${policy.iterationTimeoutMs / 1000}s` });
       // Don't immediately exit - let circuit breaker handle repeated timeouts
     }
 
     // Extract and store session ID for next iteration
-    const extractedSessionId = adapter.extractSessionId(outputBuffer);
+    const extractedSessionId = adapter.extractSessionId(outputBuffer, result.records ?? undefined);
     if (extractedSessionId) {
       if (!iterState.sessionId) {
         appendLog(loopId, { type: 'system', content: `Session established: ${extractedSessionId.substring(0, 8)}...` });
@@ -430,6 +1037,17 @@ async function runIterationLoop(
     // Record API call
     rateLimiter = recordCall(rateLimiter);
 
+    const usage = adapter.extractUsage?.(outputBuffer, result.records ?? undefined);
+    if (usage) {
+      recordLoopUsage(loopId, currentLoop.agent, usage);
+    }
+
+    // Check the criteria the agent claimed against their verification commands
+    const verificationFailures = await verifyClaimedCriteria(loopId, loop.workingDir);
+    if (verificationFailures) {
+      promptNotes.push(verificationFailures);
+    }
+
     // Check for pending intervention FIRST - if process was killed for intervention,
     // skip analysis and circuit breaker (truncated output would trigger false positives)
     const intervention = pendingInterventions.get(loopId);
@@ -440,14 +1058,27 @@ async function runIterationLoop(
       iterState.circuitBreaker = createCircuitBreaker();
       currentPrompt = `OPERATOR INTERVENTION:\n${intervention}\n\nPlease acknowledge this message and adjust your approach accordingly. Continue working on the task.`;
       // Save iteration count before continuing
-      state = loadState();
-      state = updateLoop(state, loopId, { iteration: iterState.iteration });
-      saveState(state);
+      saveIterationProgress(loopId, iterState);
       continue;
     }
 
+    // Count agent CLI failures in a row (fallback trigger)
+    const failedExit = !result.timedOut && result.exitCode !== 0 && result.exitCode !== null;
+    iterState.consecutiveFailedExits = failedExit ? (iterState.consecutiveFailedExits ?? 0) + 1 : 0;
+
+    // Run the test command - its counts are a progress signal, and completion needs it green
+    let testRun: TestRun | null = null;
+    if (policy.testCommand && loadState().loops.find(l => l.id === loopId)?.status !== 'stopped') {
+      testRun = await runTestCommand(policy.testCommand, loop.workingDir, policy.iterationTimeoutMs);
+      recordTestRun(loopId, testRun, iterState.lastTestRun);
+    }
+
     // Analyze response with git baseline
-    const analysis = analyzeResponse(outputBuffer, loop.workingDir, gitBaseline);
+    let analysis = analyzeResponse(outputBuffer, loop.workingDir, gitBaseline, result.records ?? undefined);
+    if (testRun) {
+      analysis = applyTestRun(analysis, testRun, iterState.lastTestRun);
+      iterState.lastTestRun = testRun;
+    }
     iterState.analysisHistory.push(analysis);
 
     // Log analysis
@@ -457,31 +1088,32 @@ async function runIterationLoop(
     });
 
     // Update circuit breaker
-    iterState.circuitBreaker = recordIteration(iterState.circuitBreaker, analysis);
+    iterState.circuitBreaker = recordIteration(iterState.circuitBreaker, analysis, policy);
     appendLog(loopId, { type: 'system', content: `Circuit: ${getCbStatus(iterState.circuitBreaker)}` });
 
     // Reload state to get fresh criteria (may have been updated during iteration via streaming tags)
     const freshState = loadState();
     const freshLoop = freshState.loops.find(l => l.id === loopId);
     const criteria = freshLoop?.issue.acceptanceCriteria || [];
-    const allCriteriaComplete = criteria.length === 0 || criteria.every(c => c.completed);
-    const hasPromise = outputBuffer.includes(COMPLETION_PROMISE);
+    const allCriteriaComplete = criteria.every(c => c.completed || c.removed);
+    const hasPromise = agentText.includes(COMPLETION_PROMISE);
+    const testsGreen = !testRun || testRun.ok;
 
     // Check exit conditions
     const exitReason = shouldExit(
       analysis,
       iterState.circuitBreaker.consecutiveTestOnly,
-      CB_CONSECUTIVE_TEST_THRESHOLD
+      policy.testOnlyThreshold
     );
 
     if (exitReason) {
       if (['completion_signal', 'exit_signal', 'project_complete'].includes(exitReason)) {
-        if (allCriteriaComplete && hasPromise) {
+        if (allCriteriaComplete && hasPromise && testsGreen) {
           iterState.exitReason = 'completion_signal';
           appendLog(loopId, { type: 'system', content: 'Completion promise detected with all criteria complete' });
           break;
         }
-        appendLog(loopId, { type: 'system', content: 'Exit signal ignored (promise and/or criteria missing)' });
+        appendLog(loopId, { type: 'system', content: 'Exit signal ignored (promise, criteria and/or passing tests missing)' });
       } else {
         iterState.exitReason = exitReason;
         appendLog(loopId, { type: 'system', content: `Exit condition met: ${exitReason}` });
@@ -489,7 +1121,7 @@ async function runIterationLoop(
       }
     }
 
-    if (AUTO_COMPLETE_ON_CRITERIA && allCriteriaComplete && !hasPromise) {
+    if (AUTO_COMPLETE_ON_CRITERIA && allCriteriaComplete && testsGreen && !hasPromise) {
       iterState.exitReason = 'completion_signal';
       appendLog(loopId, { type: 'system', content: 'All criteria complete. Auto-completing loop.' });
       break;
@@ -497,20 +1129,37 @@ async function runIterationLoop(
 
     // Check for explicit completion promise
     if (hasPromise) {
-      if (allCriteriaComplete) {
+      if (allCriteriaComplete && testsGreen) {
         iterState.exitReason = 'completion_signal';
         appendLog(loopId, { type: 'system', content: 'Completion promise detected with all criteria complete' });
         break;
       }
+      if (allCriteriaComplete && testRun) {
+        appendLog(loopId, { type: 'system', content: 'Completion promise received but the tests are failing' });
+        currentPrompt = `You output <promise>TASK COMPLETE</promise>, but the tests don't pass yet.\n\n` +
+          `${buildTestFailurePrompt(policy.testCommand, testRun)} Then output <promise>TASK COMPLETE</promise> again.`;
+        saveIterationProgress(loopId, iterState);
+        continue;
+      }
       const remaining = getIncompleteCriteria(criteria);
+      const claimed = criteria.filter(c => c.claimed && !c.completed && !c.removed).length;
+      if (claimed > 0 && claimed === remaining.length) {
+        // Only the operator can complete these - wait for them instead of prompting again
+        appendLog(loopId, {
+          type: 'system',
+          content: `Completion promise received - pausing until the operator confirms ${claimed} unverified claimed criteria`,
+        });
+        saveLoopUpdates(loopId, { pauseRequested: true });
+        currentPrompt = `The operator reviewed the criteria you claimed. If every criterion is now complete, output <promise>TASK COMPLETE</promise> again; otherwise finish the rest.`;
+        saveIterationProgress(loopId, iterState);
+        continue;
+      }
       appendLog(loopId, { type: 'system', content: `Completion promise received but criteria remain: ${remaining.length}` });
       currentPrompt = `You output <promise>TASK COMPLETE</promise>, but the following criteria remain:\n` +
         remaining.map(item => `- ${item}`).join('\n') +
         `\n\nComplete them and emit <criterion-complete>N</criterion-complete> for each, then output <promise>TASK COMPLETE</promise> again.`;
       // Save iteration count before continuing (after criteria have been processed)
-      state = loadState();
-      state = updateLoop(state, loopId, { iteration: iterState.iteration });
-      saveState(state);
+      saveIterationProgress(loopId, iterState);
       continue;
     }
 
@@ -519,17 +1168,17 @@ async function runIterationLoop(
       appendLog(loopId, { type: 'error', content: `Iteration exited with code ${result.exitCode}` });
     }
 
-    // Build follow-up prompt for next iteration
-    if (adapter.buildFollowUpPrompt) {
-      currentPrompt = adapter.buildFollowUpPrompt(outputBuffer.substring(0, 500));
+    // Build follow-up prompt for next iteration - failing tests say more than "continue"
+    if (testRun && !testRun.ok) {
+      currentPrompt = buildTestFailurePrompt(policy.testCommand, testRun);
+    } else if (adapter.buildFollowUpPrompt) {
+      currentPrompt = adapter.buildFollowUpPrompt(agentText.substring(0, 500));
     } else {
       currentPrompt = 'Continue working on the task. What is the next step?';
     }
 
     // Save iteration count at end of iteration (after criteria have been processed)
-    state = loadState();
-    state = updateLoop(state, loopId, { iteration: iterState.iteration });
-    saveState(state);
+    saveIterationProgress(loopId, iterState);
   }
 
   // Check if hit max iterations
@@ -539,19 +1188,60 @@ async function runIterationLoop(
   }
 
   // Finalize loop
-  finalizeLoop(loopId, iterState);
+  await finalizeLoop(loopId, iterState);
+}
+
+/**
+ * Park a loop at the iteration boundary (soft pause).
+ * No agent process is running, so the session is already captured.
+ * Resolves when the loop is resumed or stopped.
+ */
+async function parkLoop(loopId: string, iterState: LoopIterationState): Promise<void> {
+  const sessionId = iterState.sessionId;
+
+  saveLoopUpdates(loopId, {
+    status: 'paused',
+    pauseRequested: undefined,
+    pausedAt: new Date().toISOString(),
+    pausedSessionId: sessionId,
+  });
+  saveRecoveryState(loopId, iterState, pendingInterventions.get(loopId));
+
+  // Register before emitting so listeners already see the loop as parked
+  const woken = new Promise<void>((resolve) => parkedLoops.set(loopId, resolve));
+
+  appendLog(loopId, {
+    type: 'system',
+    content: `Loop paused after iteration ${iterState.iteration}${sessionId ? ` (session: ${sessionId.substring(0, 8)}...)` : ''}`,
+  });
+  emit({ type: 'paused', loopId });
+
+  await woken;
+}
+
+// Wake a parked loop (resume or stop)
+function unparkLoop(loopId: string): boolean {
+  const wake = parkedLoops.get(loopId);
+  if (!wake) return false;
+  parkedLoops.delete(loopId);
+  wake();
+  return true;
 }
 
 /**
  * Run a single iteration of the agent using Bun's spawn with timeout.
+ * With an output parser, stdout is logged as structured records (returned
+ * in `records`); otherwise it's logged as raw text and `records` is null.
  */
 async function runSingleIteration(
   loopId: string,
   loop: Loop,
   spawnArgs: SpawnArgs,
-  timeoutMs: number
-): Promise<{ output: string; exitCode: number | null; timedOut: boolean }> {
+  timeoutMs: number,
+  parser: OutputParser | null
+): Promise<{ output: string; records: OutputRecord[] | null; exitCode: number | null; timedOut: boolean }> {
   let output = '';
+  const records: OutputRecord[] = [];
   let timedOut = false;
   let cancelled = false;
 
@@ -572,6 +1262,24 @@ async function runSingleIteration(
 
   let criterionBuffer = criterionBuffers.get(loopId) || '';
 
+  const scanCriterionTags = (text: string): void => {
+    const parsed = parseCriterionTags(text, criterionBuffer);
+    criterionBuffer = parsed.rest;
+    if (parsed.updates.length > 0) {
+      applyCriterionUpdates(loopId, parsed.updates, 'agent');
+    }
+  };
+
+  const logRecords = (parsed: OutputRecord[]): void => {
+    for (const record of parsed) {
+      records.push(record);
+      appendLog(loopId, { type: 'agent', content: renderOutputRecord(record), record });
+      if (record.kind === 'text') {
+        scanCriterionTags(record.text);
+      }
+    }
+  };
+
   // Process stdout chunks
   const readStdout = async () => {
     try {
@@ -580,12 +1288,12 @@ async function runSingleIteration(
         if (done) break;
         const text = new TextDecoder().decode(value);
         output += text;
-        appendLog(loopId, { type: 'agent', content: text });
         emit({ type: 'output', loopId, data: text });
-        const parsed = parseCriterionTags(text, criterionBuffer);
-        criterionBuffer = parsed.rest;
-        if (parsed.updates.length > 0) {
-          applyCriterionUpdates(loopId, parsed.updates, 'agent');
+        if (parser) {
+          logRecords(parser.push(text));
+        } else {
+          appendLog(loopId, { type: 'agent', content: text });
+          scanCriterionTags(text);
         }
       }
     } catch {
@@ -602,22 +1310,20 @@ async function runSingleIteration(
         const text = new TextDecoder().decode(value);
         output += text;  // Include in analysis
         appendLog(loopId, { type: 'agent', content: text });
-        const parsed = parseCriterionTags(text, criterionBuffer);
-        criterionBuffer = parsed.rest;
-        if (parsed.updates.length > 0) {
-          applyCriterionUpdates(loopId, parsed.updates, 'agent');
-        }
+        scanCriterionTags(text);
       }
     } catch {
       // Reader closed or cancelled
     }
   };
 
-  // Setup timeout
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  // Setup timeout (suspendable, so a hard pause doesn't count against it)
+  const timer: IterationTimer = { remainingMs: timeoutMs, startedAt: Date.now(), timeoutId: null, fire: () => {} };
   const timeoutPromise = new Promise<'timeout'>((resolve) => {
-    timeoutId = setTimeout(() => resolve('timeout'), timeoutMs);
+    timer.fire = () => resolve('timeout');
   });
+  iterationTimers.set(loopId, timer);
+  resumeIterationTimer(loopId);
 
   // Race between process completion and timeout
   const processPromise = (async () => {
@@ -631,9 +1337,10 @@ async function runSingleIteration(
   ]);
 
   // Clear timeout if process completed normally
-  if (timeoutId && result.type === 'done') {
-    clearTimeout(timeoutId);
+  if (timer.timeoutId && result.type === 'done') {
+    clearTimeout(timer.timeoutId);
   }
+  iterationTimers.delete(loopId);
 
   if (result.type === 'timeout') {
     timedOut = true;
@@ -660,31 +1367,38 @@ async function runSingleIteration(
     await proc.exited.catch(() => {});
   }
 
+  if (parser) {
+    logRecords(parser.flush());
+  }
   criterionBuffers.set(loopId, criterionBuffer);
   processes.delete(loopId);
 
-  return { output, exitCode: result.exitCode, timedOut };
+  return { output, records: parser ? records : null, exitCode: result.exitCode, timedOut };
 }
 
 /**
  * Finalize loop after iteration loop completes.
  */
-function finalizeLoop(loopId: string, iterState: LoopIterationState): void {
+async function finalizeLoop(loopId: string, iterState: LoopIterationState): Promise<void> {
   let state = loadState();
   const loop = state.loops.find(l => l.id === loopId);
 
   const exitReason = iterState.exitReason || 'error';
   const status: LoopStatus = exitReason === 'user_stopped' ? 'stopped'
-    : exitReason === 'error' || exitReason === 'circuit_breaker' ? 'error'
+    : exitReason === 'error' || exitReason === 'circuit_breaker' || exitReason === 'budget_exceeded' ? 'error'
     : 'completed';
 
-  state = updateLoop(state, loopId, {
+  // A halted breaker's reason is the loop's error (shown, passed to hooks)
+  const error = exitReason === 'circuit_breaker' ? getHaltReason(iterState.circuitBreaker) : loop?.error;
+
+  state = saveLoopUpdates(loopId, {
     status,
     exitReason,
+    error,
     endedAt: new Date().toISOString(),
     iteration: iterState.iteration,
+    pauseRequested: undefined,
   });
-  saveState(state);
 
   appendLog(loopId, {
     type: 'system',
@@ -693,7 +1407,42 @@ function finalizeLoop(loopId: string, iterState: LoopIterationState): void {
 
   iterationStates.delete(loopId);
   criterionBuffers.delete(loopId);
+  pendingVerifications.delete(loopId);
   pendingInterventions.delete(loopId);
+  clearRecoveryState(loopId);
+  await flushIssueSync(loopId);
+
+  if (status === 'completed' && loop?.isReviewLoop && loop.parentLoopId) {
+    await recordReviewVerdict(loopId, loop.parentLoopId);
+  }
+
+  // Repo hooks (notifications) - awaited so they finish before listeners react
+  if (status === 'completed') {
+    await runLoopHook(loopId, 'onComplete', { iteration: iterState.iteration, exitReason });
+  } else if (status === 'error') {
+    await runLoopHook(loopId, 'onError', { iteration: iterState.iteration, exitReason, error });
+  }
+
+  // Open a PR from the worktree branch once the agent signals it's done
+  if (
+    AUTO_CREATE_PULL_REQUESTS && status === 'completed' && exitReason === 'completion_signal' &&
+    loop?.worktreeBranch && !loop.isReviewLoop && !loop.pullRequestUrl
+  ) {
+    try {
+      await createPullRequest(loopId);
+    } catch (err) {
+      appendLog(loopId, { type: 'error', content: `Pull request not opened: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+
+  // Push a pull request loop's fixes and answer the threads it addressed
+  if (status === 'completed' && loop?.issue.pullRequest && REVIEW_THREAD_ACTION !== 'off') {
+    try {
+      await publishReviewThreadReplies(loopId, REVIEW_THREAD_ACTION === 'resolve');
+    } catch (err) {
+      appendLog(loopId, { type: 'error', content: `Review threads not answered: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
 
   if (status === 'completed') {
     emit({ type: 'completed', loopId });
@@ -716,7 +1465,34 @@ function finalizeLoop(loopId: string, iterState: LoopIterationState): void {
   }
 }
 
-// Pause a loop (SIGSTOP) - saves session ID for cross-session resume
+/**
+ * Record a finished review's verdict on the loop it reviewed
+ * (dependent loops may wait for an approved review).
+ */
+async function recordReviewVerdict(reviewLoopId: string, originalLoopId: string): Promise<void> {
+  const output = readLogs(reviewLoopId)
+    .filter(entry => entry.type === 'agent')
+    .map(entry => entry.content)
+    .join('');
+  // The last verdict wins if the reviewer changed its mind across iterations
+  const verdict = parseReviewStatus(output.slice(Math.max(0, output.lastIndexOf('<review-status>'))));
+  if (!verdict) {
+    appendLog(originalLoopId, { type: 'system', content: `Review ${reviewLoopId} finished without a verdict` });
+    return;
+  }
+
+  saveLoopUpdates(originalLoopId, { reviewVerdict: verdict });
+  appendLog(originalLoopId, { type: 'system', content: `Review ${reviewLoopId} verdict: ${verdict}` });
+
+  try {
+    await updatePullRequestBody(originalLoopId);
+  } catch (err) {
+    appendLog(originalLoopId, { type: 'error', content: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+// Pause a loop immediately (SIGSTOP) - saves session ID for cross-session resume.
+// The iteration timeout is suspended until the loop is resumed.
 export function pauseLoop(loopId: string): void {
   const proc = processes.get(loopId);
   if (!proc || !proc.pid) {
@@ -724,38 +1500,76 @@ export function pauseLoop(loopId: string): void {
   }
 
   process.kill(proc.pid, 'SIGSTOP');
+  suspendIterationTimer(loopId);
 
   // Capture session ID for potential cross-session resume
   const iterState = iterationStates.get(loopId);
   const sessionId = iterState?.sessionId;
 
-  let state = loadState();
-  state = updateLoop(state, loopId, {
+  saveLoopUpdates(loopId, {
     status: 'paused',
     pausedAt: new Date().toISOString(),
     pausedSessionId: sessionId,
   });
-  saveState(state);
 
   appendLog(loopId, { type: 'system', content: `Loop paused${sessionId ? ` (session: ${sessionId.substring(0, 8)}...)` : ''}` });
   emit({ type: 'paused', loopId });
 }
 
-// Resume a loop (SIGCONT) - for same-session resume
+// Soft pause - let the current iteration finish, then park the loop
+export function pauseLoopAfterIteration(loopId: string): void {
+  if (!iterationStates.has(loopId)) {
+    throw new Error(`Loop is not running in this session: ${loopId}`);
+  }
+
+  let state = loadState();
+  const loop = state.loops.find(l => l.id === loopId);
+  if (loop?.status !== 'running') {
+    throw new Error(`Loop is not running: ${loopId} (status: ${loop?.status})`);
+  }
+
+  state = saveLoopUpdates(loopId, { pauseRequested: true });
+
+  appendLog(loopId, { type: 'system', content: 'Pause requested - loop will pause after the current iteration' });
+  emit({ type: 'pause_requested', loopId });
+}
+
+// Cancel a pending soft pause
+export function cancelPauseAfterIteration(loopId: string): void {
+  let state = loadState();
+  const loop = state.loops.find(l => l.id === loopId);
+  if (!loop?.pauseRequested) return;
+
+  state = saveLoopUpdates(loopId, { pauseRequested: undefined });
+
+  appendLog(loopId, { type: 'system', content: 'Pause request cancelled' });
+  emit({ type: 'resumed', loopId });
+}
+
+// Resume a loop in the same session - wakes a parked loop, or SIGCONT for a hard pause
 export function resumeLoop(loopId: string): void {
+  const parked = parkedLoops.has(loopId);
   const proc = processes.get(loopId);
-  if (!proc || !proc.pid) {
+  if (!parked && (!proc || !proc.pid)) {
     throw new Error(`No running process for loop: ${loopId}`);
   }
 
-  process.kill(proc.pid, 'SIGCONT');
+  if (!parked && proc?.pid) {
+    process.kill(proc.pid, 'SIGCONT');
+    resumeIterationTimer(loopId);
+  }
 
-  let state = loadState();
-  state = updateLoop(state, loopId, { status: 'running' });
-  saveState(state);
+  saveLoopUpdates(loopId, {
+    status: 'running',
+    pausedAt: undefined,
+    pausedSessionId: undefined,
+  });
 
   appendLog(loopId, { type: 'system', content: 'Loop resumed' });
   emit({ type: 'resumed', loopId });
+
+  suspendedLoops.delete(loopId);
+  unparkLoop(loopId);
 }
 
 /**
@@ -775,8 +1589,8 @@ export async function resumePausedLoop(loopId: string): Promise<void> {
     throw new Error(`Loop is not paused: ${loopId} (status: ${loop.status})`);
   }
 
-  // Check if there's still an active process (shouldn't happen for cross-session)
-  if (processes.has(loopId)) {
+  // Check if there's still an active process or parked loop (shouldn't happen for cross-session)
+  if (processes.has(loopId) || parkedLoops.has(loopId)) {
     // Same-session resume - use SIGCONT instead
     resumeLoop(loopId);
     return;
@@ -791,47 +1605,56 @@ export async function resumePausedLoop(loopId: string): Promise<void> {
     throw new Error(`Agent CLI not available: ${loop.agent}`);
   }
 
-  // Generate work summary from logs
-  const workSummary = generateResumeSummary(loopId);
-
-  // Get remaining criteria
-  const remainingCriteria = loop.issue.acceptanceCriteria
-    .filter(c => !c.completed)
-    .map(c => c.text);
-
-  // Build resume prompt
-  const resumePrompt = adapter.buildResumePrompt
-    ? adapter.buildResumePrompt(workSummary, remainingCriteria)
-    : `Resuming from pause. Previous work summary:\n${workSummary}\n\nRemaining criteria: ${remainingCriteria.join(', ') || 'none'}`;
+  // Build resume prompt from a summary of the logs and the remaining criteria
+  let resumePrompt = buildResumePromptFor(adapter, loopId, loop.issue.acceptanceCriteria);
 
   appendLog(loopId, { type: 'system', content: '--- CROSS-SESSION RESUME ---' });
   appendLog(loopId, { type: 'system', content: `Resuming paused loop from previous session` });
 
+  // Restore checkpointed iteration state (circuit breaker, analysis history, failed exit
+  // streak, last test run, pending intervention)
+  const recovery = loadRecoveryState(loopId);
+  if (recovery) {
+    appendLog(loopId, {
+      type: 'system',
+      content: `Restored checkpoint from iteration ${recovery.iterState.iteration} (${getCbStatus(recovery.iterState.circuitBreaker)})`,
+    });
+    if (recovery.pendingIntervention) {
+      appendLog(loopId, { type: 'system', content: 'Injecting pending operator intervention into resume prompt' });
+      resumePrompt = `OPERATOR INTERVENTION:\n${recovery.pendingIntervention}\n\n${resumePrompt}`;
+    }
+  }
+
   // Capture git baseline for progress detection
   const gitBaseline = captureGitBaseline(loop.workingDir);
 
   // Initialize iteration state, preserving iteration count
-  const previousIteration = loop.iteration || 0;
+  const previousIteration = recovery?.iterState.iteration ?? loop.iteration ?? 0;
   const iterState: LoopIterationState = {
     iteration: previousIteration,
     maxIterations: loop.maxIterations ?? MAX_ITERATIONS_DEFAULT,
-    circuitBreaker: createCircuitBreaker(),
-    analysisHistory: [],
-    sessionId: loop.pausedSessionId,  // Try to resume the session
+    circuitBreaker: recovery?.iterState.circuitBreaker ?? createCircuitBreaker(),
+    analysisHistory: recovery?.iterState.analysisHistory ?? [],
+    sessionId: loop.pausedSessionId ?? recovery?.iterState.sessionId,  // Try to resume the session
+    consecutiveFailedExits: recovery?.iterState.consecutiveFailedExits,
+    lastTestRun: recovery?.iterState.lastTestRun ?? loop.lastTestRun,
   };
   iterationStates.set(loopId, iterState);
+  suspendedLoops.delete(loopId);
+  saveRecoveryState(loopId, iterState);
 
   // Initialize rate limiter
-  let rateLimiter = createRateLimiter();
+  let rateLimiter = createRateLimiter(resolveRunPolicy(loop.policy).callsPerHour);
 
   // Update state - clear pause fields and set to running
-  state = updateLoop(state, loopId, {
+  state = saveLoopUpdates(loopId, {
     status: 'running',
+    iteration: previousIteration,
     pausedAt: undefined,
     pausedSessionId: undefined,
     pausedFromPreviousSession: undefined,
+    recoveredFromCrash: undefined,
   });
-  saveState(state);
   emit({ type: 'resumed', loopId });
 
   // Run iteration loop with resume prompt
@@ -841,13 +1664,12 @@ export async function resumePausedLoop(loopId: string): Promise<void> {
     const errorMsg = err instanceof Error ? err.message : String(err);
     appendLog(loopId, { type: 'error', content: `Resume error: ${errorMsg}` });
 
-    let state = loadState();
-    state = updateLoop(state, loopId, {
+    saveLoopUpdates(loopId, {
       status: 'error',
       error: errorMsg,
       endedAt: new Date().toISOString(),
     });
-    saveState(state);
+    await runLoopHook(loopId, 'onError', { exitReason: 'error', error: errorMsg });
     emit({ type: 'error', loopId, error: errorMsg });
   }
 }
@@ -857,14 +1679,14 @@ export function stopLoop(loopId: string): void {
   const proc = processes.get(loopId);
   if (!proc || !proc.pid) {
     // Maybe already stopped, just update state
-    let state = loadState();
-    state = updateLoop(state, loopId, {
+    saveLoopUpdates(loopId, {
       status: 'stopped',
       exitReason: 'user_stopped',
       endedAt: new Date().toISOString(),
     });
-    saveState(state);
     appendLog(loopId, { type: 'system', content: 'Loop stopped by user' });
+    // A parked loop wakes up, sees the stop and finalizes
+    unparkLoop(loopId);
     return;
   }
 
@@ -880,18 +1702,81 @@ export function stopLoop(loopId: string): void {
     }
   }
 
-  let state = loadState();
-  state = updateLoop(state, loopId, {
+  saveLoopUpdates(loopId, {
     status: 'stopped',
     exitReason: 'user_stopped',
     endedAt: new Date().toISOString(),
   });
-  saveState(state);
 
   appendLog(loopId, { type: 'system', content: 'Loop stopped by user' });
   emit({ type: 'stopped', loopId });
 }
 
+/**
+ * Roll a loop's worktree back to the checkpoint taken after `iteration` and
+ * leave it paused, ready for resumePausedLoop. The resumed agent starts a
+ * fresh session (its old one remembers the discarded work) with the
+ * intervention injected into the resume prompt.
+ */
+export function rollbackLoop(loopId: string, iteration: number, intervention?: string): void {
+  let state = loadState();
+  const loop = state.loops.find(l => l.id === loopId);
+  if (!loop) {
+    throw new Error(`Loop not found: ${loopId}`);
+  }
+  if (getActiveLoopIds().includes(loopId)) {
+    throw new Error(`Loop is still active - stop it before rolling back: ${loopId}`);
+  }
+  if (!loop.worktreePath) {
+    throw new Error(`Loop has no worktree checkpoints: ${loopId}`);
+  }
+
+  const backupRef = restoreCheckpoint(loopId, loop.workingDir, iteration);
+
+  // Iteration state as of the checkpoint, with a fresh session and breaker
+  const iterState: LoopIterationState = {
+    iteration,
+    maxIterations: loop.maxIterations ?? MAX_ITERATIONS_DEFAULT,
+    circuitBreaker: createCircuitBreaker(),
+    analysisHistory: [],
+    sessionId: undefined,
+  };
+  const note = `The working tree was rolled back to the end of iteration ${iteration}; later changes were discarded.`;
+  saveRecoveryState(loopId, iterState, intervention ? `${note}\n${intervention}` : note);
+
+  state = saveLoopUpdates(loopId, {
+    status: 'paused',
+    iteration,
+    exitReason: undefined,
+    error: undefined,
+    endedAt: undefined,
+    pausedAt: new Date().toISOString(),
+    pausedSessionId: undefined,
+    pausedFromPreviousSession: true,
+    recoveredFromCrash: undefined,
+  });
+
+  appendLog(loopId, {
+    type: 'system',
+    content: `Rolled back to iteration ${iteration} (previous state saved as ${backupRef})`,
+  });
+  emit({ type: 'paused', loopId });
+}
+
+// Mark a queued loop as errored when it could not be started (e.g. agent CLI missing)
+export function markLoopStartFailed(loopId: string, errorMsg: string): void {
+  saveLoopUpdates(loopId, {
+    status: 'error',
+    startingPid: undefined,
+    error: errorMsg,
+    exitReason: 'error',
+    endedAt: new Date().toISOString(),
+  });
+
+  appendLog(loopId, { type: 'error', content: `Failed to start: ${errorMsg}` });
+  emit({ type: 'error', loopId, error: errorMsg });
+}
+
 // Retry an errored/stopped loop
 export async function retryLoop(loopId: string): Promise<void> {
   let state = loadState();
@@ -910,14 +1795,13 @@ export async function retryLoop(loopId: string): Promise<void> {
   }
 
   // Reset loop state for retry
-  state = updateLoop(state, loopId, {
+  state = saveLoopUpdates(loopId, {
     status: 'queued',
     error: undefined,
     exitReason: undefined,
     endedAt: undefined,
     iteration: 0,
   });
-  saveState(state);
 
   appendLog(loopId, { type: 'system', content: '--- RETRY ---' });
   appendLog(loopId, { type: 'system', content: 'Loop reset for retry' });
@@ -939,13 +1823,12 @@ export function markLoopManualComplete(loopId: string, note?: string): void {
     throw new Error(`Loop cannot be marked complete (status: ${loop.status})`);
   }
 
-  state = updateLoop(state, loopId, {
+  state = saveLoopUpdates(loopId, {
     status: 'completed',
     error: undefined,
     exitReason: 'manual_complete',
     endedAt: new Date().toISOString(),
   });
-  saveState(state);
 
   const trimmedNote = note?.trim() ?? '';
   const noteText = trimmedNote ? trimmedNote : 'none';
@@ -970,6 +1853,7 @@ export function sendIntervention(loopId: string, message: string): void {
 
   // Store the intervention message - will be picked up by the iteration loop
   pendingInterventions.set(loopId, message);
+  saveRecoveryState(loopId, iterState, message);
   appendLog(loopId, { type: 'operator', content: `[INTERVENTION] ${message}` });
   appendLog(loopId, { type: 'system', content: 'Interrupting current process to inject intervention...' });
 
@@ -1021,6 +1905,106 @@ export function resetLoopSession(loopId: string): void {
   }
 }
 
+// IDs of loops driven by this process (running, paused or parked)
+export function getActiveLoopIds(): string[] {
+  return [...new Set([...iterationStates.keys(), ...processes.keys()])];
+}
+
+/**
+ * Suspend every active loop for shutdown, leaving each one paused from a
+ * previous session so resumePausedLoop can pick it up on the next launch.
+ * With wait, running loops first finish their current iteration (soft pause);
+ * anything still running afterwards (or everything, without wait) is
+ * interrupted and resumes from its last completed iteration.
+ * Returns the number of loops suspended.
+ */
+export async function suspendAllLoops(options: { wait: boolean }): Promise<number> {
+  const loopIds = getActiveLoopIds();
+
+  if (options.wait) {
+    const state = loadState();
+    for (const loopId of loopIds) {
+      const loop = state.loops.find(l => l.id === loopId);
+      if (loop?.status === 'running' && !loop.pauseRequested) {
+        pauseLoopAfterIteration(loopId);
+      }
+    }
+
+    // Wait until each loop is parked or has finished on its own
+    const isSettled = (): boolean => loopIds.every(id => {
+      if (parkedLoops.has(id) || !iterationStates.has(id)) return true;
+      // Hard-paused agents can't finish their iteration - interrupt those below
+      return loadState().loops.find(l => l.id === id)?.status === 'paused';
+    });
+    await new Promise<void>((resolve) => {
+      const check = (): void => {
+        if (isSettled()) {
+          loopEvents.off('event', check);
+          resolve();
+        }
+      };
+      loopEvents.on('event', check);
+      check();
+    });
+  }
+
+  // Mark the loops paused under the state lock; processes are killed and
+  // logs written once it's released
+  const suspended: { loopId: string; wasParked: boolean; iteration: number }[] = [];
+  mutateState(current => {
+    let state = current;
+    suspended.length = 0;
+
+    for (const loopId of loopIds) {
+      const loop = state.loops.find(l => l.id === loopId);
+      if (!loop || (loop.status !== 'running' && loop.status !== 'paused')) {
+        continue;
+      }
+
+      const iterState = iterationStates.get(loopId);
+      const wasParked = parkedLoops.has(loopId);
+      const sessionId = wasParked ? loop.pausedSessionId : iterState?.sessionId ?? loop.pausedSessionId;
+
+      state = updateLoop(state, loopId, {
+        status: 'paused',
+        pauseRequested: undefined,
+        pausedAt: loop.pausedAt ?? new Date().toISOString(),
+        pausedSessionId: sessionId,
+        pausedFromPreviousSession: true,
+      });
+      suspended.push({
+        loopId,
+        wasParked,
+        iteration: wasParked ? iterState?.iteration ?? loop.iteration ?? 0 : loop.iteration ?? 0,
+      });
+    }
+
+    return state;
+  });
+
+  for (const { loopId, wasParked, iteration } of suspended) {
+    // Before the kill, so the iteration loop exits without finalizing
+    suspendedLoops.add(loopId);
+
+    const proc = processes.get(loopId);
+    if (proc?.pid) {
+      try {
+        process.kill(proc.pid, 'SIGKILL');
+      } catch {
+        // Process already dead
+      }
+    }
+
+    appendLog(loopId, {
+      type: 'system',
+      content: wasParked
+        ? `Suspended for shutdown after iteration ${iteration}`
+        : `Interrupted for shutdown - will resume from iteration ${iteration}`,
+    });
+  }
+  return suspended.length;
+}
+
 // Kill all running processes (for cleanup)
 export function killAll(): void {
   for (const [loopId, proc] of processes) {
@@ -1032,6 +2016,11 @@ export function killAll(): void {
   iterationStates.clear();
   criterionBuffers.clear();
   pendingInterventions.clear();
+  parkedLoops.clear();
+  for (const timer of iterationTimers.values()) {
+    if (timer.timeoutId) clearTimeout(timer.timeoutId);
+  }
+  iterationTimers.clear();
 }
 
 /**
@@ -1039,22 +2028,81 @@ export function killAll(): void {
  * Call this on TUI startup to detect paused loops that lost their process.
  */
 export function markOrphanedPausedLoops(): number {
-  let state = loadState();
   let orphanCount = 0;
 
-  for (const loop of state.loops) {
-    if (loop.status === 'paused' && !processes.has(loop.id)) {
-      // This loop was paused but has no active process - it's from a previous session
-      if (!loop.pausedFromPreviousSession) {
-        state = updateLoop(state, loop.id, { pausedFromPreviousSession: true });
-        orphanCount++;
+  mutateState(current => {
+    let state = current;
+    for (const loop of state.loops) {
+      if (loop.status === 'paused' && !processes.has(loop.id) && !parkedLoops.has(loop.id)) {
+        // This loop was paused but has no active process - it's from a previous session
+        if (!loop.pausedFromPreviousSession) {
+          state = updateLoop(state, loop.id, { pausedFromPreviousSession: true });
+          orphanCount++;
+        }
       }
     }
-  }
+    return state;
+  });
 
-  if (orphanCount > 0) {
-    saveState(state);
-  }
+  return orphanCount;
+}
+
+/**
+ * Mark stale running loops (no process, no live owner) as paused from a previous session.
+ * Call this on TUI startup to detect loops left running by a crash or restart;
+ * they resume from their last checkpointed iteration via resumePausedLoop.
+ * Loops claimed for a start that never got going (no checkpoint) go back to
+ * the queue.
+ */
+export function markOrphanedRunningLoops(): number {
+  let orphanCount = 0;
+
+  mutateState(current => {
+    let state = current;
+    for (const loop of state.loops) {
+      if (loop.status !== 'running' || processes.has(loop.id) || iterationStates.has(loop.id)) {
+        continue;
+      }
+
+      // Still driven by another live alex process (e.g. a headless run)
+      const recovery = loadRecoveryState(loop.id);
+      if (recovery && recovery.ownerPid !== process.pid && isProcessAlive(recovery.ownerPid)) {
+        continue;
+      }
+
+      if (!recovery) {
+        // Still being started by another live alex process
+        if (loop.startingPid && loop.startingPid !== process.pid && isProcessAlive(loop.startingPid)) {
+          continue;
+        }
+        state = updateLoop(state, loop.id, { status: 'queued', startingPid: undefined });
+        appendLog(loop.id, {
+          type: 'system',
+          content: 'Stale running loop detected (never started, no owner) - back in the queue',
+        });
+        orphanCount++;
+        continue;
+      }
+
+      const iteration = recovery?.iterState.iteration ?? loop.iteration ?? 0;
+      state = updateLoop(state, loop.id, {
+        status: 'paused',
+        iteration,
+        pausedAt: new Date().toISOString(),
+        pausedSessionId: recovery?.iterState.sessionId,
+        pausedFromPreviousSession: true,
+        pauseRequested: undefined,
+        recoveredFromCrash: true,
+        startingPid: undefined,
+      });
+      appendLog(loop.id, {
+        type: 'system',
+        content: `Stale running loop detected (no process) - paused for resume from iteration ${iteration}`,
+      });
+      orphanCount++;
+    }
+    return state;
+  });
 
   return orphanCount;
 }
@@ -1063,32 +2111,34 @@ export function markOrphanedPausedLoops(): number {
  * Discard a paused loop (remove it from state).
  */
 export function discardPausedLoop(loopId: string): void {
-  let state = loadState();
-  const loop = state.loops.find(l => l.id === loopId);
+  mutateState(state => {
+    const loop = state.loops.find(l => l.id === loopId);
 
-  if (!loop) {
-    throw new Error(`Loop not found: ${loopId}`);
-  }
+    if (!loop) {
+      throw new Error(`Loop not found: ${loopId}`);
+    }
 
-  if (loop.status !== 'paused') {
-    throw new Error(`Can only discard paused loops (status: ${loop.status})`);
-  }
+    if (loop.status !== 'paused') {
+      throw new Error(`Can only discard paused loops (status: ${loop.status})`);
+    }
 
-  // Remove from state
-  state = {
-    ...state,
-    loops: state.loops.filter(l => l.id !== loopId),
-  };
-  saveState(state);
+    // Remove from state
+    return {
+      ...state,
+      loops: state.loops.filter(l => l.id !== loopId),
+    };
+  });
+  clearRecoveryState(loopId);
 
   appendLog(loopId, { type: 'system', content: 'Loop discarded by user' });
 }
 
 /**
- * Check if a paused loop can be resumed in the current session (has active process).
+ * Check if a paused loop can be resumed in the current session
+ * (stopped process, or parked at an iteration boundary).
  */
 export function canResumeInSession(loopId: string): boolean {
-  return processes.has(loopId);
+  return processes.has(loopId) || parkedLoops.has(loopId);
 }
 
 /**
@@ -1161,8 +2211,7 @@ export async function createReviewLoop(
 
   // Link review to original loop
   state = loadState();
-  state = updateLoop(state, originalLoopId, { reviewLoopId: reviewLoop.id });
-  saveState(state);
+  state = saveLoopUpdates(originalLoopId, { reviewLoopId: reviewLoop.id });
 
   appendLog(originalLoopId, {
     type: 'system',
@@ -1218,6 +2267,7 @@ export async function createFollowUpFromReview(
     {
       parentLoopId: originalLoop.id,
       useWorktree: false, // Continue in original's worktree
+      policy: originalLoop.policy,
     }
   );
 
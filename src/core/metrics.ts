@@ -1,4 +1,5 @@
 import { Loop, AcceptanceCriterion } from './types.js';
+import { getBudgetTokens } from './usage.js';
 
 // =============================================================================
 // TYPES
@@ -59,6 +60,24 @@ export interface CriteriaStats {
   completionRate: number; // 0-100
 }
 
+export interface AgentCost {
+  agent: string;
+  loops: number;          // loops the agent ran with usage reported
+  tokens: number;         // input + output + cache writes
+  costUsd: number;
+  unpriced: number;       // runs with no price for their model
+}
+
+export interface CostStats {
+  totalCostUsd: number;
+  totalTokens: number;
+  completedLoops: number;       // completed loops with usage reported
+  avgCostPerCompletedUsd: number;
+  // All spend divided by completed loops - what a finished issue really costs
+  // once failed and stopped attempts are paid for too
+  effectiveCostPerCompletedUsd: number;
+}
+
 export interface HourlyActivity {
   hour: number;           // 0-23
   count: number;
@@ -75,6 +94,8 @@ export interface DashboardMetrics {
   circuitBreakerStats: CircuitBreakerStats;
   criteriaStats: CriteriaStats;
   hourlyActivity: HourlyActivity[];
+  costPerAgent: AgentCost[];
+  costStats: CostStats;
   computedAt: string;
 }
 
@@ -134,21 +155,48 @@ export function calculateSummary(loops: Loop[]): MetricsSummary {
   };
 }
 
+/**
+ * Iterations each agent ran for a loop. Loops from before per-agent tracking
+ * attribute all of their iterations to the loop's agent.
+ */
+export function getAgentIterations(loop: Loop): Record<string, number> {
+  if (loop.agentIterations) return loop.agentIterations;
+  return loop.iteration !== undefined ? { [loop.agent]: loop.iteration } : {};
+}
+
+/**
+ * Per-agent metrics. With fallback handoffs a loop counts for every agent that
+ * ran it: iterations go to the agent that ran them, the outcome to the agent
+ * that finished the loop, and a handoff counts as a failure for the agent
+ * that handed off.
+ */
 export function calculateAgentMetrics(loops: Loop[]): AgentMetrics[] {
-  const byAgent = new Map<string, Loop[]>();
+  const byAgent = new Map<string, { loops: Loop[]; iterations: number[] }>();
 
   for (const loop of loops) {
-    const existing = byAgent.get(loop.agent) || [];
-    existing.push(loop);
-    byAgent.set(loop.agent, existing);
+    const iterationsByAgent = getAgentIterations(loop);
+    const handedOffFrom = (loop.handoffs ?? []).map(h => h.from);
+    const agents = new Set([loop.agent, ...handedOffFrom, ...Object.keys(iterationsByAgent)]);
+    for (const agent of agents) {
+      const existing = byAgent.get(agent) || { loops: [], iterations: [] };
+      existing.loops.push(loop);
+      if (iterationsByAgent[agent] !== undefined) {
+        existing.iterations.push(iterationsByAgent[agent]);
+      }
+      byAgent.set(agent, existing);
+    }
   }
 
   const results: AgentMetrics[] = [];
 
-  for (const [agent, agentLoops] of byAgent) {
-    const completed = agentLoops.filter(l => l.status === 'completed').length;
-    const failed = agentLoops.filter(l => l.status === 'error').length;
-    const finishedLoops = agentLoops.filter(l => l.status === 'completed' || l.status === 'error');
+  for (const [agent, { loops: agentLoops, iterations }] of byAgent) {
+    // Loops this agent finished
+    const finishedLoops = agentLoops.filter(l =>
+      l.agent === agent && (l.status === 'completed' || l.status === 'error')
+    );
+    const completed = finishedLoops.filter(l => l.status === 'completed').length;
+    const handoffs = agentLoops.filter(l => l.agent !== agent && l.handoffs?.some(h => h.from === agent)).length;
+    const failed = finishedLoops.length - completed + handoffs;
 
     // Calculate avg duration
     const durations = finishedLoops
@@ -159,9 +207,6 @@ export function calculateAgentMetrics(loops: Loop[]): AgentMetrics[] {
       : 0;
 
     // Calculate avg iterations
-    const iterations = agentLoops
-      .filter(l => l.iteration !== undefined)
-      .map(l => l.iteration!);
     const avgIterations = iterations.length > 0
       ? iterations.reduce((a, b) => a + b, 0) / iterations.length
       : 0;
@@ -171,7 +216,7 @@ export function calculateAgentMetrics(loops: Loop[]): AgentMetrics[] {
       loopsRun: agentLoops.length,
       completed,
       failed,
-      successRate: finishedLoops.length > 0 ? (completed / finishedLoops.length) * 100 : 0,
+      successRate: completed + failed > 0 ? (completed / (completed + failed)) * 100 : 0,
       avgDurationMs,
       avgIterations,
     });
@@ -343,6 +388,42 @@ export function calculateHourlyActivity(loops: Loop[]): HourlyActivity[] {
   return hours.map((count, hour) => ({ hour, count }));
 }
 
+/**
+ * Spend per agent, from each loop's per-agent usage (fallback handoffs split
+ * a loop's cost between its agents). Sorted by cost, highest first.
+ */
+export function calculateCostPerAgent(loops: Loop[]): AgentCost[] {
+  const byAgent = new Map<string, AgentCost>();
+
+  for (const loop of loops) {
+    for (const [agent, usage] of Object.entries(loop.usage?.byAgent ?? {})) {
+      const existing = byAgent.get(agent) || { agent, loops: 0, tokens: 0, costUsd: 0, unpriced: 0 };
+      existing.loops++;
+      existing.tokens += getBudgetTokens(usage);
+      existing.costUsd += usage.costUsd;
+      existing.unpriced += usage.unpriced;
+      byAgent.set(agent, existing);
+    }
+  }
+
+  return Array.from(byAgent.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+export function calculateCostStats(loops: Loop[]): CostStats {
+  const withUsage = loops.filter(l => l.usage);
+  const completed = withUsage.filter(l => l.status === 'completed');
+  const totalCostUsd = withUsage.reduce((sum, l) => sum + l.usage!.costUsd, 0);
+  const completedCostUsd = completed.reduce((sum, l) => sum + l.usage!.costUsd, 0);
+
+  return {
+    totalCostUsd,
+    totalTokens: withUsage.reduce((sum, l) => sum + getBudgetTokens(l.usage!), 0),
+    completedLoops: completed.length,
+    avgCostPerCompletedUsd: completed.length > 0 ? completedCostUsd / completed.length : 0,
+    effectiveCostPerCompletedUsd: completed.length > 0 ? totalCostUsd / completed.length : 0,
+  };
+}
+
 // =============================================================================
 // MAIN CALCULATION
 // =============================================================================
@@ -368,6 +449,8 @@ export function calculateMetrics(
     circuitBreakerStats: calculateCircuitBreakerStats(filteredLoops),
     criteriaStats: calculateCriteriaStats(filteredLoops),
     hourlyActivity: calculateHourlyActivity(filteredLoops),
+    costPerAgent: calculateCostPerAgent(filteredLoops),
+    costStats: calculateCostStats(filteredLoops),
     computedAt: new Date().toISOString(),
   };
 }
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { RunPolicy } from './types.js';
+import {
+  ITERATION_TIMEOUT_MS,
+  CB_NO_PROGRESS_THRESHOLD,
+  CB_SAME_ERROR_THRESHOLD,
+  CB_OUTPUT_DECLINE_THRESHOLD,
+  CB_CONSECUTIVE_TEST_THRESHOLD,
+  RATE_LIMIT_CALLS_PER_HOUR,
+  FALLBACK_FAILED_EXIT_THRESHOLD,
+  BUDGET_MAX_COST_USD,
+  BUDGET_MAX_TOKENS,
+  TEST_COMMAND,
+  USER_RUN_POLICY,
+} from '../config.js';
+
+/**
+ * Run policies: per-loop overrides of iteration timeout, circuit breaker
+ * thresholds, rate limit, the fallback trigger, budget caps and the test
+ * command. Layered,
+ * later wins:
+ *   built-in defaults < ~/.alex/config.yaml `policy` < {repo}/.alex/policy.yaml
+ *   < new-loop modal / CLI flags
+ * Repo and explicit overrides are stored on the loop at creation time; the
+ * global layers are applied when the loop runs.
+ */
+
+export const REPO_POLICY_FILE = path.join('.alex', 'policy.yaml');
+
+// Policy fields that hold numbers (testCommand is the only string)
+export type NumericPolicyKey = Exclude<keyof RunPolicy, 'testCommand'>;
+
+const POLICY_KEYS: NumericPolicyKey[] = [
+  'iterationTimeoutMs',
+  'noProgressThreshold',
+  'sameErrorThreshold',
+  'outputDeclineThreshold',
+  'testOnlyThreshold',
+  'callsPerHour',
+  'failedExitThreshold',
+  'maxCostUsd',
+  'maxTokens',
+];
+
+// Budget caps where 0 means "no cap" - kept so it overrides a lower layer's cap
+export const UNCAPPED_POLICY_KEYS: ReadonlySet<NumericPolicyKey> = new Set(['maxCostUsd', 'maxTokens']);
+
+/**
+ * Keep only valid policy fields (positive numbers, or 0 for the budget
+ * caps; the output decline threshold is a fraction up to 1; a non-blank
+ * test command). Unknown or invalid fields are dropped.
+ */
+export function sanitizeRunPolicy(raw: unknown): RunPolicy {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const policy: RunPolicy = {};
+  for (const key of POLICY_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) continue;
+    if (value === 0 && !UNCAPPED_POLICY_KEYS.has(key)) continue;
+    if (key === 'outputDeclineThreshold' && value > 1) continue;
+    policy[key] = value;
+  }
+  const testCommand = (raw as Record<string, unknown>).testCommand;
+  if (typeof testCommand === 'string' && testCommand.trim()) {
+    policy.testCommand = testCommand.trim();
+  }
+  return policy;
+}
+
+/**
+ * Built-in defaults with ~/.alex/config.yaml `policy` applied.
+ */
+export function getDefaultRunPolicy(): Required<RunPolicy> {
+  return {
+    iterationTimeoutMs: ITERATION_TIMEOUT_MS,
+    noProgressThreshold: CB_NO_PROGRESS_THRESHOLD,
+    sameErrorThreshold: CB_SAME_ERROR_THRESHOLD,
+    outputDeclineThreshold: CB_OUTPUT_DECLINE_THRESHOLD,
+    testOnlyThreshold: CB_CONSECUTIVE_TEST_THRESHOLD,
+    callsPerHour: RATE_LIMIT_CALLS_PER_HOUR,
+    failedExitThreshold: FALLBACK_FAILED_EXIT_THRESHOLD,
+    maxCostUsd: BUDGET_MAX_COST_USD,
+    maxTokens: BUDGET_MAX_TOKENS,
+    testCommand: TEST_COMMAND,
+    ...sanitizeRunPolicy(USER_RUN_POLICY),
+  };
+}
+
+/**
+ * Load per-repo policy defaults from {repoRoot}/.alex/policy.yaml. An
+ * unreadable file gives no defaults and an error for the caller to report.
+ */
+export function loadRepoPolicy(repoRoot: string): { policy: RunPolicy; error?: string } {
+  const policyPath = path.join(repoRoot, REPO_POLICY_FILE);
+  if (!fs.existsSync(policyPath)) {
+    return { policy: {} };
+  }
+
+  try {
+    return { policy: sanitizeRunPolicy(parseYaml(fs.readFileSync(policyPath, 'utf-8'))) };
+  } catch (err) {
+    return { policy: {}, error: `Failed to load ${policyPath}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+/**
+ * Resolve the effective policy for a loop.
+ */
+export function resolveRunPolicy(policy?: RunPolicy): Required<RunPolicy> {
+  return { ...getDefaultRunPolicy(), ...sanitizeRunPolicy(policy) };
+}
+
+/**
+ * Format a resolved policy for the loop log.
+ */
+export function formatRunPolicy(policy: Required<RunPolicy>): string {
+  return [
+    `timeout=${Math.round(policy.iterationTimeoutMs / 1000)}s`,
+    `no_progress=${policy.noProgressThreshold}`,
+    `same_error=${policy.sameErrorThreshold}`,
+    `output_decline=${Math.round(policy.outputDeclineThreshold * 100)}%`,
+    `test_only=${policy.testOnlyThreshold}`,
+    `calls_per_hour=${policy.callsPerHour}`,
+    `failed_exits=${policy.failedExitThreshold}`,
+    `max_cost=${policy.maxCostUsd > 0 ? `$${policy.maxCostUsd}` : 'none'}`,
+    `max_tokens=${policy.maxTokens > 0 ? policy.maxTokens : 'none'}`,
+    `tests=${policy.testCommand ? `\`${policy.testCommand}\`` : 'none'}`,
+  ].join(', ');
+}
@@ -0,0 +1,61 @@
+import { describe, test, expect } from 'bun:test';
+import { Loop } from './types.js';
+import { sanitizeProgressCommentPolicy, buildProgressComment, DEFAULT_PROGRESS_COMMENT_POLICY } from './progressComments.js';
+
+function makeLoop(overrides: Partial<Loop> = {}): Loop {
+  return {
+    id: 'abc123',
+    agent: 'claude',
+    status: 'running',
+    skipPermissions: true,
+    workingDir: '/tmp/repo',
+    iteration: 2,
+    maxIterations: 20,
+    issue: {
+      url: 'https://github.com/acme/app/issues/7',
+      number: 7,
+      title: 'Add parser',
+      body: '',
+      repo: 'acme/app',
+      acceptanceCriteria: [
+        { text: 'Parses input', completed: true, completedBy: 'agent' },
+        { text: 'Handles errors', completed: false },
+        { text: 'Old flag kept', completed: false, removed: true },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('sanitizeProgressCommentPolicy', () => {
+  test('is off unless milestones are enabled', () => {
+    expect(sanitizeProgressCommentPolicy(undefined)).toEqual(DEFAULT_PROGRESS_COMMENT_POLICY);
+    expect(sanitizeProgressCommentPolicy({ start: 'yes', complete: true })).toEqual({
+      ...DEFAULT_PROGRESS_COMMENT_POLICY,
+      complete: true,
+    });
+  });
+});
+
+describe('buildProgressComment', () => {
+  test('shows the agent, branch, status and criteria progress', () => {
+    const body = buildProgressComment(makeLoop(), 'alex-abc123');
+    expect(body).toContain('loop `abc123` (claude) on branch `alex-abc123`');
+    expect(body).toContain('**Status:** Running - iteration 2 of 20');
+    expect(body).toContain('**Acceptance criteria (1/2)**\n\n- [x] Parses input\n- [ ] Handles errors');
+    expect(body).not.toContain('Old flag kept');
+  });
+
+  test('gives the halt reason when the circuit breaker stops the loop', () => {
+    const loop = makeLoop({ status: 'error', exitReason: 'circuit_breaker', error: 'No progress for 3 iterations' });
+    expect(buildProgressComment(loop, null)).toContain('**Status:** Halted by the circuit breaker: No progress for 3 iterations');
+  });
+
+  test('adds the summary and pull request once completed', () => {
+    const loop = makeLoop({ status: 'completed', iteration: 4, pullRequestUrl: 'https://github.com/acme/app/pull/8' });
+    const body = buildProgressComment(loop, 'alex-abc123', 'Iterations completed: 4');
+    expect(body).toContain('**Status:** Completed after 4 iterations');
+    expect(body).toContain('<summary>Summary</summary>\n\nIterations completed: 4');
+    expect(body).toContain('Pull request: https://github.com/acme/app/pull/8');
+  });
+});
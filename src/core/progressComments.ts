@@ -0,0 +1,201 @@
+import { Loop, LoopEvent } from './types.js';
+import { loadState, saveLoopUpdates } from './state.js';
+import { appendLog, generateResumeSummary } from './logs.js';
+import { getCurrentBranch } from './worktree.js';
+import { loopEvents } from './loops.js';
+import { commentOnIssue, editIssueComment } from './providers/index.js';
+import { PROGRESS_COMMENTS } from '../config.js';
+
+/**
+ * Progress comments: one comment per loop on its issue, posted at the first
+ * milestone the policy enables and edited in place at later ones - start
+ * (agent, branch), criterion completions, a circuit breaker halt (with the
+ * reason) and completion (with a summary of the work). Driven by the
+ * LoopEvent stream of the process running the loops.
+ */
+
+export interface ProgressCommentPolicy {
+  start: boolean;
+  criteria: boolean;          // each change in the number of completed criteria
+  circuitBreaker: boolean;
+  complete: boolean;
+}
+
+export const DEFAULT_PROGRESS_COMMENT_POLICY: ProgressCommentPolicy = {
+  start: false,
+  criteria: false,
+  circuitBreaker: false,
+  complete: false,
+};
+
+// Summary shown in the completion comment
+const SUMMARY_MAX_CHARS = 1500;
+
+// Comment updates in flight, by loop ID - chained so edits follow the post
+const pendingComments: Map<string, Promise<void>> = new Map();
+
+// Completed criteria count last put in each loop's comment
+const commentedCounts: Map<string, number> = new Map();
+
+/**
+ * Validate the `progressComments` section of config.yaml; invalid fields
+ * fall back to the defaults (off).
+ */
+export function sanitizeProgressCommentPolicy(raw: unknown): ProgressCommentPolicy {
+  const section = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const policy = { ...DEFAULT_PROGRESS_COMMENT_POLICY };
+
+  for (const key of Object.keys(policy) as (keyof ProgressCommentPolicy)[]) {
+    if (typeof section[key] === 'boolean') {
+      policy[key] = section[key] as boolean;
+    }
+  }
+  return policy;
+}
+
+export function loadProgressCommentPolicy(): ProgressCommentPolicy {
+  return sanitizeProgressCommentPolicy(PROGRESS_COMMENTS);
+}
+
+function describeStatus(loop: Loop): string {
+  const iterations = loop.iteration ?? 0;
+  switch (loop.status) {
+    case 'completed':
+      return `Completed after ${iterations} iteration${iterations === 1 ? '' : 's'}`;
+    case 'error':
+      return loop.exitReason === 'circuit_breaker'
+        ? `Halted by the circuit breaker: ${loop.error ?? 'no progress'}`
+        : `Failed: ${loop.error ?? loop.exitReason ?? 'unknown error'}`;
+    case 'stopped':
+      return 'Stopped';
+    case 'paused':
+      return 'Paused';
+    default:
+      if (iterations === 0) return 'Starting';
+      return `Running - iteration ${iterations}${loop.maxIterations ? ` of ${loop.maxIterations}` : ''}`;
+  }
+}
+
+/**
+ * Body of a loop's progress comment as things stand. `summary` is added
+ * once the loop completes.
+ */
+export function buildProgressComment(loop: Loop, branch: string | null, summary?: string): string {
+  const sections: string[] = [];
+
+  const where = branch ? ` on branch \`${branch}\`` : '';
+  sections.push(`**alex** is working on this issue: loop \`${loop.id}\` (${loop.agent})${where}.\n\n**Status:** ${describeStatus(loop)}`);
+
+  const criteria = loop.issue.acceptanceCriteria.filter(c => !c.removed);
+  if (criteria.length > 0) {
+    const done = criteria.filter(c => c.completed).length;
+    const checklist = criteria.map(c => `- [${c.completed ? 'x' : ' '}] ${c.text}`).join('\n');
+    sections.push(`**Acceptance criteria (${done}/${criteria.length})**\n\n${checklist}`);
+  }
+
+  if (summary) {
+    sections.push(`<details>\n<summary>Summary</summary>\n\n${summary}\n\n</details>`);
+  }
+  if (loop.pullRequestUrl) {
+    sections.push(`Pull request: ${loop.pullRequestUrl}`);
+  }
+
+  sections.push('_This comment is updated as the loop progresses._');
+  return sections.join('\n\n');
+}
+
+// Loops whose issue takes progress comments
+function isCommentable(loop: Loop): boolean {
+  return !loop.isReviewLoop && !loop.issue.pullRequest && loop.issue.provider !== 'file';
+}
+
+/**
+ * Post a loop's progress comment, or edit it if it was posted before.
+ */
+export async function updateProgressComment(loopId: string): Promise<void> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop || !isCommentable(loop)) return;
+
+  const branch = loop.worktreeBranch ?? getCurrentBranch(loop.workingDir);
+  const summary = loop.status === 'completed' ? generateResumeSummary(loopId, SUMMARY_MAX_CHARS) : undefined;
+  const body = buildProgressComment(loop, branch, summary);
+  commentedCounts.set(loopId, loop.issue.acceptanceCriteria.filter(c => c.completed).length);
+
+  if (loop.progressCommentId) {
+    await editIssueComment(loop.issue.url, loop.progressCommentId, body);
+    return;
+  }
+
+  const progressCommentId = await commentOnIssue(loop.issue.url, body);
+  saveLoopUpdates(loopId, { progressCommentId });
+  appendLog(loopId, { type: 'system', content: 'Posted a progress comment on the issue' });
+}
+
+function queueProgressComment(loopId: string): void {
+  const previous = pendingComments.get(loopId) ?? Promise.resolve();
+  const next = previous
+    .then(() => updateProgressComment(loopId))
+    .catch((err: Error) => {
+      appendLog(loopId, { type: 'error', content: `Progress comment not updated: ${err.message}` });
+    })
+    .finally(() => {
+      if (pendingComments.get(loopId) === next) pendingComments.delete(loopId);
+    });
+  pendingComments.set(loopId, next);
+}
+
+/**
+ * Keep progress comments up to date at the milestones the policy enables.
+ * Once a loop has a comment, other ends (stopped, failed, agent handoffs)
+ * update it too, so it never reads "Running" after the fact. Returns a
+ * function that detaches the listener.
+ */
+export function startProgressComments(policy: ProgressCommentPolicy = loadProgressCommentPolicy()): () => void {
+  const onEvent = (event: LoopEvent): void => {
+    const loop = loadState().loops.find(l => l.id === event.loopId);
+    if (!loop) return;
+
+    let milestone = false;
+    switch (event.type) {
+      case 'started':
+        milestone = policy.start;
+        if (!milestone) {
+          commentedCounts.set(loop.id, loop.issue.acceptanceCriteria.filter(c => c.completed).length);
+        }
+        break;
+      case 'criteria': {
+        const done = loop.issue.acceptanceCriteria.filter(c => c.completed).length;
+        if (done === commentedCounts.get(loop.id)) return;
+        milestone = policy.criteria;
+        break;
+      }
+      case 'error':
+        milestone = policy.circuitBreaker && loop.exitReason === 'circuit_breaker';
+        break;
+      case 'completed':
+        milestone = policy.complete;
+        break;
+      case 'stopped':
+      case 'handoff':
+        break;
+      default:
+        return;
+    }
+
+    if (milestone || loop.progressCommentId || pendingComments.has(loop.id)) {
+      queueProgressComment(loop.id);
+    }
+  };
+
+  loopEvents.on('event', onEvent);
+  return () => {
+    loopEvents.off('event', onEvent);
+  };
+}
+
+/**
+ * Wait for progress comment updates in flight (before exiting).
+ */
+export async function flushProgressComments(): Promise<void> {
+  await Promise.all([...pendingComments.values()]);
+}
@@ -0,0 +1,93 @@
+import { Issue } from '../types.js';
+
+export type CloseIssueResult = 'closed' | 'already_closed';
+
+export interface FetchIssueOptions {
+  linkedIssues?: boolean;   // look up linked issues (default true) - only the prompt needs them
+}
+
+// Issue tracker backend (GitHub, GitLab, Jira), chosen by the issue URL
+export interface IssueProvider {
+  name: string;             // stored on Issue.provider
+
+  // Human-readable name for prompts and messages
+  displayName: string;
+
+  // Parse an issue URL this provider handles (null if it isn't one)
+  parseUrl(url: string): { repo: string; number: number } | null;
+
+  // Fetch an issue with its acceptance criteria parsed from the body
+  fetchIssue(url: string, options?: FetchIssueOptions): Promise<Issue>;
+
+  // Replace the issue body (criteria edits are written back)
+  updateIssueBody(url: string, body: string): Promise<void>;
+
+  // Close the issue, with an optional closing comment
+  closeIssue(url: string, comment?: string): Promise<CloseIssueResult>;
+
+  // Add a comment to the issue; resolves with the comment's ID
+  addComment(url: string, body: string): Promise<string>;
+
+  // Replace the body of a comment added with addComment
+  editComment(url: string, commentId: string, body: string): Promise<void>;
+}
+
+// Timeout for tracker API requests
+export const PROVIDER_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * JSON request to a tracker's REST API. Failures become
+ * "Failed to <action>: HTTP <status> <message>".
+ */
+export async function requestJson<T = any>(
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: unknown },
+  action: string
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method ?? 'GET',
+      headers: {
+        Accept: 'application/json',
+        ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...init.headers,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS),
+    });
+  } catch (err) {
+    throw new Error(`Failed to ${action}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    let message = text.trim();
+    try {
+      const data = JSON.parse(text);
+      // GitLab: { message | error }, Jira: { errorMessages: [], errors: {} }
+      message = data.message ?? data.error ?? data.errorMessages?.[0] ?? Object.values(data.errors ?? {})[0] ?? message;
+    } catch {
+      // Not JSON - keep the text
+    }
+    const detail = typeof message === 'string' ? message.split('\n')[0] : JSON.stringify(message);
+    throw new Error(`Failed to ${action}: HTTP ${response.status}${detail ? ` ${detail}` : ''}`);
+  }
+
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+// Token from the config, else from the named environment variable
+export function resolveToken(token: string | undefined, tokenEnv: string): string | undefined {
+  return token || process.env[tokenEnv] || undefined;
+}
+
+// Parse a URL whose host (with port) is one of the configured hosts
+export function matchHost(url: string, hosts: string[]): URL | null {
+  try {
+    const parsed = new URL(url);
+    return hosts.includes(parsed.host) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
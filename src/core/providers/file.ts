@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Issue } from '../types.js';
+import { parseAcceptanceCriteria, applyCriteriaProgressToIssueBody } from '../issues.js';
+import { IssueProvider, CloseIssueResult } from './base.js';
+import { TASK_WRITE_BACK } from '../../config.js';
+
+/**
+ * Local markdown task files as loop sources, e.g. tasks/refactor-auth.md.
+ * The first heading is the title and the whole file the body, so criteria
+ * are parsed the same way as an issue's. The issue URL is the file's
+ * absolute path.
+ */
+
+const TASK_FILE_EXTENSIONS = /\.(?:md|markdown|txt)$/i;
+
+// Whether a loop source looks like a task file rather than a tracker URL
+export function isTaskPath(input: string): boolean {
+  if (input.startsWith('file://')) return true;
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(input)) return false;
+  return TASK_FILE_EXTENSIONS.test(input) || /^(?:\/|\.{1,2}\/|~\/)/.test(input);
+}
+
+/**
+ * Absolute path of a task file: file:// URLs, ~/ paths, and paths relative
+ * to `baseDir` (default: the current directory).
+ */
+export function resolveTaskPath(input: string, baseDir: string = process.cwd()): string {
+  if (input.startsWith('file://')) return fileURLToPath(input);
+  if (input.startsWith('~/')) return path.join(os.homedir(), input.slice(2));
+  return path.resolve(baseDir, input);
+}
+
+// Title of a task file: its first heading, else the file name
+export function getTaskTitle(content: string, filePath: string): string {
+  const heading = content.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+  return heading?.[1] ?? path.basename(filePath).replace(TASK_FILE_EXTENSIONS, '');
+}
+
+/**
+ * Write a task issue's criteria progress back into its file.
+ * Returns false if nothing changed.
+ */
+export function writeTaskProgress(issue: Issue): boolean {
+  const content = fs.readFileSync(issue.url, 'utf-8');
+  const updated = applyCriteriaProgressToIssueBody(content, issue.acceptanceCriteria.filter(c => !c.removed));
+  if (updated === content) return false;
+  fs.writeFileSync(issue.url, updated);
+  return true;
+}
+
+/**
+ * Keep a task file's checkboxes in step with its loop's criteria, unless
+ * `tasks.writeBack` is off. Other issues are left alone.
+ */
+export function syncTaskProgress(issue: Issue): boolean {
+  if (issue.provider !== 'file' || !TASK_WRITE_BACK) return false;
+  return writeTaskProgress(issue);
+}
+
+export function createFileProvider(): IssueProvider {
+  return {
+    name: 'file',
+    displayName: 'Task file',
+
+    parseUrl(url) {
+      if (!isTaskPath(url)) return null;
+      const filePath = resolveTaskPath(url);
+      return { repo: path.dirname(filePath), number: 0 };
+    },
+
+    async fetchIssue(url): Promise<Issue> {
+      const filePath = resolveTaskPath(url);
+      let content: string;
+      try {
+        content = fs.readFileSync(filePath, 'utf-8');
+      } catch (err) {
+        throw new Error(`Failed to read task file: ${err instanceof Error ? err.message : String(err)}`);
+      }
+
+      const acceptanceCriteria = parseAcceptanceCriteria(content);
+      return {
+        url: filePath,
+        number: 0,
+        title: getTaskTitle(content, filePath),
+        body: content,
+        repo: path.dirname(filePath),
+        provider: 'file',
+        acceptanceCriteria,
+        originalAcceptanceCriteria: acceptanceCriteria.map(criterion => ({ ...criterion })),
+      };
+    },
+
+    // Left alone with tasks.writeBack off, like checkbox progress
+    async updateIssueBody(url, body) {
+      if (!TASK_WRITE_BACK) return;
+      const filePath = resolveTaskPath(url);
+      if (fs.readFileSync(filePath, 'utf-8') !== body) {
+        fs.writeFileSync(filePath, body);
+      }
+    },
+
+    async closeIssue(): Promise<CloseIssueResult> {
+      throw new Error('Task files have no issue to close');
+    },
+
+    async addComment() {
+      throw new Error('Task files don\'t take comments');
+    },
+
+    async editComment() {
+      throw new Error('Task files don\'t take comments');
+    },
+  };
+}
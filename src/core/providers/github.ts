@@ -0,0 +1,270 @@
+import { execFile } from 'child_process';
+import { Issue, IssueComment, LinkedIssue } from '../types.js';
+import { parseAcceptanceCriteria } from '../issues.js';
+import { parsePullRequestUrl, fetchPullRequest } from '../reviewThreads.js';
+import { IssueProvider, CloseIssueResult, FetchIssueOptions } from './base.js';
+
+// Parse a GitHub issue URL
+// Supports: https://github.com/owner/repo/issues/123
+export function parseIssueUrl(url: string): { repo: string; number: number } | null {
+  const match = url.match(/github\.com\/([^/]+\/[^/]+)\/issues\/(\d+)/);
+  if (!match) return null;
+  return {
+    repo: match[1],
+    number: parseInt(match[2], 10),
+  };
+}
+
+// "Failed to <action>: <first line>" for a failed gh run
+function ghError(err: any, stdout: string, stderr: string, action: string): Error {
+  const message = (stderr || stdout || err?.message || '').trim();
+
+  if (err?.code === 'ENOENT' || message.includes('gh: command not found')) {
+    return new Error('GitHub CLI (gh) not found. Install from https://cli.github.com');
+  }
+
+  const firstLine = message.split('\n')[0] || 'Unknown error';
+  return new Error(`Failed to ${action}: ${firstLine}`);
+}
+
+// Run gh without blocking (loops keep running meanwhile), turning failures
+// into "Failed to <action>: <first line>"
+function gh(args: string[], action: string, cwd?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('gh', args, {
+      cwd,
+      encoding: 'utf-8',
+      timeout: 30000,
+      maxBuffer: 10 * 1024 * 1024,
+    }, (err: any, stdout: string, stderr: string) => {
+      if (err) {
+        reject(ghError(err, stdout, stderr, action));
+      } else {
+        resolve(stdout);
+      }
+    });
+    child.stdin?.end();
+  });
+}
+
+// Open issues matching all of the given filters
+export interface IssueQuery {
+  repo?: string;        // owner/name (default: the GitHub repo of the working directory)
+  labels?: string[];
+  milestone?: string;
+  assignee?: string;
+  search?: string;      // GitHub search syntax, e.g. "parser in:title"
+  limit?: number;
+}
+
+const ISSUE_LIST_LIMIT = 50;
+
+export function buildIssueListArgs(query: IssueQuery): string[] {
+  const args = ['issue', 'list', '--state', 'open', '--json', 'number,title,body,url,labels,assignees,comments'];
+  args.push('--limit', String(query.limit ?? ISSUE_LIST_LIMIT));
+  if (query.repo) args.push('--repo', query.repo);
+  for (const label of query.labels ?? []) args.push('--label', label);
+  if (query.milestone) args.push('--milestone', query.milestone);
+  if (query.assignee) args.push('--assignee', query.assignee);
+  if (query.search) args.push('--search', query.search);
+  return args;
+}
+
+// Comments as gh's --json output has them
+function toIssueComments(comments: any[] | undefined): IssueComment[] {
+  return (comments ?? []).map(comment => ({
+    author: comment.author?.login ?? 'ghost',
+    createdAt: comment.createdAt ?? '',
+    body: comment.body ?? '',
+  }));
+}
+
+/**
+ * List open GitHub issues with `gh issue list`, each with its criteria parsed
+ * and its label names. Linked issues are not looked up. `cwd` picks the repo
+ * when the query names none.
+ */
+export async function listIssues(query: IssueQuery, cwd?: string): Promise<{ issue: Issue; labels: string[] }[]> {
+  const output = await gh(buildIssueListArgs(query), 'list issues', cwd);
+  const data: any[] = JSON.parse(output);
+
+  return data.map(item => {
+    const acceptanceCriteria = parseAcceptanceCriteria(item.body || '');
+    const parsed = parseIssueUrl(item.url);
+    const labels: string[] = (item.labels ?? []).map((label: any) => label.name);
+    return {
+      issue: {
+        url: item.url,
+        number: item.number,
+        title: item.title,
+        body: item.body || '',
+        repo: parsed?.repo ?? query.repo ?? '',
+        provider: 'github',
+        acceptanceCriteria,
+        originalAcceptanceCriteria: acceptanceCriteria.map(criterion => ({ ...criterion })),
+        labels,
+        assignees: (item.assignees ?? []).map((assignee: any) => assignee.login),
+        comments: toIssueComments(item.comments),
+      },
+      labels,
+    };
+  });
+}
+
+// Referenced issues looked up for the prompt (one gh call each)
+const MAX_LINKED_ISSUES = 5;
+
+/**
+ * Issues and pull requests referenced in markdown - #12, owner/repo#12 or
+ * a github.com URL - in order, without duplicates or the issue itself.
+ */
+export function findIssueReferences(text: string, repo: string, self: number): { repo: string; number: number }[] {
+  const pattern = /https:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/(?:issues|pull)\/(\d+)|(?:^|[^\w/#&])(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/g;
+  const seen = new Set([`${repo}#${self}`.toLowerCase()]);
+  const references: { repo: string; number: number }[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const reference = { repo: match[1] ?? match[3] ?? repo, number: parseInt(match[2] ?? match[4], 10) };
+    const key = `${reference.repo}#${reference.number}`.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    references.push(reference);
+  }
+  return references;
+}
+
+// Title and state of a referenced issue or PR; just the reference if gh can't tell
+async function describeReference(reference: { repo: string; number: number }, repo: string): Promise<LinkedIssue> {
+  const ref = reference.repo === repo ? `#${reference.number}` : `${reference.repo}#${reference.number}`;
+  try {
+    const data = JSON.parse(await gh(['api', `repos/${reference.repo}/issues/${reference.number}`, '--jq', '{title, state}'], 'fetch linked issue'));
+    return { ref, title: data.title, state: data.state };
+  } catch {
+    return { ref };
+  }
+}
+
+// Swap labels on a GitHub issue
+export async function relabelIssue(url: string, remove: string[], add: string[]): Promise<void> {
+  const args = ['issue', 'edit', url];
+  for (const label of remove) args.push('--remove-label', label);
+  for (const label of add) args.push('--add-label', label);
+  await gh(args, 'relabel issue');
+}
+
+/**
+ * Create a label unless the repo already has it. `cwd` picks the repo when
+ * `repo` is not given.
+ */
+export async function ensureLabel(name: string, description: string, repo?: string, cwd?: string): Promise<void> {
+  const args = ['label', 'create', name, '--description', description];
+  if (repo) args.push('--repo', repo);
+  try {
+    await gh(args, 'create label', cwd);
+  } catch (err: any) {
+    if (!/already exists/i.test(err.message)) throw err;
+  }
+}
+
+// Issues and pull requests share the issue comments API
+function parseCommentTarget(url: string): { repo: string; number: number } {
+  const parsed = parseIssueUrl(url) ?? parsePullRequestUrl(url);
+  if (!parsed) {
+    throw new Error(`Invalid GitHub issue URL: ${url}`);
+  }
+  return parsed;
+}
+
+/**
+ * GitHub through the gh CLI. Pull request URLs yield their unresolved
+ * review threads (see core/reviewThreads.ts).
+ */
+export function createGitHubProvider(): IssueProvider {
+  return {
+    name: 'github',
+    displayName: 'GitHub',
+
+    parseUrl(url) {
+      return parseIssueUrl(url) ?? parsePullRequestUrl(url);
+    },
+
+    async fetchIssue(url, options?: FetchIssueOptions): Promise<Issue> {
+      if (parsePullRequestUrl(url)) {
+        return fetchPullRequest(url);
+      }
+
+      const parsed = parseIssueUrl(url);
+      if (!parsed) {
+        throw new Error(`Invalid GitHub issue URL: ${url}`);
+      }
+
+      const { repo, number } = parsed;
+
+      const result = await gh(
+        ['issue', 'view', String(number), '--repo', repo, '--json', 'title,body,number,url,labels,assignees,comments'],
+        'fetch issue'
+      );
+
+      try {
+        const data = JSON.parse(result);
+        const acceptanceCriteria = parseAcceptanceCriteria(data.body || '');
+        const originalAcceptanceCriteria = acceptanceCriteria.map(criterion => ({ ...criterion }));
+        const comments = toIssueComments(data.comments);
+        const references = options?.linkedIssues === false
+          ? []
+          : findIssueReferences([data.body ?? '', ...comments.map(c => c.body)].join('\n'), repo, data.number);
+        // Looked up side by side - each is a round trip to the API
+        const linkedIssues = await Promise.all(references.slice(0, MAX_LINKED_ISSUES).map(ref => describeReference(ref, repo)));
+
+        return {
+          url: data.url || url,
+          number: data.number,
+          title: data.title,
+          body: data.body || '',
+          repo,
+          provider: 'github',
+          acceptanceCriteria,
+          originalAcceptanceCriteria,
+          labels: (data.labels ?? []).map((label: any) => label.name),
+          assignees: (data.assignees ?? []).map((assignee: any) => assignee.login),
+          comments,
+          linkedIssues: options?.linkedIssues === false ? undefined : linkedIssues,
+        };
+      } catch (err: any) {
+        throw new Error(`Failed to fetch issue: ${err.message}`);
+      }
+    },
+
+    async updateIssueBody(url, body) {
+      await gh(['issue', 'edit', url, '--body', body], 'update issue');
+    },
+
+    async closeIssue(url, comment): Promise<CloseIssueResult> {
+      const args = ['issue', 'close', url];
+      const trimmedComment = comment?.trim();
+      if (trimmedComment) {
+        args.push('--comment', trimmedComment);
+      }
+
+      try {
+        await gh(args, 'close issue');
+        return 'closed';
+      } catch (err: any) {
+        if (/already\s+(?:been\s+)?closed/i.test(err.message)) return 'already_closed';
+        throw err;
+      }
+    },
+
+    async addComment(url, body) {
+      const { repo, number } = parseCommentTarget(url);
+      const id = await gh(['api', `repos/${repo}/issues/${number}/comments`, '-f', `body=${body}`, '--jq', '.id'], 'comment on issue');
+      return id.trim();
+    },
+
+    async editComment(url, commentId, body) {
+      const { repo } = parseCommentTarget(url);
+      await gh(['api', '-X', 'PATCH', `repos/${repo}/issues/comments/${commentId}`, '-f', `body=${body}`, '--silent'], 'edit comment');
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { Issue, IssueComment, LinkedIssue } from '../types.js';
+import { parseAcceptanceCriteria } from '../issues.js';
+import { IssueProvider, CloseIssueResult, requestJson, resolveToken, matchHost } from './base.js';
+
+export interface GitLabProviderConfig {
+  hosts: string[];          // e.g. gitlab.com, gitlab.example.com:8443
+  token?: string;           // personal access token (api scope)
+  tokenEnv: string;         // else read from this environment variable
+}
+
+export const DEFAULT_GITLAB_CONFIG: GitLabProviderConfig = {
+  hosts: ['gitlab.com'],
+  tokenEnv: 'GITLAB_TOKEN',
+};
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  state: 'opened' | 'closed';
+  labels?: string[];
+  assignees?: { username: string }[];
+}
+
+interface GitLabNote {
+  body: string;
+  created_at: string;
+  system: boolean;          // "changed the description" and the like
+  author?: { username: string };
+}
+
+interface GitLabLinkedIssue {
+  title: string;
+  state: string;
+  link_type?: string;       // relates_to, blocks, is_blocked_by
+  references?: { full: string };
+}
+
+/**
+ * GitLab through its REST API (v4), on the host of the issue URL:
+ * https://gitlab.com/group/project/-/issues/12
+ */
+export function createGitLabProvider(config: GitLabProviderConfig = DEFAULT_GITLAB_CONFIG): IssueProvider {
+  // API endpoint and project of an issue URL
+  const locate = (url: string): { api: string; project: string; iid: number } => {
+    const parsed = matchHost(url, config.hosts);
+    const match = parsed?.pathname.match(/^\/(.+?)\/(?:-\/)?issues\/(\d+)/);
+    if (!parsed || !match) {
+      throw new Error(`Invalid GitLab issue URL: ${url}`);
+    }
+    const iid = parseInt(match[2], 10);
+    return {
+      api: `${parsed.origin}/api/v4/projects/${encodeURIComponent(match[1])}/issues/${iid}`,
+      project: match[1],
+      iid,
+    };
+  };
+
+  const headers = (): Record<string, string> => {
+    const token = resolveToken(config.token, config.tokenEnv);
+    return token ? { 'PRIVATE-TOKEN': token } : {};
+  };
+
+  return {
+    name: 'gitlab',
+    displayName: 'GitLab',
+
+    parseUrl(url) {
+      try {
+        const { project, iid } = locate(url);
+        return { repo: project, number: iid };
+      } catch {
+        return null;
+      }
+    },
+
+    async fetchIssue(url, options): Promise<Issue> {
+      const { api, project } = locate(url);
+      const data = await requestJson<GitLabIssue>(api, { headers: headers() }, 'fetch issue');
+      const acceptanceCriteria = parseAcceptanceCriteria(data.description || '');
+
+      // The discussion and links are context for the prompt - the issue is usable without them
+      const notes = await requestJson<GitLabNote[]>(`${api}/notes?sort=asc&order_by=created_at&per_page=100`, { headers: headers() }, 'fetch comments')
+        .catch((): GitLabNote[] => []);
+      const links = options?.linkedIssues === false ? [] : await requestJson<GitLabLinkedIssue[]>(`${api}/links`, { headers: headers() }, 'fetch linked issues')
+        .catch((): GitLabLinkedIssue[] => []);
+      const comments: IssueComment[] = notes.filter(note => !note.system).map(note => ({
+        author: note.author?.username ?? 'unknown',
+        createdAt: note.created_at,
+        body: note.body,
+      }));
+      const linkedIssues: LinkedIssue[] = links.map(link => ({
+        ref: link.references?.full ?? link.title,
+        title: link.title,
+        state: link.state,
+        relation: link.link_type && link.link_type !== 'relates_to' ? link.link_type.replace(/_/g, ' ') : undefined,
+      }));
+
+      return {
+        url: data.web_url || url,
+        number: data.iid,
+        title: data.title,
+        body: data.description || '',
+        repo: project,
+        provider: 'gitlab',
+        acceptanceCriteria,
+        originalAcceptanceCriteria: acceptanceCriteria.map(criterion => ({ ...criterion })),
+        labels: data.labels ?? [],
+        assignees: (data.assignees ?? []).map(assignee => assignee.username),
+        comments,
+        linkedIssues: options?.linkedIssues === false ? undefined : linkedIssues,
+      };
+    },
+
+    async updateIssueBody(url, body) {
+      const { api } = locate(url);
+      await requestJson(api, { method: 'PUT', headers: headers(), body: { description: body } }, 'update issue');
+    },
+
+    async closeIssue(url, comment): Promise<CloseIssueResult> {
+      const { api } = locate(url);
+      const data = await requestJson<GitLabIssue>(api, { headers: headers() }, 'close issue');
+      if (data.state === 'closed') {
+        return 'already_closed';
+      }
+
+      const trimmedComment = comment?.trim();
+      if (trimmedComment) {
+        await requestJson(`${api}/notes`, { method: 'POST', headers: headers(), body: { body: trimmedComment } }, 'comment on issue');
+      }
+      await requestJson(api, { method: 'PUT', headers: headers(), body: { state_event: 'close' } }, 'close issue');
+      return 'closed';
+    },
+
+    async addComment(url, body) {
+      const { api } = locate(url);
+      const note = await requestJson<{ id: number }>(`${api}/notes`, { method: 'POST', headers: headers(), body: { body } }, 'comment on issue');
+      return String(note.id);
+    },
+
+    async editComment(url, commentId, body) {
+      const { api } = locate(url);
+      await requestJson(`${api}/notes/${commentId}`, { method: 'PUT', headers: headers(), body: { body } }, 'edit comment');
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { Issue } from '../types.js';
+import { IssueProvider, CloseIssueResult, FetchIssueOptions } from './base.js';
+import { createGitHubProvider, parseIssueUrl, listIssues as listGitHubIssues, buildIssueListArgs, findIssueReferences, relabelIssue, ensureLabel, IssueQuery } from './github.js';
+import { createGitLabProvider, DEFAULT_GITLAB_CONFIG, GitLabProviderConfig } from './gitlab.js';
+import { createJiraProvider, DEFAULT_JIRA_CONFIG, JiraProviderConfig } from './jira.js';
+import { createFileProvider, isTaskPath, resolveTaskPath, syncTaskProgress } from './file.js';
+import { addCommentCriteria } from '../issues.js';
+import { ISSUE_TRACKERS, ISSUE_CRITERIA_AUTHORS } from '../../config.js';
+
+/**
+ * Issue trackers. The provider for an issue is picked by its URL: GitHub
+ * (gh CLI), GitLab and Jira (REST) on the hosts configured under
+ * `issueTrackers` in ~/.alex/config.yaml, or a local markdown task file.
+ */
+
+export type { IssueProvider, CloseIssueResult, FetchIssueOptions } from './base.js';
+export type { IssueQuery } from './github.js';
+export { parseIssueUrl, buildIssueListArgs, findIssueReferences, relabelIssue, ensureLabel, isTaskPath, resolveTaskPath, syncTaskProgress };
+
+export interface IssueTrackerConfig {
+  gitlab: GitLabProviderConfig;
+  jira: JiraProviderConfig;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asHosts(value: unknown, fallback: string[]): string[] {
+  if (!Array.isArray(value)) return fallback;
+  return value.map(asString).filter((host): host is string => host !== undefined);
+}
+
+/**
+ * Validate the `issueTrackers` section of config.yaml; invalid fields fall
+ * back to the defaults.
+ */
+export function sanitizeIssueTrackerConfig(raw: unknown): IssueTrackerConfig {
+  const section = raw && typeof raw === 'object' ? raw as Record<string, any> : {};
+  const gitlab = section.gitlab && typeof section.gitlab === 'object' ? section.gitlab : {};
+  const jira = section.jira && typeof section.jira === 'object' ? section.jira : {};
+
+  return {
+    gitlab: {
+      hosts: asHosts(gitlab.hosts, DEFAULT_GITLAB_CONFIG.hosts),
+      token: asString(gitlab.token),
+      tokenEnv: asString(gitlab.tokenEnv) ?? DEFAULT_GITLAB_CONFIG.tokenEnv,
+    },
+    jira: {
+      hosts: asHosts(jira.hosts, DEFAULT_JIRA_CONFIG.hosts),
+      email: asString(jira.email),
+      token: asString(jira.token),
+      tokenEnv: asString(jira.tokenEnv) ?? DEFAULT_JIRA_CONFIG.tokenEnv,
+      closeTransition: asString(jira.closeTransition),
+    },
+  };
+}
+
+export function createIssueProviders(config: IssueTrackerConfig): IssueProvider[] {
+  return [createGitHubProvider(), createGitLabProvider(config.gitlab), createJiraProvider(config.jira), createFileProvider()];
+}
+
+// Providers from config.yaml, created on first use
+let providers: IssueProvider[] | null = null;
+
+export function getIssueProviders(): IssueProvider[] {
+  if (!providers) {
+    providers = createIssueProviders(sanitizeIssueTrackerConfig(ISSUE_TRACKERS));
+  }
+  return providers;
+}
+
+/**
+ * The provider handling an issue URL (throws if none does).
+ */
+export function getIssueProvider(url: string): IssueProvider {
+  if (!url) {
+    throw new Error('Missing issue URL');
+  }
+  const provider = getIssueProviders().find(p => p.parseUrl(url) !== null);
+  if (!provider) {
+    throw new Error(`Unsupported issue URL: ${url} (GitHub, GitLab/Jira hosts listed under issueTrackers in config.yaml, or a .md task file)`);
+  }
+  return provider;
+}
+
+// Criteria from comments by the maintainers listed under issueContext.criteriaAuthors
+function withCommentCriteria(issue: Issue): Issue {
+  if (issue.pullRequest || ISSUE_CRITERIA_AUTHORS.length === 0) return issue;
+  return addCommentCriteria(issue, ISSUE_CRITERIA_AUTHORS);
+}
+
+// Fetch issue data (GitHub pull request URLs yield their review threads)
+export async function fetchIssue(url: string, options?: FetchIssueOptions): Promise<Issue> {
+  return withCommentCriteria(await getIssueProvider(url).fetchIssue(url, options));
+}
+
+// Open GitHub issues matching a query (see github.ts)
+export async function listIssues(query: IssueQuery, cwd?: string): Promise<{ issue: Issue; labels: string[] }[]> {
+  return (await listGitHubIssues(query, cwd)).map(({ issue, labels }) => ({ issue: withCommentCriteria(issue), labels }));
+}
+
+// Close an issue with an optional comment
+export async function closeIssue(url: string, comment?: string): Promise<CloseIssueResult> {
+  return getIssueProvider(url).closeIssue(url, comment);
+}
+
+export async function updateIssueBody(url: string, body: string): Promise<void> {
+  return getIssueProvider(url).updateIssueBody(url, body);
+}
+
+// Comment on an issue; resolves with the comment's ID
+export async function commentOnIssue(url: string, body: string): Promise<string> {
+  return getIssueProvider(url).addComment(url, body);
+}
+
+export async function editIssueComment(url: string, commentId: string, body: string): Promise<void> {
+  return getIssueProvider(url).editComment(url, commentId, body);
+}
@@ -0,0 +1,171 @@
+import { Issue, LinkedIssue } from '../types.js';
+import { parseAcceptanceCriteria } from '../issues.js';
+import { IssueProvider, CloseIssueResult, requestJson, resolveToken, matchHost } from './base.js';
+
+export interface JiraProviderConfig {
+  hosts: string[];          // e.g. acme.atlassian.net, jira.example.com
+  email?: string;           // Jira Cloud: API token auth is email + token
+  token?: string;           // API token (Cloud) or personal access token (Server/Data Center)
+  tokenEnv: string;         // else read from this environment variable
+  closeTransition?: string; // transition used to close (default: first one into a done status)
+}
+
+export const DEFAULT_JIRA_CONFIG: JiraProviderConfig = {
+  hosts: [],
+  tokenEnv: 'JIRA_API_TOKEN',
+};
+
+interface JiraIssue {
+  key: string;
+  fields: {
+    summary: string;
+    description: string | null;
+    status?: { statusCategory?: { key: string } };
+    labels?: string[];
+    assignee?: { displayName: string } | null;
+    comment?: { comments: { author?: { displayName: string }; created: string; body: string }[] };
+    issuelinks?: JiraIssueLink[];
+  };
+}
+
+interface JiraLinkedIssue {
+  key: string;
+  fields?: { summary?: string; status?: { name: string } };
+}
+
+interface JiraIssueLink {
+  type: { inward: string; outward: string };   // "is blocked by" / "blocks"
+  inwardIssue?: JiraLinkedIssue;
+  outwardIssue?: JiraLinkedIssue;
+}
+
+function toLinkedIssue(link: JiraIssueLink): LinkedIssue | null {
+  const linked = link.outwardIssue ?? link.inwardIssue;
+  if (!linked) return null;
+  return {
+    ref: linked.key,
+    title: linked.fields?.summary,
+    state: linked.fields?.status?.name,
+    relation: link.outwardIssue ? link.type.outward : link.type.inward,
+  };
+}
+
+interface JiraTransition {
+  id: string;
+  name: string;
+  to?: { name: string; statusCategory?: { key: string } };
+}
+
+/**
+ * Jira through its REST API (v2, plain-text descriptions), on the host of
+ * the issue URL: https://acme.atlassian.net/browse/PROJ-123
+ * The project key is the issue's repo and the key's number its number.
+ */
+export function createJiraProvider(config: JiraProviderConfig = DEFAULT_JIRA_CONFIG): IssueProvider {
+  const locate = (url: string): { api: string; origin: string; key: string; project: string; number: number } => {
+    const parsed = matchHost(url, config.hosts);
+    const match = parsed?.pathname.match(/\/browse\/(([A-Z][A-Z0-9_]*)-(\d+))/);
+    if (!parsed || !match) {
+      throw new Error(`Invalid Jira issue URL: ${url}`);
+    }
+    return {
+      api: `${parsed.origin}/rest/api/2/issue/${match[1]}`,
+      origin: parsed.origin,
+      key: match[1],
+      project: match[2],
+      number: parseInt(match[3], 10),
+    };
+  };
+
+  const headers = (): Record<string, string> => {
+    const token = resolveToken(config.token, config.tokenEnv);
+    if (!token) return {};
+    return config.email
+      ? { Authorization: `Basic ${Buffer.from(`${config.email}:${token}`).toString('base64')}` }
+      : { Authorization: `Bearer ${token}` };
+  };
+
+  return {
+    name: 'jira',
+    displayName: 'Jira',
+
+    parseUrl(url) {
+      try {
+        const { project, number } = locate(url);
+        return { repo: project, number };
+      } catch {
+        return null;
+      }
+    },
+
+    async fetchIssue(url): Promise<Issue> {
+      const { api, origin, key, project, number } = locate(url);
+      const data = await requestJson<JiraIssue>(
+        `${api}?fields=summary,description,labels,assignee,comment,issuelinks`, { headers: headers() }, 'fetch issue'
+      );
+      const body = data.fields.description || '';
+      const acceptanceCriteria = parseAcceptanceCriteria(body);
+
+      return {
+        url: `${origin}/browse/${data.key || key}`,
+        number,
+        title: data.fields.summary,
+        body,
+        repo: project,
+        provider: 'jira',
+        acceptanceCriteria,
+        originalAcceptanceCriteria: acceptanceCriteria.map(criterion => ({ ...criterion })),
+        labels: data.fields.labels ?? [],
+        assignees: data.fields.assignee ? [data.fields.assignee.displayName] : [],
+        comments: (data.fields.comment?.comments ?? []).map(comment => ({
+          author: comment.author?.displayName ?? 'unknown',
+          createdAt: comment.created,
+          body: comment.body,
+        })),
+        linkedIssues: (data.fields.issuelinks ?? []).map(toLinkedIssue).filter((link): link is LinkedIssue => link !== null),
+      };
+    },
+
+    async updateIssueBody(url, body) {
+      const { api } = locate(url);
+      await requestJson(api, { method: 'PUT', headers: headers(), body: { fields: { description: body } } }, 'update issue');
+    },
+
+    async closeIssue(url, comment): Promise<CloseIssueResult> {
+      const { api, key } = locate(url);
+      const data = await requestJson<JiraIssue>(`${api}?fields=status`, { headers: headers() }, 'close issue');
+      if (data.fields.status?.statusCategory?.key === 'done') {
+        return 'already_closed';
+      }
+
+      const { transitions } = await requestJson<{ transitions: JiraTransition[] }>(
+        `${api}/transitions`, { headers: headers() }, 'close issue'
+      );
+      const wanted = config.closeTransition?.toLowerCase();
+      const transition = wanted
+        ? transitions.find(t => t.name.toLowerCase() === wanted || t.to?.name.toLowerCase() === wanted)
+        : transitions.find(t => t.to?.statusCategory?.key === 'done');
+      if (!transition) {
+        throw new Error(`Failed to close issue: no ${config.closeTransition ? `"${config.closeTransition}"` : 'done'} transition available for ${key}`);
+      }
+
+      const trimmedComment = comment?.trim();
+      if (trimmedComment) {
+        await requestJson(`${api}/comment`, { method: 'POST', headers: headers(), body: { body: trimmedComment } }, 'comment on issue');
+      }
+      await requestJson(`${api}/transitions`, { method: 'POST', headers: headers(), body: { transition: { id: transition.id } } }, 'close issue');
+      return 'closed';
+    },
+
+    async addComment(url, body) {
+      const { api } = locate(url);
+      const comment = await requestJson<{ id: string }>(`${api}/comment`, { method: 'POST', headers: headers(), body: { body } }, 'comment on issue');
+      return String(comment.id);
+    },
+
+    async editComment(url, commentId, body) {
+      const { api } = locate(url);
+      await requestJson(`${api}/comment/${commentId}`, { method: 'PUT', headers: headers(), body: { body } }, 'edit comment');
+    },
+  };
+}
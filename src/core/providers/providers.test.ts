@@ -0,0 +1,246 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createGitLabProvider } from './gitlab.js';
+import { createJiraProvider } from './jira.js';
+import { createFileProvider } from './file.js';
+import { createIssueProviders, sanitizeIssueTrackerConfig, isTaskPath, resolveTaskPath, findIssueReferences } from './index.js';
+
+// Local stand-in for the GitLab and Jira REST APIs, recording every request
+interface RecordedRequest {
+  method: string;
+  path: string;
+  auth: string | null;
+  body: any;
+}
+
+let server: ReturnType<typeof Bun.serve>;
+let host: string;
+const requests: RecordedRequest[] = [];
+
+const ISSUE_BODY = 'Intro\n\n## Acceptance Criteria\n- [ ] Parses input\n- [x] Docs updated';
+let gitlabState = 'opened';
+let jiraStatus = 'indeterminate';
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const text = await req.text();
+      requests.push({
+        method: req.method,
+        path: url.pathname + url.search,
+        auth: req.headers.get('private-token') ?? req.headers.get('authorization'),
+        body: text ? JSON.parse(text) : undefined,
+      });
+
+      if (url.pathname === '/api/v4/projects/group%2Fsub%2Fapp/issues/12') {
+        return Response.json({
+          iid: 12, title: 'Add parser', description: ISSUE_BODY, web_url: `http://${host}/group/sub/app/-/issues/12`, state: gitlabState,
+          labels: ['parser'], assignees: [{ username: 'ana' }],
+        });
+      }
+      if (url.pathname === '/api/v4/projects/group%2Fsub%2Fapp/issues/12/notes') {
+        if (req.method === 'GET') {
+          return Response.json([
+            { body: 'changed the description', created_at: '2026-01-02T09:00:00Z', system: true, author: { username: 'ana' } },
+            { body: 'Empty input should be an error', created_at: '2026-01-03T09:00:00Z', system: false, author: { username: 'ana' } },
+          ]);
+        }
+        return Response.json({ id: 1 }, { status: 201 });
+      }
+      if (url.pathname === '/api/v4/projects/group%2Fsub%2Fapp/issues/12/links') {
+        return Response.json([{ title: 'Lexer', state: 'opened', link_type: 'is_blocked_by', references: { full: 'group/sub/app#9' } }]);
+      }
+      if (url.pathname === '/api/v4/projects/group%2Fsub%2Fapp/issues/12/notes/1') {
+        return Response.json({ id: 1 });
+      }
+      if (url.pathname === '/api/v4/projects/group%2Fsub%2Fapp/issues/99') {
+        return Response.json({ message: '404 Not found' }, { status: 404 });
+      }
+      if (url.pathname === '/rest/api/2/issue/PROJ-7/transitions') {
+        if (req.method === 'POST') return new Response(null, { status: 204 });
+        return Response.json({
+          transitions: [
+            { id: '11', name: 'Start', to: { name: 'In Progress', statusCategory: { key: 'indeterminate' } } },
+            { id: '31', name: 'Finish', to: { name: 'Done', statusCategory: { key: 'done' } } },
+          ],
+        });
+      }
+      if (url.pathname === '/rest/api/2/issue/PROJ-7/comment') {
+        return Response.json({ id: '1' }, { status: 201 });
+      }
+      if (url.pathname === '/rest/api/2/issue/PROJ-7') {
+        if (req.method === 'PUT') return new Response(null, { status: 204 });
+        return Response.json({
+          key: 'PROJ-7',
+          fields: {
+            summary: 'Fix login', description: ISSUE_BODY, status: { statusCategory: { key: jiraStatus } },
+            labels: ['auth'],
+            assignee: { displayName: 'Ana' },
+            comment: { comments: [{ author: { displayName: 'Bo' }, created: '2026-01-03T09:00:00.000+0000', body: 'Keep SSO working' }] },
+            issuelinks: [{ type: { inward: 'is blocked by', outward: 'blocks' }, outwardIssue: { key: 'PROJ-9', fields: { summary: 'Deploy', status: { name: 'To Do' } } } }],
+          },
+        });
+      }
+      return Response.json({ errorMessages: ['Issue does not exist'] }, { status: 404 });
+    },
+  });
+  host = `127.0.0.1:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function takeRequests(): RecordedRequest[] {
+  return requests.splice(0, requests.length);
+}
+
+describe('GitLab provider', () => {
+  const gitlab = () => createGitLabProvider({ hosts: [host], token: 'glpat-test', tokenEnv: 'UNUSED' });
+
+  test('parses issue URLs on configured hosts', () => {
+    expect(gitlab().parseUrl(`http://${host}/group/sub/app/-/issues/12`)).toEqual({ repo: 'group/sub/app', number: 12 });
+    expect(gitlab().parseUrl('https://gitlab.example.com/group/app/-/issues/12')).toBeNull();
+    expect(gitlab().parseUrl(`http://${host}/group/app/-/merge_requests/3`)).toBeNull();
+  });
+
+  test('fetches an issue with its criteria', async () => {
+    takeRequests();
+    const issue = await gitlab().fetchIssue(`http://${host}/group/sub/app/-/issues/12`);
+    expect(issue).toMatchObject({ number: 12, title: 'Add parser', repo: 'group/sub/app', provider: 'gitlab' });
+    expect(issue.acceptanceCriteria.map(c => [c.text, c.completed])).toEqual([['Parses input', false], ['Docs updated', true]]);
+    expect(takeRequests()[0].auth).toBe('glpat-test');
+  });
+
+  test('fetches labels, assignees, comments and linked issues', async () => {
+    const issue = await gitlab().fetchIssue(`http://${host}/group/sub/app/-/issues/12`);
+    expect(issue).toMatchObject({ labels: ['parser'], assignees: ['ana'] });
+    expect(issue.comments).toEqual([{ author: 'ana', createdAt: '2026-01-03T09:00:00Z', body: 'Empty input should be an error' }]);
+    expect(issue.linkedIssues).toEqual([{ ref: 'group/sub/app#9', title: 'Lexer', state: 'opened', relation: 'is blocked by' }]);
+  });
+
+  test('updates, comments on and closes issues', async () => {
+    const url = `http://${host}/group/sub/app/-/issues/12`;
+    takeRequests();
+    await gitlab().updateIssueBody(url, 'new body');
+    expect(await gitlab().closeIssue(url, 'Done')).toBe('closed');
+    expect(takeRequests().filter(r => r.method !== 'GET').map(r => [r.method, r.path, r.body])).toEqual([
+      ['PUT', '/api/v4/projects/group%2Fsub%2Fapp/issues/12', { description: 'new body' }],
+      ['POST', '/api/v4/projects/group%2Fsub%2Fapp/issues/12/notes', { body: 'Done' }],
+      ['PUT', '/api/v4/projects/group%2Fsub%2Fapp/issues/12', { state_event: 'close' }],
+    ]);
+
+    gitlabState = 'closed';
+    expect(await gitlab().closeIssue(url)).toBe('already_closed');
+    gitlabState = 'opened';
+  });
+
+  test('edits its own comments in place', async () => {
+    const url = `http://${host}/group/sub/app/-/issues/12`;
+    takeRequests();
+    const id = await gitlab().addComment(url, 'Started');
+    await gitlab().editComment(url, id, 'Done');
+    expect(id).toBe('1');
+    expect(takeRequests().map(r => [r.method, r.path, r.body])).toEqual([
+      ['POST', '/api/v4/projects/group%2Fsub%2Fapp/issues/12/notes', { body: 'Started' }],
+      ['PUT', '/api/v4/projects/group%2Fsub%2Fapp/issues/12/notes/1', { body: 'Done' }],
+    ]);
+  });
+
+  test('reports API errors', async () => {
+    await expect(gitlab().fetchIssue(`http://${host}/group/sub/app/-/issues/99`))
+      .rejects.toThrow('Failed to fetch issue: HTTP 404 404 Not found');
+  });
+});
+
+describe('Jira provider', () => {
+  const jira = (closeTransition?: string) => createJiraProvider({
+    hosts: [host], email: 'me@acme.dev', token: 'secret', tokenEnv: 'UNUSED', closeTransition,
+  });
+  const url = () => `http://${host}/browse/PROJ-7`;
+
+  test('fetches an issue by key with basic auth', async () => {
+    takeRequests();
+    const issue = await jira().fetchIssue(url());
+    expect(issue).toMatchObject({ number: 7, repo: 'PROJ', title: 'Fix login', provider: 'jira', url: url() });
+    expect(issue.acceptanceCriteria).toHaveLength(2);
+    expect(issue).toMatchObject({ labels: ['auth'], assignees: ['Ana'] });
+    expect(issue.comments).toEqual([{ author: 'Bo', createdAt: '2026-01-03T09:00:00.000+0000', body: 'Keep SSO working' }]);
+    expect(issue.linkedIssues).toEqual([{ ref: 'PROJ-9', title: 'Deploy', state: 'To Do', relation: 'blocks' }]);
+    expect(takeRequests()[0].auth).toBe(`Basic ${Buffer.from('me@acme.dev:secret').toString('base64')}`);
+  });
+
+  test('closes through the first transition into a done status', async () => {
+    takeRequests();
+    expect(await jira().closeIssue(url(), 'Shipped')).toBe('closed');
+    expect(takeRequests().filter(r => r.method === 'POST').map(r => [r.path, r.body])).toEqual([
+      ['/rest/api/2/issue/PROJ-7/comment', { body: 'Shipped' }],
+      ['/rest/api/2/issue/PROJ-7/transitions', { transition: { id: '31' } }],
+    ]);
+
+    await expect(jira('Reopen').closeIssue(url())).rejects.toThrow('no "Reopen" transition available for PROJ-7');
+
+    jiraStatus = 'done';
+    expect(await jira().closeIssue(url())).toBe('already_closed');
+    jiraStatus = 'indeterminate';
+  });
+
+  test('writes the description back', async () => {
+    takeRequests();
+    await jira().updateIssueBody(url(), 'new body');
+    expect(takeRequests()[0]).toMatchObject({ method: 'PUT', body: { fields: { description: 'new body' } } });
+  });
+});
+
+describe('provider selection', () => {
+  test('picks the provider by URL host', () => {
+    const providers = createIssueProviders(sanitizeIssueTrackerConfig({ jira: { hosts: ['acme.atlassian.net'] } }));
+    const pick = (url: string) => providers.find(p => p.parseUrl(url))?.name;
+    expect(pick('https://github.com/acme/app/issues/3')).toBe('github');
+    expect(pick('https://github.com/acme/app/pull/4')).toBe('github');
+    expect(pick('https://gitlab.com/acme/app/-/issues/5')).toBe('gitlab');
+    expect(pick('https://acme.atlassian.net/browse/APP-6')).toBe('jira');
+    expect(pick('tasks/refactor-auth.md')).toBe('file');
+    expect(pick('https://tracker.example.com/issues/7')).toBeUndefined();
+  });
+});
+
+describe('task files', () => {
+  const TASK = '# Refactor auth\n\nNotes\n\n- [ ] Extract session store\n- [x] Drop legacy tokens `verify: bun test`\n';
+
+  test('reads the title, criteria and path of a task file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alex-task-'));
+    const file = path.join(dir, 'refactor-auth.md');
+    fs.writeFileSync(file, TASK);
+
+    const issue = await createFileProvider().fetchIssue(file);
+    expect(issue).toMatchObject({ url: file, title: 'Refactor auth', repo: dir, provider: 'file' });
+    expect(issue.acceptanceCriteria.map(c => [c.text, c.completed, c.verify])).toEqual([
+      ['Extract session store', false, undefined],
+      ['Drop legacy tokens', true, 'bun test'],
+    ]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('tells task paths from tracker URLs', () => {
+    expect(isTaskPath('tasks/refactor-auth.md')).toBe(true);
+    expect(isTaskPath('./notes')).toBe(true);
+    expect(isTaskPath('https://github.com/acme/app/issues/3')).toBe(false);
+    expect(resolveTaskPath('tasks/a.md', '/repo')).toBe('/repo/tasks/a.md');
+  });
+});
+
+describe('findIssueReferences', () => {
+  test('finds short, cross-repo and URL references once, without the issue itself', () => {
+    const text = 'Follows #3 and acme/lib#4 (see https://github.com/acme/app/pull/5).\nAlso #3, #7 itself and color #fff.';
+    expect(findIssueReferences(text, 'acme/app', 7)).toEqual([
+      { repo: 'acme/app', number: 3 },
+      { repo: 'acme/lib', number: 4 },
+      { repo: 'acme/app', number: 5 },
+    ]);
+  });
+});
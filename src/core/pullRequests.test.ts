@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'bun:test';
+import { buildPullRequestBody } from './pullRequests.js';
+import { Loop } from './types.js';
+
+describe('buildPullRequestBody', () => {
+  const loop: Loop = {
+    id: 'abc123',
+    issue: {
+      url: 'https://github.com/acme/app/issues/7',
+      number: 7,
+      title: 'Add parser',
+      body: '',
+      repo: 'acme/app',
+      acceptanceCriteria: [
+        { text: 'Parses input', completed: true, completedBy: 'agent' },
+        { text: 'Docs updated', completed: true, completedBy: 'operator' },
+        { text: 'Benchmarks', completed: false },
+      ],
+    },
+    agent: 'claude',
+    status: 'completed',
+    skipPermissions: false,
+    workingDir: '/tmp/wt',
+    iteration: 3,
+    reviewVerdict: 'approved',
+  };
+
+  test('links the issue and lists criteria with who completed them', () => {
+    const body = buildPullRequestBody(loop, 'Iterations completed: 3', ' src/parser.ts | 40 ++++', 'codex');
+    expect(body.startsWith('Closes acme/app#7\n')).toBe(true);
+    expect(body).toContain('- [x] Parses input _(agent)_\n- [x] Docs updated _(operator)_\n- [ ] Benchmarks');
+    expect(body).toContain('## Changes\n\n```\n src/parser.ts | 40 ++++\n```');
+    expect(body).toContain('## Review\n\nApproved by codex');
+    expect(body).toContain('loop `abc123` (claude, 3 iterations)');
+  });
+
+  test('leaves out the review without a verdict', () => {
+    expect(buildPullRequestBody({ ...loop, reviewVerdict: undefined }, '', '')).not.toContain('## Review');
+  });
+});
@@ -0,0 +1,246 @@
+import { execFile } from 'child_process';
+import { Loop, AgentType } from './types.js';
+import { loadState, saveLoopUpdates } from './state.js';
+import { appendLog, generateResumeSummary } from './logs.js';
+import { getChangedFilesSummary, commitAllChanges } from './worktree.js';
+import { formatIssueRef } from './issues.js';
+import { replyToReviewThread } from './reviewThreads.js';
+import { PULL_REQUEST_DRAFT } from '../config.js';
+
+/**
+ * Pull requests for worktree loops: the loop's branch is pushed to origin and
+ * `gh pr create` opens a PR whose body links the issue and records the
+ * acceptance criteria, a summary of the work, the diff stat and the review
+ * verdict. Loops made from a PR's review threads push to that PR instead.
+ */
+
+// Loops with a push in flight - a second O press mustn't open a second PR
+const pushingLoops: Set<string> = new Set();
+
+// Run git/gh in the worktree, turning failures into "<context>: <first line>".
+// Asynchronous - pushes and gh calls can take a while, and the TUI and other
+// loops keep running meanwhile.
+function run(command: 'git' | 'gh', args: string[], cwd: string, context: string, timeout = 60000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, {
+      cwd,
+      encoding: 'utf-8',
+      timeout,
+      maxBuffer: 10 * 1024 * 1024,
+    }, (err: any, stdout: string, stderr: string) => {
+      if (!err) {
+        resolve(stdout.trim());
+        return;
+      }
+      const message = (stderr || stdout || err?.message || '').trim();
+
+      if (command === 'gh' && (err?.code === 'ENOENT' || message.includes('gh: command not found'))) {
+        reject(new Error('GitHub CLI (gh) not found. Install from https://cli.github.com'));
+        return;
+      }
+
+      const firstLine = message.split('\n')[0] || 'Unknown error';
+      reject(new Error(`${context}: ${firstLine}`));
+    });
+    child.stdin?.end();
+  });
+}
+
+/**
+ * Build the PR description for a loop
+ */
+export function buildPullRequestBody(
+  loop: Loop,
+  workSummary: string,
+  changedFilesSummary: string,
+  reviewer?: AgentType
+): string {
+  const { issue } = loop;
+  // GitHub closes its own issues on merge - other trackers just get a link
+  const source = issue.provider === 'file' ? `Task: ${formatIssueRef(issue)}` : `Issue: ${issue.url}`;
+  const sections: string[] = [
+    !issue.provider || issue.provider === 'github' ? `Closes ${issue.repo}#${issue.number}` : source,
+  ];
+
+  const criteria = issue.acceptanceCriteria.filter(c => !c.removed);
+  if (criteria.length > 0) {
+    const checklist = criteria
+      .map(c => {
+        const completedBy = c.completed && c.completedBy ? ` _(${c.completedBy})_` : '';
+        return `- [${c.completed ? 'x' : ' '}] ${c.text}${completedBy}`;
+      })
+      .join('\n');
+    sections.push(`## Acceptance Criteria\n\n${checklist}`);
+  }
+
+  sections.push(`## Work Summary\n\n${workSummary}`);
+  sections.push(`## Changes\n\n\`\`\`\n${changedFilesSummary}\n\`\`\``);
+
+  if (loop.reviewVerdict) {
+    const verdict = loop.reviewVerdict === 'approved' ? 'Approved' : 'Changes requested';
+    sections.push(`## Review\n\n${verdict}${reviewer ? ` by ${reviewer}` : ''}`);
+  }
+
+  const iterations = loop.iteration ?? 0;
+  sections.push(`---\n_Opened by alex from loop \`${loop.id}\` (${loop.agent}, ${iterations} iteration${iterations === 1 ? '' : 's'})._`);
+
+  return sections.join('\n\n');
+}
+
+// Body for a loop as it is now (logs, worktree diff, reviewer)
+function generatePullRequestBody(loop: Loop, reviewer?: AgentType): string {
+  return buildPullRequestBody(
+    loop,
+    generateResumeSummary(loop.id, 3000),
+    getChangedFilesSummary(loop.workingDir, loop.startCommit),
+    reviewer
+  );
+}
+
+function getReviewer(loop: Loop): AgentType | undefined {
+  if (!loop.reviewLoopId) return undefined;
+  return loadState().loops.find(l => l.id === loop.reviewLoopId)?.agent;
+}
+
+/**
+ * Agents don't always commit - commit whatever a loop left in its worktree
+ * to its branch, before the branch is pushed or built on (`purpose` is
+ * logged). Returns false if there was nothing to commit.
+ */
+export async function commitWorktreeChanges(loop: Loop, purpose = 'the pull request'): Promise<boolean> {
+  const committed = await commitAllChanges(loop.workingDir, `${loop.issue.title} (#${loop.issue.number})`);
+  if (committed) {
+    appendLog(loop.id, { type: 'system', content: `Committed uncommitted worktree changes for ${purpose}` });
+  }
+  return committed;
+}
+
+// One push per loop at a time
+async function withPushLock<T>(loopId: string, push: () => Promise<T>): Promise<T> {
+  if (pushingLoops.has(loopId)) {
+    throw new Error('Already pushing this loop - wait for it to finish');
+  }
+  pushingLoops.add(loopId);
+  try {
+    return await push();
+  } finally {
+    pushingLoops.delete(loopId);
+  }
+}
+
+/**
+ * Commit anything left in a loop's worktree, push its branch and open a pull
+ * request. Returns the PR URL (the existing one if a PR was already opened).
+ */
+export async function createPullRequest(loopId: string): Promise<string> {
+  return withPushLock(loopId, () => openPullRequest(loopId));
+}
+
+async function openPullRequest(loopId: string): Promise<string> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop) {
+    throw new Error(`Loop not found: ${loopId}`);
+  }
+  if (loop.pullRequestUrl) {
+    return loop.pullRequestUrl;
+  }
+  if (!loop.worktreeBranch || !loop.worktreePath) {
+    throw new Error('Only worktree loops can open a pull request (no branch to push)');
+  }
+
+  const branch = loop.worktreeBranch;
+  const dir = loop.workingDir;
+
+  await commitWorktreeChanges(loop);
+
+  if (loop.startCommit) {
+    const ahead = await run('git', ['rev-list', '--count', `${loop.startCommit}..HEAD`], dir, 'Failed to count commits');
+    if (ahead === '0') {
+      throw new Error(`No changes on ${branch} to open a pull request for`);
+    }
+  }
+
+  await run('git', ['push', '-u', 'origin', branch], dir, `Failed to push ${branch}`, 120000);
+
+  const args = ['pr', 'create', '--head', branch, '--title', loop.issue.title, '--body', generatePullRequestBody(loop, getReviewer(loop))];
+  if (loop.baseBranch) {
+    args.push('--base', loop.baseBranch);
+  }
+  if (PULL_REQUEST_DRAFT) {
+    args.push('--draft');
+  }
+  const output = await run('gh', args, dir, 'Failed to create pull request');
+  const url = output.split('\n').reverse().find(line => /^https?:\/\//.test(line.trim()))?.trim();
+  if (!url) {
+    throw new Error('Failed to create pull request: no URL in gh output');
+  }
+
+  saveLoopUpdates(loopId, { pullRequestUrl: url });
+  appendLog(loopId, { type: 'system', content: `Opened pull request: ${url}` });
+
+  return url;
+}
+
+/**
+ * Rewrite an open PR's description from the loop's current state
+ * (e.g. once its review has a verdict).
+ */
+export async function updatePullRequestBody(loopId: string): Promise<void> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  // A loop addressing someone's pull request leaves its description alone
+  if (!loop?.pullRequestUrl || loop.issue.pullRequest) {
+    return;
+  }
+
+  await run('gh', ['pr', 'edit', loop.pullRequestUrl, '--body', generatePullRequestBody(loop, getReviewer(loop))],
+    loop.workingDir, 'Failed to update pull request');
+}
+
+/**
+ * For a loop made from a pull request's review threads: push its commits to
+ * the PR's head branch and reply to (optionally resolving) every thread whose
+ * criterion is complete. Returns the number of threads answered.
+ */
+export async function publishReviewThreadReplies(loopId: string, resolve: boolean): Promise<number> {
+  return withPushLock(loopId, () => replyToAddressedThreads(loopId, resolve));
+}
+
+async function replyToAddressedThreads(loopId: string, resolve: boolean): Promise<number> {
+  const loop = loadState().loops.find(l => l.id === loopId);
+  if (!loop) {
+    throw new Error(`Loop not found: ${loopId}`);
+  }
+  const pr = loop.issue.pullRequest;
+  if (!pr) {
+    throw new Error('Loop was not created from a pull request');
+  }
+  if (pr.isCrossRepository) {
+    throw new Error(`Pull request #${loop.issue.number} is from a fork - push ${pr.headRefName} to it yourself`);
+  }
+
+  const dir = loop.workingDir;
+  await commitWorktreeChanges(loop);
+  await run('git', ['push', 'origin', `HEAD:refs/heads/${pr.headRefName}`], dir, `Failed to push to ${pr.headRefName}`, 120000);
+  const head = await run('git', ['rev-parse', '--short', 'HEAD'], dir, 'Failed to read HEAD');
+  appendLog(loopId, { type: 'system', content: `Pushed ${head} to ${pr.headRefName}` });
+
+  const criteria = loop.issue.acceptanceCriteria.map(criterion => ({ ...criterion }));
+  let answered = 0;
+  try {
+    for (const criterion of criteria) {
+      if (!criterion.completed || !criterion.reviewThread || criterion.reviewThread.replied) continue;
+      await replyToReviewThread(criterion.reviewThread.id, `Addressed in ${head}.`, resolve);
+      criterion.reviewThread = { ...criterion.reviewThread, replied: true };
+      answered++;
+    }
+  } finally {
+    // Record what was answered even if a later reply failed
+    saveLoopUpdates(loopId, { issue: { ...loop.issue, acceptanceCriteria: criteria } });
+  }
+
+  appendLog(loopId, {
+    type: 'system',
+    content: `${resolve ? 'Replied to and resolved' : 'Replied to'} ${answered} review thread${answered === 1 ? '' : 's'}`,
+  });
+  return answered;
+}
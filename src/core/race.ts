@@ -0,0 +1,217 @@
+import { Issue, AgentType, Loop, LoopEvent, Race, RunPolicy } from './types.js';
+import { loadState, updateLoop, mutateState } from './state.js';
+import { appendLog } from './logs.js';
+import { loopEvents, createLoop, stopLoop } from './loops.js';
+import { getChangedFilesSummary, isWorktreeAvailable } from './worktree.js';
+import { getLoopDurationMs } from './metrics.js';
+
+/**
+ * Race mode: one issue run by several agents in parallel, each loop in its
+ * own worktree. The first loop to complete with all criteria met wins; the
+ * others are stopped (stopLosers) or left to finish for comparison. One
+ * branch is then promoted and the rest are hidden.
+ */
+
+export interface RaceEntry {
+  loopId: string;
+  agent: AgentType;
+  status: Loop['status'];
+  iterations: number;
+  durationMs: number | null;
+  criteriaDone: number;
+  criteriaTotal: number;
+  diffStat: string;           // last line of `git diff --stat`
+  reviewVerdict?: Loop['reviewVerdict'];
+  branch?: string;
+  isWinner: boolean;
+}
+
+function generateRaceId(): string {
+  return `race_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function saveRace(raceId: string, updates: Partial<Race>): void {
+  mutateState(state => ({
+    ...state,
+    races: (state.races ?? []).map(r => r.id === raceId ? { ...r, ...updates } : r),
+  }));
+}
+
+export function getRace(raceId: string): Race | undefined {
+  return loadState().races?.find(r => r.id === raceId);
+}
+
+/**
+ * Create one queued loop per agent for the same issue, linked by a race ID.
+ */
+export async function createRace(
+  issue: Issue,
+  agents: AgentType[],
+  skipPermissions: boolean,
+  workingDir: string,
+  maxIterations: number,
+  options?: { stopLosers?: boolean; policy?: RunPolicy }
+): Promise<Race> {
+  const uniqueAgents = [...new Set(agents)];
+  if (uniqueAgents.length < 2) {
+    throw new Error('A race needs at least two different agents');
+  }
+  if (!isWorktreeAvailable()) {
+    throw new Error('Race mode needs worktree isolation (install the wt CLI)');
+  }
+
+  const raceId = generateRaceId();
+  const loopIds: string[] = [];
+
+  for (const agent of uniqueAgents) {
+    // Every entrant starts from the issue as written
+    const raceIssue: Issue = {
+      ...issue,
+      acceptanceCriteria: issue.acceptanceCriteria.map(c => ({ text: c.text, completed: false })),
+    };
+    const loop = await createLoop(raceIssue, agent, skipPermissions, workingDir, maxIterations, {
+      useWorktree: true,
+      policy: options?.policy,
+      fallbackAgents: [],   // each entrant is judged on its own agent
+      raceId,
+    });
+    loopIds.push(loop.id);
+    appendLog(loop.id, { type: 'system', content: `Race ${raceId}: ${uniqueAgents.join(' vs ')}` });
+  }
+
+  const race: Race = {
+    id: raceId,
+    issueUrl: issue.url,
+    issueTitle: issue.title,
+    loopIds,
+    stopLosers: options?.stopLosers ?? true,
+    createdAt: new Date().toISOString(),
+  };
+  mutateState(state => ({ ...state, races: [...(state.races ?? []), race] }));
+
+  return race;
+}
+
+function allCriteriaMet(loop: Loop): boolean {
+  const criteria = loop.issue.acceptanceCriteria;
+  return criteria.every(c => c.completed || c.removed);
+}
+
+/**
+ * Decide a race when one of its loops completes. Returns the winner's ID if
+ * this completion won the race.
+ */
+export function recordRaceCompletion(loopId: string): string | null {
+  const state = loadState();
+  const loop = state.loops.find(l => l.id === loopId);
+  if (!loop?.raceId || loop.status !== 'completed' || loop.exitReason === 'manual_complete') {
+    return null;
+  }
+
+  const race = state.races?.find(r => r.id === loop.raceId);
+  if (!race || race.winnerLoopId || !allCriteriaMet(loop)) {
+    return null;
+  }
+
+  saveRace(race.id, { winnerLoopId: loopId, decidedAt: new Date().toISOString() });
+  appendLog(loopId, { type: 'system', content: `Won race ${race.id}` });
+
+  if (race.stopLosers) {
+    for (const otherId of race.loopIds) {
+      if (otherId === loopId) continue;
+      const other = state.loops.find(l => l.id === otherId);
+      if (!other || !['running', 'paused', 'queued'].includes(other.status)) continue;
+      appendLog(otherId, { type: 'system', content: `Race won by ${loop.agent} - stopping` });
+      stopLoop(otherId);
+    }
+  }
+
+  return loopId;
+}
+
+/**
+ * Referee races as their loops complete. Returns a function that stops it.
+ * Runs wherever loops run (TUI without a daemon, or the daemon).
+ */
+export function startRaceReferee(): () => void {
+  const onCompleted = (event: LoopEvent): void => {
+    recordRaceCompletion(event.loopId);
+  };
+  loopEvents.on('completed', onCompleted);
+  return () => {
+    loopEvents.off('completed', onCompleted);
+  };
+}
+
+/**
+ * Side-by-side summary of a race's loops (in creation order).
+ */
+export function summarizeRace(raceId: string): RaceEntry[] {
+  const state = loadState();
+  const race = state.races?.find(r => r.id === raceId);
+  if (!race) {
+    throw new Error(`Race not found: ${raceId}`);
+  }
+
+  const entries: RaceEntry[] = [];
+  for (const loopId of race.loopIds) {
+    const loop = state.loops.find(l => l.id === loopId);
+    if (!loop) continue;
+
+    const stat = loop.startCommit
+      ? getChangedFilesSummary(loop.workingDir, loop.startCommit).split('\n').pop() ?? ''
+      : 'not started';
+    entries.push({
+      loopId,
+      agent: loop.agent,
+      status: loop.status,
+      iterations: loop.iteration ?? 0,
+      durationMs: getLoopDurationMs(loop),
+      criteriaDone: loop.issue.acceptanceCriteria.filter(c => c.completed).length,
+      criteriaTotal: loop.issue.acceptanceCriteria.length,
+      diffStat: stat.trim(),
+      reviewVerdict: loop.reviewVerdict,
+      branch: loop.worktreeBranch,
+      isWinner: race.winnerLoopId === loopId,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Promote one loop's branch as the race result: the race is closed and the
+ * other loops are hidden. Active losers must be stopped first.
+ */
+export function promoteRaceLoop(raceId: string, loopId: string): void {
+  const state = loadState();
+  const race = state.races?.find(r => r.id === raceId);
+  if (!race) {
+    throw new Error(`Race not found: ${raceId}`);
+  }
+  if (!race.loopIds.includes(loopId)) {
+    throw new Error(`Loop ${loopId} is not part of race ${raceId}`);
+  }
+
+  const loop = state.loops.find(l => l.id === loopId);
+  if (loop?.status !== 'completed') {
+    throw new Error(`Only a completed loop can be promoted (status: ${loop?.status ?? 'missing'})`);
+  }
+
+  const active = race.loopIds.filter(id => {
+    const other = state.loops.find(l => l.id === id);
+    return other && (other.status === 'running' || other.status === 'paused');
+  });
+  if (active.length > 0) {
+    throw new Error(`Stop the other race loops first (${active.length} still active)`);
+  }
+
+  mutateState(current => race.loopIds
+    .filter(otherId => otherId !== loopId)
+    .reduce((next, otherId) => updateLoop(next, otherId, { hidden: true }), current));
+  saveRace(raceId, { promotedLoopId: loopId });
+
+  appendLog(loopId, {
+    type: 'system',
+    content: `Promoted as the result of race ${raceId}${loop.worktreeBranch ? ` (branch ${loop.worktreeBranch})` : ''}`,
+  });
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { LoopIterationState } from './types.js';
+import { getLoopDir, ensureLoopDir } from './state.js';
+import { appendLog } from './logs.js';
+
+/**
+ * Checkpoint of in-memory loop execution state, written to the loop directory
+ * after every iteration so a loop can be resumed after a crash or restart.
+ */
+export interface RecoveryState {
+  loopId: string;
+  ownerPid: number;             // alex process that was driving the loop
+  savedAt: string;              // ISO timestamp
+  iterState: LoopIterationState;
+  pendingIntervention?: string; // operator message not yet injected
+}
+
+// Get recovery checkpoint path for a loop
+export function getRecoveryPath(loopId: string): string {
+  return path.join(getLoopDir(loopId), 'recovery.json');
+}
+
+// Save a recovery checkpoint (atomic write so a crash never leaves a torn file)
+export function saveRecoveryState(
+  loopId: string,
+  iterState: LoopIterationState,
+  pendingIntervention?: string
+): void {
+  ensureLoopDir(loopId);
+  const recovery: RecoveryState = {
+    loopId,
+    ownerPid: process.pid,
+    savedAt: new Date().toISOString(),
+    iterState,
+    pendingIntervention,
+  };
+
+  const recoveryPath = getRecoveryPath(loopId);
+  const tmpPath = `${recoveryPath}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, JSON.stringify(recovery, null, 2));
+    fs.renameSync(tmpPath, recoveryPath);
+  } catch (err) {
+    // Logged on the loop - console output would corrupt the TUI
+    appendLog(loopId, {
+      type: 'error',
+      content: `Failed to save recovery state: ${err instanceof Error ? err.message : String(err)}`,
+    });
+  }
+}
+
+// Load the recovery checkpoint for a loop (null if none or unreadable)
+export function loadRecoveryState(loopId: string): RecoveryState | null {
+  const recoveryPath = getRecoveryPath(loopId);
+  if (!fs.existsSync(recoveryPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(recoveryPath, 'utf-8')) as RecoveryState;
+  } catch {
+    return null;
+  }
+}
+
+// Remove the recovery checkpoint once a loop has finished
+export function clearRecoveryState(loopId: string): void {
+  try {
+    fs.rmSync(getRecoveryPath(loopId), { force: true });
+  } catch {
+    // Nothing to clean up
+  }
+}
+
+/**
+ * Check if a process is still alive (signal 0 only tests for existence).
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
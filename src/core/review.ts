@@ -1,5 +1,6 @@
 import { Loop, AcceptanceCriterion } from './types.js';
 import { generateResumeSummary } from './logs.js';
+import { formatIssueRef } from './issues.js';
 import { getGitDiff, getChangedFilesSummary } from './worktree.js';
 
 /**
@@ -16,6 +17,7 @@ export function buildReviewPrompt(
   // Format acceptance criteria
   const criteriaList = issue.acceptanceCriteria
     .map((c, i) => {
+      if (c.removed) return `  ${i + 1}. ✗ ${c.text} (removed from the issue)`;
       const status = c.completed ? '✓' : '○';
       const completedBy = c.completedBy ? ` (by ${c.completedBy})` : '';
       return `  ${i + 1}. ${status} ${c.text}${completedBy}`;
@@ -27,7 +29,7 @@ export function buildReviewPrompt(
 ## Original Issue
 
 **Title:** ${issue.title}
-**Issue #${issue.number}** in ${issue.repo}
+**Issue ${formatIssueRef(issue)}** in ${issue.repo}
 
 **Description:**
 ${issue.body || 'No description provided.'}
@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'bun:test';
+import { parsePullRequestUrl, buildReviewThreadIssue, PullRequestData } from './reviewThreads.js';
+
+describe('parsePullRequestUrl', () => {
+  test('matches pull request URLs only', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/app/pull/57/files')).toEqual({ repo: 'acme/app', number: 57 });
+    expect(parsePullRequestUrl('https://github.com/acme/app/issues/57')).toBeNull();
+  });
+});
+
+describe('buildReviewThreadIssue', () => {
+  const pr: PullRequestData = {
+    number: 57,
+    title: 'Add parser',
+    body: 'Adds the parser.',
+    url: 'https://github.com/acme/app/pull/57',
+    headRefName: 'feature/parser',
+    baseRefName: 'main',
+    isCrossRepository: false,
+    reviewThreads: {
+      nodes: [
+        {
+          id: 'T1', isResolved: false, isOutdated: false, path: 'src/parser.ts', line: 42, originalLine: 40,
+          comments: { nodes: [
+            { author: { login: 'alice' }, body: 'Handle empty input here.\n\nIt throws today.', diffHunk: '@@ -1,3 +1,3 @@\n-a\n+b' },
+            { author: { login: 'bob' }, body: 'Agreed' },
+          ] },
+        },
+        {
+          id: 'T2', isResolved: true, isOutdated: false, path: 'README.md', line: 3, originalLine: 3,
+          comments: { nodes: [{ author: { login: 'alice' }, body: 'Typo' }] },
+        },
+        {
+          id: 'T3', isResolved: false, isOutdated: true, path: 'src/old.ts', line: null, originalLine: 7,
+          comments: { nodes: [{ author: null, body: 'Remove this' }] },
+        },
+      ],
+    },
+  };
+
+  test('makes a criterion per unresolved thread with its location', () => {
+    const issue = buildReviewThreadIssue(pr, 'acme/app');
+    expect(issue.acceptanceCriteria).toEqual([
+      { text: 'src/parser.ts:42 - Handle empty input here.', completed: false, reviewThread: { id: 'T1', path: 'src/parser.ts', line: 42 } },
+      { text: 'src/old.ts:7 - Remove this', completed: false, reviewThread: { id: 'T3', path: 'src/old.ts', line: 7 } },
+    ]);
+    expect(issue.pullRequest).toEqual({ headRefName: 'feature/parser', baseRefName: 'main', isCrossRepository: false });
+  });
+
+  test('puts the diff context and whole conversation in the body', () => {
+    const { body } = buildReviewThreadIssue(pr, 'acme/app');
+    expect(body).toContain('### 1. src/parser.ts:42\n\n```diff\n@@ -1,3 +1,3 @@\n-a\n+b\n```');
+    expect(body).toContain('**@alice:** Handle empty input here.\n\nIt throws today.\n\n**@bob:** Agreed');
+    expect(body).toContain('### 2. src/old.ts:7 (outdated)');
+    expect(body).not.toContain('Typo');
+  });
+});
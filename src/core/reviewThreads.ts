@@ -0,0 +1,206 @@
+import { execFile } from 'child_process';
+import { Issue, AcceptanceCriterion } from './types.js';
+
+/**
+ * Pull request review threads as a loop source. A PR URL becomes an Issue
+ * whose acceptance criteria are the PR's unresolved review threads (file and
+ * line in the text, the full conversation in the body); the loop runs on the
+ * PR's head branch and can reply to or resolve the threads it addressed.
+ */
+
+// Parse a GitHub pull request URL
+// Supports: https://github.com/owner/repo/pull/123 (and /files, /commits, ...)
+export function parsePullRequestUrl(url: string): { repo: string; number: number } | null {
+  const match = url.match(/github\.com\/([^/]+\/[^/]+)\/pull\/(\d+)/);
+  if (!match) return null;
+  return {
+    repo: match[1],
+    number: parseInt(match[2], 10),
+  };
+}
+
+const PULL_REQUEST_QUERY = `
+query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      number title body url headRefName baseRefName isCrossRepository
+      reviewThreads(first: 100) {
+        nodes {
+          id isResolved isOutdated path line originalLine
+          comments(first: 50) { nodes { author { login } body diffHunk } }
+        }
+      }
+    }
+  }
+}`;
+
+interface ReviewThreadNode {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  path: string;
+  line: number | null;
+  originalLine: number | null;
+  comments: { nodes: { author: { login: string } | null; body: string; diffHunk?: string }[] };
+}
+
+export interface PullRequestData {
+  number: number;
+  title: string;
+  body: string | null;
+  url: string;
+  headRefName: string;
+  baseRefName: string;
+  isCrossRepository: boolean;
+  reviewThreads: { nodes: ReviewThreadNode[] };
+}
+
+// Lines of the diff hunk shown above a thread (the commented line is last)
+const HUNK_CONTEXT_LINES = 6;
+const MAX_CRITERION_SUMMARY = 100;
+
+function firstLine(text: string): string {
+  const line = text.split('\n').map(l => l.trim()).find(l => l.length > 0) ?? '';
+  return line.length > MAX_CRITERION_SUMMARY ? `${line.substring(0, MAX_CRITERION_SUMMARY - 1)}…` : line;
+}
+
+/**
+ * Turn a pull request's GraphQL data into an Issue: one criterion per
+ * unresolved review thread, and the PR description plus every thread's
+ * diff context and comments as the body.
+ */
+export function buildReviewThreadIssue(pr: PullRequestData, repo: string): Issue {
+  const threads = pr.reviewThreads.nodes.filter(t => !t.isResolved && t.comments.nodes.length > 0);
+
+  const acceptanceCriteria: AcceptanceCriterion[] = threads.map(thread => {
+    const line = thread.line ?? thread.originalLine ?? undefined;
+    const location = line ? `${thread.path}:${line}` : thread.path;
+    return {
+      text: `${location} - ${firstLine(thread.comments.nodes[0].body)}`,
+      completed: false,
+      reviewThread: { id: thread.id, path: thread.path, line },
+    };
+  });
+
+  const sections = threads.map((thread, i) => {
+    const line = thread.line ?? thread.originalLine;
+    const header = `### ${i + 1}. ${thread.path}${line ? `:${line}` : ''}${thread.isOutdated ? ' (outdated)' : ''}`;
+    const hunk = thread.comments.nodes[0].diffHunk?.split('\n').slice(-HUNK_CONTEXT_LINES).join('\n');
+    const comments = thread.comments.nodes
+      .map(c => `**@${c.author?.login ?? 'ghost'}:** ${c.body.trim()}`)
+      .join('\n\n');
+    return [header, hunk ? `\`\`\`diff\n${hunk}\n\`\`\`` : '', comments].filter(Boolean).join('\n\n');
+  });
+
+  const body = [
+    pr.body?.trim() || 'No description provided.',
+    sections.length > 0 ? `## Unresolved Review Threads\n\n${sections.join('\n\n')}` : 'No unresolved review threads.',
+  ].join('\n\n');
+
+  return {
+    url: pr.url,
+    number: pr.number,
+    title: pr.title,
+    body,
+    repo,
+    acceptanceCriteria,
+    originalAcceptanceCriteria: acceptanceCriteria.map(criterion => ({ ...criterion })),
+    pullRequest: {
+      headRefName: pr.headRefName,
+      baseRefName: pr.baseRefName,
+      isCrossRepository: pr.isCrossRepository,
+    },
+  };
+}
+
+// Run a command without blocking, rejecting with its stderr (or the error
+// message) as the error
+function execAsync(command: string, args: string[], options: { cwd?: string; timeout: number }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, { ...options, encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 },
+      (err: any, stdout: string, stderr: string) => {
+        if (err) {
+          reject(Object.assign(err, { stderr }));
+        } else {
+          resolve(stdout);
+        }
+      });
+    child.stdin?.end();
+  });
+}
+
+// Run `gh api graphql` with string (-f) and typed (-F) fields
+async function graphql(query: string, fields: Record<string, string | number>, action: string): Promise<any> {
+  const args = ['api', 'graphql', '-f', `query=${query}`];
+  for (const [key, value] of Object.entries(fields)) {
+    args.push(typeof value === 'number' ? '-F' : '-f', `${key}=${value}`);
+  }
+
+  let result: string;
+  try {
+    result = await execAsync('gh', args, { timeout: 30000 });
+  } catch (err: any) {
+    const stderr = err?.stderr?.toString?.() || '';
+    const message = (stderr || err?.message || '').trim();
+
+    if (err?.code === 'ENOENT' || message.includes('gh: command not found')) {
+      throw new Error('GitHub CLI (gh) not found. Install from https://cli.github.com');
+    }
+
+    throw new Error(`Failed to ${action}: ${message.split('\n')[0] || 'Unknown error'}`);
+  }
+  return JSON.parse(result);
+}
+
+// Fetch a pull request and its unresolved review threads using gh CLI
+export async function fetchPullRequest(url: string): Promise<Issue> {
+  const parsed = parsePullRequestUrl(url);
+  if (!parsed) {
+    throw new Error(`Invalid GitHub pull request URL: ${url}`);
+  }
+
+  const [owner, name] = parsed.repo.split('/');
+  const data = await graphql(PULL_REQUEST_QUERY, { owner, name, number: parsed.number }, 'fetch pull request');
+  const pr = data?.data?.repository?.pullRequest as PullRequestData | undefined;
+  if (!pr) {
+    throw new Error(`Failed to fetch pull request: #${parsed.number} not found in ${parsed.repo}`);
+  }
+
+  return buildReviewThreadIssue(pr, parsed.repo);
+}
+
+/**
+ * Post a reply on a review thread, optionally resolving it.
+ */
+export async function replyToReviewThread(threadId: string, body: string, resolve: boolean): Promise<void> {
+  await graphql(
+    'mutation($threadId: ID!, $body: String!) { addPullRequestReviewThreadReply(input: { pullRequestReviewThreadId: $threadId, body: $body }) { comment { id } } }',
+    { threadId, body },
+    'reply to review thread'
+  );
+  if (resolve) {
+    await graphql(
+      'mutation($threadId: ID!) { resolveReviewThread(input: { threadId: $threadId }) { thread { id } } }',
+      { threadId },
+      'resolve review thread'
+    );
+  }
+}
+
+/**
+ * Fetch a pull request's head into refs/remotes/origin/pr/{number} (works
+ * for branches in forks too) and return the ref to base a worktree on.
+ */
+export async function fetchPullRequestHead(repoRoot: string, number: number): Promise<string> {
+  const ref = `origin/pr/${number}`;
+  try {
+    await execAsync('git', ['fetch', 'origin', `+refs/pull/${number}/head:refs/remotes/${ref}`], {
+      cwd: repoRoot,
+      timeout: 120000,
+    });
+  } catch (err: any) {
+    const message = (err?.stderr?.toString?.() || err?.message || '').trim();
+    throw new Error(`Failed to fetch pull request #${number}: ${message.split('\n')[0] || 'Unknown error'}`);
+  }
+  return ref;
+}
@@ -0,0 +1,159 @@
+import { Loop, LoopEvent } from './types.js';
+import { loadState, mutateState } from './state.js';
+import { appendLog } from './logs.js';
+import { loopEvents, startLoop, markLoopStartFailed } from './loops.js';
+import { areDependenciesMet } from './dependencies.js';
+import { MAX_CONCURRENT_LOOPS } from '../config.js';
+
+/**
+ * Concurrency-limited scheduler for queued loops.
+ * Whenever a running loop finishes (completed/error/stopped), queued loops are
+ * started in priority order until the global concurrency limit is reached.
+ * Disabled when loops.maxConcurrent is 0 (the default) - loops then wait for
+ * a manual start, as before.
+ */
+
+/**
+ * Get the creation time of a loop (falls back to the timestamp in its ID).
+ */
+function getCreatedTime(loop: Loop): number {
+  if (loop.createdAt) {
+    return new Date(loop.createdAt).getTime();
+  }
+  const match = loop.id.match(/^loop_(\d+)_/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Order queued loops: highest priority first, then oldest first.
+ */
+export function compareQueuedLoops(a: Loop, b: Loop): number {
+  const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
+  if (priorityDiff !== 0) return priorityDiff;
+  return getCreatedTime(a) - getCreatedTime(b);
+}
+
+/**
+ * Get queued loops in the order the scheduler would start them.
+ * Hidden and held loops and loops waiting on dependencies are never
+ * auto-started.
+ */
+export function getQueuedLoops(loops: Loop[]): Loop[] {
+  return loops
+    .filter(l => l.status === 'queued' && !l.hidden && !l.held && areDependenciesMet(l, loops))
+    .sort(compareQueuedLoops);
+}
+
+/**
+ * Check if the scheduler is enabled (a concurrency limit is configured).
+ */
+export function isSchedulerEnabled(): boolean {
+  return MAX_CONCURRENT_LOOPS > 0;
+}
+
+/**
+ * Check if the queue is held (no auto-starts until drained).
+ */
+export function isQueueHeld(): boolean {
+  return loadState().settings?.queueHeld === true;
+}
+
+/**
+ * Start as many queued loops as the concurrency limit allows.
+ * Returns the IDs of the loops that were started.
+ */
+export function scheduleQueuedLoops(): string[] {
+  if (!isSchedulerEnabled()) return [];
+
+  // Claim the loops under the state lock (running, startingPid set), so this
+  // and other alex processes count them before startLoop gets to them
+  let toStart: Loop[] = [];
+  let runningCount = 0;
+  mutateState(state => {
+    toStart = [];
+    if (state.settings?.queueHeld) return state;
+
+    runningCount = state.loops.filter(l => l.status === 'running').length;
+    const slots = MAX_CONCURRENT_LOOPS - runningCount;
+    if (slots <= 0) return state;
+
+    toStart = getQueuedLoops(state.loops).slice(0, slots);
+    if (toStart.length === 0) return state;
+    const claimed = new Set(toStart.map(l => l.id));
+    return {
+      ...state,
+      loops: state.loops.map(l => (claimed.has(l.id) ? { ...l, status: 'running', startingPid: process.pid } : l)),
+    };
+  });
+
+  for (const loop of toStart) {
+    appendLog(loop.id, {
+      type: 'system',
+      content: `Scheduler: starting queued loop (priority ${loop.priority ?? 0}, ${runningCount} running, limit ${MAX_CONCURRENT_LOOPS})`,
+    });
+    // Failures would otherwise leave the claim holding a slot forever
+    startLoop(loop.id).catch((err: Error) => {
+      markLoopStartFailed(loop.id, err.message);
+    });
+  }
+
+  return toStart.map(l => l.id);
+}
+
+/**
+ * Hold the queue - queued loops stay queued until the queue is drained.
+ */
+export function holdQueue(): void {
+  mutateState(state => ({ ...state, settings: { ...state.settings, queueHeld: true } }));
+}
+
+/**
+ * Release a held queue and start queued loops up to the concurrency limit.
+ */
+export function drainQueue(): string[] {
+  mutateState(state => ({ ...state, settings: { ...state.settings, queueHeld: false } }));
+  return scheduleQueuedLoops();
+}
+
+/**
+ * Adjust the priority of a loop by delta. Returns the new priority.
+ */
+export function adjustLoopPriority(loopId: string, delta: number): number {
+  let priority = 0;
+  mutateState(state => {
+    const loop = state.loops.find(l => l.id === loopId);
+    if (!loop) {
+      throw new Error(`Loop not found: ${loopId}`);
+    }
+
+    priority = (loop.priority ?? 0) + delta;
+    return {
+      ...state,
+      loops: state.loops.map(l => (l.id === loopId ? { ...l, priority } : l)),
+    };
+  });
+  return priority;
+}
+
+/**
+ * Start the scheduler: fill free slots now and whenever a loop finishes.
+ * Returns a cleanup function that detaches the scheduler.
+ */
+export function startScheduler(): () => void {
+  const onFinished = (_event: LoopEvent): void => {
+    // Defer so finalization (and any auto-created review loops) land first
+    setImmediate(() => scheduleQueuedLoops());
+  };
+
+  loopEvents.on('completed', onFinished);
+  loopEvents.on('error', onFinished);
+  loopEvents.on('stopped', onFinished);
+
+  scheduleQueuedLoops();
+
+  return () => {
+    loopEvents.off('completed', onFinished);
+    loopEvents.off('error', onFinished);
+    loopEvents.off('stopped', onFinished);
+  };
+}
@@ -0,0 +1,99 @@
+import { spawn } from 'bun';
+
+/**
+ * Run shell commands for the loop: criterion verification (core/verify.ts),
+ * the test command (core/testResults.ts) and repo hooks (core/hooks.ts).
+ */
+export interface ShellCommandResult {
+  ok: boolean;
+  exitCode: number | null;  // null if the command timed out
+  output: string;           // tail of stdout + stderr
+  durationMs: number;
+}
+
+export interface ShellCommandOptions {
+  timeoutMs: number;
+  maxOutputChars: number;
+  env?: Record<string, string>;  // added to the process environment
+}
+
+function tail(text: string, max: number): string {
+  const trimmed = text.trim();
+  return trimmed.length > max ? `…${trimmed.slice(-max)}` : trimmed;
+}
+
+/**
+ * Run a command through the shell (so pipes and `&&` work) in a directory.
+ */
+export async function runShellCommand(
+  command: string,
+  workingDir: string,
+  options: ShellCommandOptions
+): Promise<ShellCommandResult> {
+  const { timeoutMs, maxOutputChars } = options;
+  const startedAt = Date.now();
+  let proc;
+  try {
+    // Own process group, so a timeout takes down what the command started too
+    proc = spawn(['sh', '-c', command], {
+      cwd: workingDir,
+      detached: true,
+      env: { ...process.env, ...options.env },
+      stdin: 'ignore',
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+  } catch (err: any) {
+    return { ok: false, exitCode: null, output: err.message, durationMs: Date.now() - startedAt };
+  }
+
+  let stdout = '';
+  let stderr = '';
+  const readers = [proc.stdout.getReader(), proc.stderr.getReader()];
+  const drain = async (index: number): Promise<void> => {
+    try {
+      while (true) {
+        const { done, value } = await readers[index].read();
+        if (done) break;
+        const text = new TextDecoder().decode(value);
+        if (index === 0) stdout += text;
+        else stderr += text;
+      }
+    } catch {
+      // Reader cancelled
+    }
+  };
+  const draining = Promise.all([drain(0), drain(1)]);
+
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    try {
+      process.kill(-proc.pid, 'SIGKILL');
+    } catch {
+      // Process group already gone - kill the shell itself
+      proc.kill('SIGKILL');
+    }
+  }, timeoutMs);
+
+  const exitCode = await proc.exited;
+  clearTimeout(timeoutId);
+
+  // Background processes the command left behind can hold the pipes open -
+  // don't wait on them past a short grace period
+  await Promise.race([draining, new Promise(resolve => setTimeout(resolve, 500))]);
+  for (const reader of readers) {
+    reader.cancel().catch(() => {});
+  }
+
+  const output = tail([stdout, stderr].filter(part => part.trim()).join('\n'), maxOutputChars);
+  if (timedOut) {
+    return {
+      ok: false,
+      exitCode: null,
+      output: `${output}\n(timed out after ${Math.round(timeoutMs / 1000)}s)`.trim(),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+  return { ok: exitCode === 0, exitCode, output, durationMs: Date.now() - startedAt };
+}
@@ -13,6 +13,65 @@ export function ensureDataDirs(): void {
   }
 }
 
+/**
+ * state.json is shared by every alex process (TUI, daemon, run, import,
+ * watch). Writes go through a temp file and rename, so readers never see a
+ * torn file, and read-modify-write cycles (mutateState) hold a lock file so
+ * concurrent writers don't drop each other's updates.
+ */
+
+const STATE_LOCK_FILE = `${STATE_FILE}.lock`;
+
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 10000;
+const LOCK_TIMEOUT_MS = 5000;
+
+// Nesting depth of this process's hold on the lock (mutateState may nest)
+let lockDepth = 0;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function acquireStateLock(): void {
+  if (lockDepth++ > 0) return;
+
+  ensureDataDirs();
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(STATE_LOCK_FILE, 'wx'));
+      return;
+    } catch (err: any) {
+      if (err?.code !== 'EEXIST') {
+        lockDepth--;
+        throw err;
+      }
+    }
+
+    try {
+      if (Date.now() - fs.statSync(STATE_LOCK_FILE).mtimeMs > STALE_LOCK_MS) {
+        fs.rmSync(STATE_LOCK_FILE, { force: true });
+        continue;
+      }
+    } catch {
+      // Released meanwhile - retry
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      lockDepth--;
+      throw new Error(`Timed out waiting for the state lock (${STATE_LOCK_FILE})`);
+    }
+    sleepSync(10);
+  }
+}
+
+function releaseStateLock(): void {
+  if (--lockDepth > 0) return;
+  fs.rmSync(STATE_LOCK_FILE, { force: true });
+}
+
 // Load state from disk
 export function loadState(): AppState {
   ensureDataDirs();
@@ -21,26 +80,55 @@ export function loadState(): AppState {
     return { loops: [] };
   }
 
+  const data = fs.readFileSync(STATE_FILE, 'utf-8');
   try {
-    const data = fs.readFileSync(STATE_FILE, 'utf-8');
     return JSON.parse(data) as AppState;
   } catch (err) {
-    console.error('Failed to load state:', err);
-    return { loops: [] };
+    // Move the unreadable file aside - saving over it would drop every loop
+    const backup = `${STATE_FILE}.corrupt-${Date.now()}`;
+    fs.renameSync(STATE_FILE, backup);
+    throw new Error(`Unreadable state file (kept as ${backup}): ${err instanceof Error ? err.message : String(err)}`);
   }
 }
 
-// Save state to disk
+// Save state to disk (atomic - readers see the old or the new file)
 export function saveState(state: AppState): void {
   ensureDataDirs();
 
+  const tmpPath = `${STATE_FILE}.${process.pid}.tmp`;
+  acquireStateLock();
   try {
-    fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
-  } catch (err) {
-    console.error('Failed to save state:', err);
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpPath, STATE_FILE);
+  } finally {
+    releaseStateLock();
   }
 }
 
+/**
+ * Read-modify-write state.json under the state lock: `mutate` gets the state
+ * as it is on disk now and returns the state to save (the same object to
+ * save nothing, as does throwing). Returns the resulting state.
+ */
+export function mutateState(mutate: (state: AppState) => AppState): AppState {
+  acquireStateLock();
+  try {
+    const current = loadState();
+    const state = mutate(current);
+    if (state !== current) {
+      saveState(state);
+    }
+    return state;
+  } finally {
+    releaseStateLock();
+  }
+}
+
+// Update one loop in state.json (no-op if it doesn't exist)
+export function saveLoopUpdates(loopId: string, updates: Partial<Loop>): AppState {
+  return mutateState(state => updateLoop(state, loopId, updates));
+}
+
 // Get loop directory for a specific loop
 export function getLoopDir(loopId: string): string {
   return path.join(LOOPS_DIR, loopId);
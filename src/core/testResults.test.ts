@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test';
+import { parseTestCounts, summarizeTestFailures, isTestProgress, formatTestRun } from './testResults.js';
+import { TestRun } from './types.js';
+
+describe('parseTestCounts', () => {
+  test('bun test', () => {
+    const output = '(fail) parser > handles empty input\n\n 12 pass\n 2 skip\n 3 fail\n 40 expect() calls\nRan 17 tests across 4 files.';
+    expect(parseTestCounts(output)).toEqual({ passed: 12, failed: 3, skipped: 2 });
+  });
+
+  test('jest and vitest', () => {
+    expect(parseTestCounts('Test Suites: 1 failed, 2 passed, 3 total\nTests:       2 failed, 1 skipped, 9 passed, 12 total'))
+      .toEqual({ passed: 9, failed: 2, skipped: 1 });
+    expect(parseTestCounts(' Test Files  1 failed (1)\n      Tests  1 failed | 3 passed (4)'))
+      .toEqual({ passed: 3, failed: 1, skipped: 0 });
+  });
+
+  test('pytest', () => {
+    expect(parseTestCounts('FAILED tests/test_a.py::test_x\n==== 1 failed, 5 passed, 1 error in 0.12s ===='))
+      .toEqual({ passed: 5, failed: 2, skipped: 0 });
+    expect(parseTestCounts('\x1b[32m===== 7 passed in 1.03s =====\x1b[0m')).toEqual({ passed: 7, failed: 0, skipped: 0 });
+  });
+
+  test('cargo sums every test binary', () => {
+    const output = 'test result: FAILED. 3 passed; 1 failed; 0 ignored; 0 measured\n' +
+      'test result: ok. 2 passed; 0 failed; 1 ignored; 0 measured';
+    expect(parseTestCounts(output)).toEqual({ passed: 5, failed: 1, skipped: 1 });
+  });
+
+  test('mocha and go test -v', () => {
+    expect(parseTestCounts('  4 passing (12ms)\n  1 pending\n  2 failing')).toEqual({ passed: 4, failed: 2, skipped: 1 });
+    expect(parseTestCounts('--- PASS: TestA (0.00s)\n--- FAIL: TestB (0.00s)\n--- PASS: TestC (0.00s)\nFAIL'))
+      .toEqual({ passed: 2, failed: 1, skipped: 0 });
+  });
+
+  test('returns null without a summary', () => {
+    expect(parseTestCounts('Compiling...\nerror: could not compile')).toBeNull();
+  });
+});
+
+describe('summarizeTestFailures', () => {
+  test('keeps failing tests and errors', () => {
+    const output = 'src/a.test.ts:\n✓ works\n(fail) parser > handles empty input\nerror: expect(received).toBe(expected)\n\n 1 pass\n 1 fail';
+    expect(summarizeTestFailures(output)).toBe('(fail) parser > handles empty input\nerror: expect(received).toBe(expected)');
+  });
+});
+
+describe('isTestProgress', () => {
+  const run = (failed: number, passed: number, ok = failed === 0): TestRun => ({
+    ok,
+    exitCode: ok ? 0 : 1,
+    counts: { passed, failed, skipped: 0 },
+    failures: '',
+    durationMs: 0,
+    at: '',
+  });
+
+  test('fewer failures or more passes is progress', () => {
+    expect(isTestProgress(run(9, 3), run(12, 0))).toBe(true);
+    expect(isTestProgress(run(2, 10), run(2, 8))).toBe(true);
+    expect(isTestProgress(run(0, 12), run(1, 11))).toBe(true);
+  });
+
+  test('no change, regressions and the first run are not', () => {
+    expect(isTestProgress(run(3, 9), run(3, 9))).toBe(false);
+    expect(isTestProgress(run(4, 10), run(3, 9))).toBe(false);
+    expect(isTestProgress(run(3, 9), undefined)).toBe(false);
+  });
+
+  test('formatTestRun', () => {
+    expect(formatTestRun(run(3, 9))).toBe('3 failed, 9 passed');
+    expect(formatTestRun({ ...run(0, 0), counts: null, ok: false, exitCode: 2 })).toBe('failed (exit 2)');
+  });
+});
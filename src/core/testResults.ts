@@ -0,0 +1,165 @@
+import { TestCounts, TestRun } from './types.js';
+import { runShellCommand } from './shell.js';
+
+/**
+ * Test-driven loops. A loop whose run policy has a `testCommand` runs it
+ * after every iteration; the pass/fail counts parsed from its output are a
+ * progress signal for the analyzer, failures go into the follow-up prompt,
+ * and the loop only completes once the suite is green.
+ */
+
+// Enough output to keep the runner's summary and a useful failure list
+const MAX_TEST_OUTPUT_CHARS = 20000;
+const MAX_FAILURE_LINES = 30;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+function sumMatches(output: string, pattern: RegExp): number | null {
+  let total: number | null = null;
+  for (const match of output.matchAll(pattern)) {
+    total = (total ?? 0) + parseInt(match[1], 10);
+  }
+  return total;
+}
+
+// "3 passed, 1 failed, 2 skipped" style lists (jest, vitest, pytest)
+function countWords(line: string): TestCounts {
+  const counts: TestCounts = { passed: 0, failed: 0, skipped: 0 };
+  for (const match of line.matchAll(/(\d+) (passed|failed|errors?|skipped|todo|xfailed|xpassed)/g)) {
+    const n = parseInt(match[1], 10);
+    if (match[2] === 'passed' || match[2] === 'xpassed') counts.passed += n;
+    else if (match[2] === 'failed' || match[2].startsWith('error')) counts.failed += n;
+    else counts.skipped += n;
+  }
+  return counts;
+}
+
+// Summary formats, tried in order - the first that matches wins
+const COUNT_PARSERS: ((output: string) => TestCounts | null)[] = [
+  // bun test: " 38 pass" / " 0 fail" / " 2 skip"
+  (output) => {
+    const passed = sumMatches(output, /^\s*(\d+) pass$/gm);
+    const failed = sumMatches(output, /^\s*(\d+) fail$/gm);
+    if (passed === null && failed === null) return null;
+    return { passed: passed ?? 0, failed: failed ?? 0, skipped: sumMatches(output, /^\s*(\d+) skip$/gm) ?? 0 };
+  },
+  // jest "Tests: 1 failed, 3 passed, 4 total", vitest "Tests  1 failed | 3 passed (4)"
+  (output) => {
+    const line = output.match(/^\s*Tests:?\s+(.*\d+ (?:passed|failed).*)$/m);
+    return line ? countWords(line[1]) : null;
+  },
+  // pytest "==== 1 failed, 3 passed in 0.12s ===="
+  (output) => {
+    const line = output.match(/^=+ (.*\d+ (?:passed|failed|errors?).*) in [\d.]+s.*=+$/m);
+    return line ? countWords(line[1]) : null;
+  },
+  // cargo test, once per test binary: "test result: FAILED. 3 passed; 1 failed; 0 ignored"
+  (output) => {
+    const passed = sumMatches(output, /test result: \w+\. (\d+) passed/g);
+    if (passed === null) return null;
+    return {
+      passed,
+      failed: sumMatches(output, /test result: \w+\. \d+ passed; (\d+) failed/g) ?? 0,
+      skipped: sumMatches(output, /test result: \w+\. \d+ passed; \d+ failed; (\d+) ignored/g) ?? 0,
+    };
+  },
+  // mocha "3 passing (10ms)" / "1 failing" / "2 pending"
+  (output) => {
+    const passed = sumMatches(output, /^\s*(\d+) passing\b/gm);
+    const failed = sumMatches(output, /^\s*(\d+) failing\b/gm);
+    if (passed === null && failed === null) return null;
+    return { passed: passed ?? 0, failed: failed ?? 0, skipped: sumMatches(output, /^\s*(\d+) pending\b/gm) ?? 0 };
+  },
+  // go test -v: one "--- PASS:" / "--- FAIL:" line per test
+  (output) => {
+    const passed = (output.match(/^\s*--- PASS:/gm) ?? []).length;
+    const failed = (output.match(/^\s*--- FAIL:/gm) ?? []).length;
+    if (passed === 0 && failed === 0) return null;
+    return { passed, failed, skipped: (output.match(/^\s*--- SKIP:/gm) ?? []).length };
+  },
+];
+
+/**
+ * Parse pass/fail counts from a test runner's output (bun, jest, vitest,
+ * pytest, cargo, mocha, go test -v). Returns null if no summary is found.
+ */
+export function parseTestCounts(output: string): TestCounts | null {
+  const clean = output.replace(ANSI_PATTERN, '');
+  for (const parse of COUNT_PARSERS) {
+    const counts = parse(clean);
+    if (counts) return counts;
+  }
+  return null;
+}
+
+const FAILURE_LINE_PATTERNS = [
+  /\(fail\)/,
+  /^\s*[✗✕×●]\s/,
+  /\bFAIL(?:ED)?\b/,
+  /^\s*--- FAIL:/,
+  /\b(?:Error|Exception)\b/,
+  /^\s*error:/i,
+  /^\s*(?:expected|received|assert)/i,
+];
+
+/**
+ * The lines of a test run worth showing the agent: failing tests and error
+ * messages, or the end of the output if none stand out.
+ */
+export function summarizeTestFailures(output: string): string {
+  const lines = output.replace(ANSI_PATTERN, '').split('\n');
+  const picked: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (!trimmed.trim() || picked.includes(trimmed)) continue;
+    if (FAILURE_LINE_PATTERNS.some(pattern => pattern.test(trimmed))) {
+      picked.push(trimmed.length > 200 ? `${trimmed.substring(0, 199)}…` : trimmed);
+      if (picked.length >= MAX_FAILURE_LINES) break;
+    }
+  }
+  if (picked.length > 0) return picked.join('\n');
+  return lines.filter(line => line.trim()).slice(-MAX_FAILURE_LINES).join('\n');
+}
+
+/**
+ * Run the test command in the loop's working directory. The suite is green
+ * when the command exits 0 and no failures were counted.
+ */
+export async function runTestCommand(command: string, workingDir: string, timeoutMs: number): Promise<TestRun> {
+  const result = await runShellCommand(command, workingDir, { timeoutMs, maxOutputChars: MAX_TEST_OUTPUT_CHARS });
+  const counts = parseTestCounts(result.output);
+  const ok = result.ok && (counts?.failed ?? 0) === 0;
+  return {
+    ok,
+    exitCode: result.exitCode,
+    counts,
+    failures: ok ? '' : summarizeTestFailures(result.output),
+    durationMs: result.durationMs,
+    at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether a test run improved on the previous one: fewer failures, more
+ * passes without new failures, or red to green.
+ */
+export function isTestProgress(current: TestRun, previous: TestRun | undefined): boolean {
+  if (!previous) return false;
+  if (current.ok && !previous.ok) return true;
+  if (!current.counts || !previous.counts) return false;
+  return current.counts.failed < previous.counts.failed ||
+    (current.counts.failed <= previous.counts.failed && current.counts.passed > previous.counts.passed);
+}
+
+/**
+ * Short description of a run, e.g. "3 failed, 9 passed" or "failed (exit 1)".
+ */
+export function formatTestRun(run: TestRun): string {
+  if (run.counts) {
+    const parts = [`${run.counts.failed} failed`, `${run.counts.passed} passed`];
+    if (run.counts.skipped > 0) parts.push(`${run.counts.skipped} skipped`);
+    return parts.join(', ');
+  }
+  if (run.ok) return 'passed';
+  return run.exitCode === null ? 'timed out' : `failed (exit ${run.exitCode})`;
+}
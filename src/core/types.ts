@@ -10,17 +10,59 @@ export interface AcceptanceCriterion {
   completed: boolean;
   completedBy?: 'agent' | 'operator';
   completedAt?: string;
+  verify?: string;        // shell command that must exit 0 before the agent can complete it
+  claimed?: boolean;      // claimed by the agent but its verify command can't run - the operator confirms it
+  reviewThread?: ReviewThreadRef; // set when the criterion is a pull request review thread
+  removed?: boolean;      // gone from the issue since - kept for the record, ignored for completion
+  fromComment?: boolean;  // listed in a maintainer comment, not the issue body
 }
 
-// GitHub issue data
+// Pull request review thread a criterion was made from
+export interface ReviewThreadRef {
+  id: string;             // GraphQL node ID of the thread
+  path: string;
+  line?: number;
+  replied?: boolean;      // a reply was posted after the loop addressed it
+}
+
+// Pull request a loop addresses the review threads of
+export interface PullRequestRef {
+  headRefName: string;
+  baseRefName: string;
+  isCrossRepository: boolean; // head branch lives in a fork
+}
+
+// Comment in an issue's discussion
+export interface IssueComment {
+  author: string;
+  createdAt: string;      // ISO timestamp
+  body: string;
+}
+
+// Issue linked to or referenced by another
+export interface LinkedIssue {
+  ref: string;            // #12, owner/repo#12, PROJ-7
+  title?: string;
+  state?: string;
+  relation?: string;      // link type (e.g. "blocks"), unset = referenced
+}
+
+// GitHub issue (or pull request) data
 export interface Issue {
   url: string;
   number: number;
   title: string;
   body: string;
-  repo: string;           // owner/repo
+  repo: string;           // owner/repo (GitLab: project path, Jira: project key)
+  provider?: string;      // issue tracker (core/providers), unset = github
   acceptanceCriteria: AcceptanceCriterion[];
   originalAcceptanceCriteria?: AcceptanceCriterion[];
+  pullRequest?: PullRequestRef; // set when the URL is a pull request (criteria are its review threads)
+  // Context for the agent's prompt (unset for task files and issues saved before it was fetched)
+  labels?: string[];
+  assignees?: string[];
+  comments?: IssueComment[];    // oldest first
+  linkedIssues?: LinkedIssue[];
 }
 
 // A single loop instance
@@ -32,6 +74,9 @@ export interface Loop {
   skipPermissions: boolean;
   hidden?: boolean;
   issueClosed?: boolean;
+  priority?: number;      // scheduler priority (higher starts first, default 0)
+  held?: boolean;         // queued loop the scheduler leaves alone - started by hand only
+  createdAt?: string;     // ISO timestamp
   pid?: number;           // child process PID
   startedAt?: string;     // ISO timestamp
   endedAt?: string;       // ISO timestamp
@@ -40,26 +85,131 @@ export interface Loop {
   iteration?: number;     // current iteration count
   maxIterations?: number; // loop iteration cap
   exitReason?: string;    // why the loop exited
+  policy?: RunPolicy;     // per-loop overrides of timeouts/breaker thresholds
+  // Agent fallback fields
+  fallbackAgents?: AgentType[];   // agents that take over, in order, when the current one fails
+  handoffs?: AgentHandoff[];      // agent changes so far (agent is the current one)
+  agentIterations?: Record<AgentType, number>; // iterations run by each agent
+  usage?: LoopUsage;          // tokens and cost across all iterations
+  lastTestRun?: TestRun;      // latest run of the policy's test command
   // Cross-session pause/resume fields
   pausedSessionId?: string;   // Claude session ID at time of pause
   pausedAt?: string;          // ISO timestamp when paused
+  pauseRequested?: boolean;   // Soft pause pending - pause at the next iteration boundary
   pausedFromPreviousSession?: boolean; // True if paused in a previous TUI session
+  recoveredFromCrash?: boolean;        // True if found running with no process on startup
+  startingPid?: number;                // alex process that claimed the loop and is starting it
   // Worktree isolation fields
+  repoRoot?: string;          // local repo the loop was created against
   worktreePath?: string;      // wt-managed worktree path
   worktreeBranch?: string;    // branch name (alex-{loopId})
+  baseBranch?: string;        // branch the worktree was created from (dependent loops)
+  pendingWorktree?: boolean;  // worktree deferred until start (created from the parent's branch)
   startCommit?: string;       // git SHA at loop start (for deterministic diff)
   // Cross-agent review fields
   reviewLoopId?: string;      // links to review loop
   parentLoopId?: string;      // review loop → original loop link
   isReviewLoop?: boolean;     // flag for review loops
+  reviewVerdict?: 'approved' | 'changes_requested'; // set on the original when its review finishes
+  pullRequestUrl?: string;    // PR opened from the worktree branch
+  progressCommentId?: string; // issue comment kept up to date with the loop's progress
+  raceId?: string;            // set on every loop of a race
+  // Dependency fields
+  dependsOn?: string[];       // parent loop IDs that must complete first
+  requireApprovedReview?: boolean; // also wait for each parent's review to approve
+}
+
+// Per-loop run policy - any field left unset falls back to the global default
+export interface RunPolicy {
+  iterationTimeoutMs?: number;      // kill an iteration after this long
+  noProgressThreshold?: number;     // open breaker after N iterations with no file changes
+  sameErrorThreshold?: number;      // open breaker after N iterations with the same errors
+  outputDeclineThreshold?: number;  // open breaker if output shrinks by this fraction (0-1)
+  testOnlyThreshold?: number;       // exit after N consecutive test-only iterations
+  callsPerHour?: number;            // agent invocations allowed per hour
+  failedExitThreshold?: number;     // hand off to a fallback agent after N non-zero exits
+  maxCostUsd?: number;              // stop with budget_exceeded past this cost
+  maxTokens?: number;               // stop with budget_exceeded past this many tokens
+  testCommand?: string;             // run after every iteration; completion needs it to pass
+}
+
+// Record of a loop switching to a fallback agent
+export interface AgentHandoff {
+  from: AgentType;
+  to: AgentType;
+  reason: string;
+  iteration: number;      // last iteration run by `from`
+  at: string;             // ISO timestamp
+}
+
+// Token usage reported by an agent
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
 }
 
+// Usage of one model within an agent run
+export interface ModelTokenUsage extends TokenUsage {
+  model: string;
+  costUsd?: number;       // as reported by the agent
+}
+
+// Usage reported by one agent run
+export interface IterationUsage extends TokenUsage {
+  model?: string;
+  costUsd?: number;       // as reported by the agent (preferred over the price table)
+  byModel?: ModelTokenUsage[];  // per-model breakdown, when a run used several
+}
+
+// Accumulated usage; `unpriced` counts runs with no price for their model
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  unpriced: number;
+}
+
+export interface LoopUsage extends UsageTotals {
+  byAgent: Record<string, UsageTotals>;
+}
+
+// Pass/fail counts parsed from test runner output
+export interface TestCounts {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+// One run of a loop's test command (see core/testResults.ts)
+export interface TestRun {
+  ok: boolean;              // exited 0
+  exitCode: number | null;  // null if it timed out
+  counts: TestCounts | null; // null if the output had no recognizable summary
+  failures: string;         // failing tests / error lines, for the follow-up prompt
+  durationMs: number;
+  at: string;               // ISO timestamp
+}
+
+// Structured agent output decoded by an adapter's output parser
+export type OutputRecord =
+  | { kind: 'text'; text: string }
+  | { kind: 'tool_use'; id?: string; name: string; input: Record<string, unknown> }
+  | { kind: 'tool_result'; toolUseId?: string; content: string; isError: boolean }
+  | { kind: 'file_edit'; path: string; tool: string }
+  | { kind: 'result'; text: string; isError: boolean; numTurns?: number; durationMs?: number; costUsd?: number; usage?: TokenUsage; model?: string; modelUsage?: ModelTokenUsage[] }
+  | { kind: 'session'; sessionId: string };
+
 // Log entry for JSONL
 export interface LogEntry {
   timestamp: string;
   loopId: string;
   type: 'agent' | 'operator' | 'system' | 'error';
   content: string;
+  record?: OutputRecord;    // structured agent output (content is its rendering)
 }
 
 // App settings
@@ -67,6 +217,20 @@ export interface AppSettings {
   autoRequestReview?: boolean;    // auto-trigger review on loop completion
   worktreeBaseDir?: string;       // default: sibling dir to project
   defaultReviewerAgent?: string;  // preferred reviewer agent type
+  queueHeld?: boolean;            // scheduler won't auto-start queued loops while held
+}
+
+// Same issue run by several agents in parallel (see core/race.ts)
+export interface Race {
+  id: string;
+  issueUrl: string;
+  issueTitle: string;
+  loopIds: string[];          // one loop per agent
+  stopLosers: boolean;        // stop the other loops when one wins
+  createdAt: string;
+  winnerLoopId?: string;      // first loop completed with all criteria met
+  decidedAt?: string;
+  promotedLoopId?: string;    // branch chosen as the result
 }
 
 // App state persisted to disk
@@ -74,6 +238,7 @@ export interface AppState {
   loops: Loop[];
   activeLoopId?: string;
   settings?: AppSettings;
+  races?: Race[];
 }
 
 // Event types for loop manager
@@ -81,11 +246,13 @@ export type LoopEvent =
   | { type: 'started'; loopId: string }
   | { type: 'output'; loopId: string; data: string }
   | { type: 'paused'; loopId: string }
+  | { type: 'pause_requested'; loopId: string }
   | { type: 'resumed'; loopId: string }
   | { type: 'stopped'; loopId: string }
   | { type: 'completed'; loopId: string }
   | { type: 'error'; loopId: string; error: string }
   | { type: 'iteration'; loopId: string; iteration: number }
+  | { type: 'handoff'; loopId: string; from: AgentType; to: AgentType; reason: string }
   | { type: 'criteria'; loopId: string };
 
 // Circuit breaker states
@@ -116,6 +283,7 @@ export interface AnalysisResult {
   errors: string[];
   workSummary: string;
   confidenceScore: number;
+  testRun?: TestRun;             // the test command's result, if the loop has one
 }
 
 // Exit reason for loop completion
@@ -128,6 +296,7 @@ export type ExitReason =
   | 'max_iterations'         // hit iteration limit
   | 'user_stopped'           // manual stop
   | 'manual_complete'        // manual override to completed
+  | 'budget_exceeded'        // passed the cost or token cap
   | 'error';                 // unrecoverable error
 
 // Loop iteration state
@@ -138,6 +307,8 @@ export interface LoopIterationState {
   circuitBreaker: CircuitBreakerState;
   analysisHistory: AnalysisResult[];
   exitReason?: ExitReason;
+  consecutiveFailedExits?: number;  // non-zero agent exits in a row (fallback trigger)
+  lastTestRun?: TestRun;            // previous test run, to measure progress against
 }
 
 // Rate limiter state
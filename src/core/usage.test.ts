@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'bun:test';
+import { priceUsage, ModelPrice } from './usage.js';
+
+const table: Record<string, ModelPrice> = {
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3 },
+  'claude-haiku-4': { input: 1, output: 5 },
+};
+
+describe('priceUsage', () => {
+  test('prefers the cost the agent reported', () => {
+    expect(priceUsage({ inputTokens: 1_000_000, outputTokens: 0, model: 'claude-sonnet-4-5', costUsd: 1.25 }, 'claude', table)).toBe(1.25);
+  });
+
+  test('prices a run from the table by model', () => {
+    expect(priceUsage({ inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, model: 'claude-sonnet-4-5' }, 'claude', table))
+      .toBeCloseTo(3 + 1.5 + 0.3);
+    expect(priceUsage({ inputTokens: 1000, outputTokens: 0, model: 'mystery-1' }, 'mystery', table)).toBeNull();
+  });
+
+  test('prices each model of a multi-model run at its own price', () => {
+    const usage = {
+      inputTokens: 2_000_000,
+      outputTokens: 0,
+      byModel: [
+        { model: 'claude-sonnet-4-5', inputTokens: 1_000_000, outputTokens: 0 },
+        { model: 'claude-haiku-4-5', inputTokens: 1_000_000, outputTokens: 0 },
+      ],
+    };
+    expect(priceUsage(usage, 'claude', table)).toBeCloseTo(4);
+    expect(priceUsage({ ...usage, byModel: [...usage.byModel, { model: 'mystery-1', inputTokens: 1, outputTokens: 0 }] }, 'claude', table)).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import { IterationUsage, LoopUsage, RunPolicy, TokenUsage, UsageTotals } from './types.js';
+import { DEFAULT_MODEL_PRICES, USER_MODEL_PRICES } from '../config.js';
+
+/**
+ * Token usage and cost. Adapters report usage per agent run (see
+ * `usageExtraction` in the adapter config); it's priced with the model price
+ * table and accumulated on the loop, where the run policy's maxCostUsd /
+ * maxTokens caps are checked before each iteration.
+ */
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+function sanitizePrice(raw: unknown): ModelPrice | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const valid = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  if (!valid(r.input) || !valid(r.output)) return null;
+  return {
+    input: r.input,
+    output: r.output,
+    cacheRead: valid(r.cacheRead) ? r.cacheRead : undefined,
+    cacheWrite: valid(r.cacheWrite) ? r.cacheWrite : undefined,
+  };
+}
+
+/**
+ * Built-in prices with ~/.alex/config.yaml `pricing` applied.
+ * Entries without numeric input/output prices are ignored.
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  const table: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES };
+  for (const [key, raw] of Object.entries(USER_MODEL_PRICES)) {
+    const price = sanitizePrice(raw);
+    if (price) table[key] = price;
+  }
+  return table;
+}
+
+/**
+ * Find the price for a model: exact key, then the longest key the model name
+ * starts with (claude-sonnet-4 matches claude-sonnet-4-5-20250929), then the
+ * agent name.
+ */
+export function findModelPrice(
+  model: string | undefined,
+  agent: string,
+  table: Record<string, ModelPrice> = getPriceTable()
+): ModelPrice | null {
+  if (model) {
+    if (table[model]) return table[model];
+    const prefix = Object.keys(table)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return table[prefix];
+  }
+  return table[agent] ?? null;
+}
+
+function priceTokens(usage: TokenUsage, price: ModelPrice): number {
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheCreation = usage.cacheCreationTokens ?? 0;
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    cacheRead * (price.cacheRead ?? price.input) +
+    cacheCreation * (price.cacheWrite ?? price.input)
+  ) / 1_000_000;
+}
+
+/**
+ * Cost of one run in USD: the cost the agent reported, else priced from the
+ * table - each model of a multi-model run at its own price - else null (a
+ * model without a price leaves the whole run unpriced).
+ */
+export function priceUsage(
+  usage: IterationUsage,
+  agent: string,
+  table: Record<string, ModelPrice> = getPriceTable()
+): number | null {
+  if (usage.costUsd !== undefined) {
+    return usage.costUsd;
+  }
+
+  if (usage.byModel && usage.byModel.length > 0) {
+    let total = 0;
+    for (const entry of usage.byModel) {
+      if (entry.costUsd !== undefined) {
+        total += entry.costUsd;
+        continue;
+      }
+      const price = findModelPrice(entry.model, agent, table);
+      if (!price) return null;
+      total += priceTokens(entry, price);
+    }
+    return total;
+  }
+
+  const price = findModelPrice(usage.model, agent, table);
+  return price ? priceTokens(usage, price) : null;
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, unpriced: 0 };
+}
+
+function addToTotals(totals: UsageTotals | undefined, usage: IterationUsage, costUsd: number | null): UsageTotals {
+  const base = totals ?? emptyTotals();
+  return {
+    inputTokens: base.inputTokens + usage.inputTokens,
+    outputTokens: base.outputTokens + usage.outputTokens,
+    cacheReadTokens: base.cacheReadTokens + (usage.cacheReadTokens ?? 0),
+    cacheCreationTokens: base.cacheCreationTokens + (usage.cacheCreationTokens ?? 0),
+    costUsd: base.costUsd + (costUsd ?? 0),
+    unpriced: base.unpriced + (costUsd === null ? 1 : 0),
+  };
+}
+
+/**
+ * Add one run's usage to a loop's totals (overall and for the agent).
+ */
+export function addLoopUsage(
+  loopUsage: LoopUsage | undefined,
+  agent: string,
+  usage: IterationUsage,
+  costUsd: number | null
+): LoopUsage {
+  return {
+    ...addToTotals(loopUsage, usage, costUsd),
+    byAgent: {
+      ...loopUsage?.byAgent,
+      [agent]: addToTotals(loopUsage?.byAgent[agent], usage, costUsd),
+    },
+  };
+}
+
+/**
+ * Tokens counted against maxTokens. Cache reads are left out - they re-read
+ * the same context on every turn and would dwarf the real work.
+ */
+export function getBudgetTokens(usage: UsageTotals | IterationUsage): number {
+  return usage.inputTokens + usage.outputTokens + (usage.cacheCreationTokens ?? 0);
+}
+
+/**
+ * Check a loop's usage against the policy caps (0 = no cap).
+ * Returns a description of the cap passed, or null if within budget.
+ */
+export function checkBudget(usage: LoopUsage | undefined, policy: Required<RunPolicy>): string | null {
+  if (!usage) return null;
+  if (policy.maxCostUsd > 0 && usage.costUsd >= policy.maxCostUsd) {
+    return `cost $${usage.costUsd.toFixed(2)} reached the $${policy.maxCostUsd.toFixed(2)} cap`;
+  }
+  const tokens = getBudgetTokens(usage);
+  if (policy.maxTokens > 0 && tokens >= policy.maxTokens) {
+    return `${formatTokenCount(tokens)} tokens reached the ${formatTokenCount(policy.maxTokens)} cap`;
+  }
+  return null;
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd < 0.01 && costUsd > 0 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Format usage for the log and detail pane, e.g. "12.3k in / 2.1k out, $0.42".
+ */
+export function formatUsage(usage: UsageTotals | IterationUsage, costUsd?: number | null): string {
+  const cost = costUsd !== undefined ? costUsd : 'unpriced' in usage ? usage.costUsd : null;
+  const cached = usage.cacheReadTokens ? ` (+${formatTokenCount(usage.cacheReadTokens)} cached)` : '';
+  const unpriced = 'unpriced' in usage && usage.unpriced > 0 ? ` (${usage.unpriced} unpriced)` : '';
+  return `${formatTokenCount(usage.inputTokens + (usage.cacheCreationTokens ?? 0))} in${cached} / ` +
+    `${formatTokenCount(usage.outputTokens)} out, ${cost === null ? 'unpriced' : formatCost(cost)}${unpriced}`;
+}
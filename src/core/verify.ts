@@ -0,0 +1,34 @@
+import { Loop } from './types.js';
+import { VERIFY_TIMEOUT_MS, VERIFY_COMMANDS_ENABLED } from '../config.js';
+import { runShellCommand, ShellCommandResult } from './shell.js';
+
+/**
+ * Verification commands for acceptance criteria. A criterion with `verify`
+ * set is only completed by the agent if its command exits 0 in the loop's
+ * working directory; otherwise the output is handed back to the agent.
+ *
+ * The commands come from issue text, so they only run for loops that already
+ * give the agent free rein (skipPermissions) unless `loops.verifyCommands`
+ * opts every loop in.
+ */
+
+// Keep failure output short - it goes into the next prompt
+const MAX_OUTPUT_CHARS = 2000;
+
+export function canRunVerification(loop: Pick<Loop, 'skipPermissions'>, enabled: boolean = VERIFY_COMMANDS_ENABLED): boolean {
+  return loop.skipPermissions || enabled;
+}
+
+export function runVerification(command: string, workingDir: string): Promise<ShellCommandResult> {
+  return runShellCommand(command, workingDir, { timeoutMs: VERIFY_TIMEOUT_MS, maxOutputChars: MAX_OUTPUT_CHARS });
+}
+
+/**
+ * Prompt section telling the agent a criterion it claimed failed verification.
+ */
+export function formatVerificationFailure(index: number, command: string, result: ShellCommandResult): string {
+  const status = result.exitCode === null ? 'did not finish' : `exited with code ${result.exitCode}`;
+  return `VERIFICATION FAILED for criterion ${index + 1}: \`${command}\` ${status}.\n` +
+    (result.output ? `Output:\n${result.output}\n` : '') +
+    `The criterion is still incomplete. Fix the problem, then emit <criterion-complete>${index + 1}</criterion-complete> again.`;
+}
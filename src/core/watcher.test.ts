@@ -0,0 +1,19 @@
+import { describe, test, expect } from 'bun:test';
+import { sanitizeWatchConfig, DEFAULT_WATCH_CONFIG } from './watcher.js';
+
+describe('sanitizeWatchConfig', () => {
+  test('uses the defaults for missing or invalid fields', () => {
+    expect(sanitizeWatchConfig(undefined)).toEqual(DEFAULT_WATCH_CONFIG);
+    expect(sanitizeWatchConfig({ label: ' ', intervalMinutes: -5, comment: 'no' })).toEqual(DEFAULT_WATCH_CONFIG);
+  });
+
+  test('keeps valid overrides', () => {
+    expect(sanitizeWatchConfig({ label: 'agent-ready', inProgressLabel: '', intervalMinutes: 15, comment: false, start: false })).toEqual({
+      label: 'agent-ready',
+      inProgressLabel: '',
+      intervalMinutes: 15,
+      comment: false,
+      start: false,
+    });
+  });
+});
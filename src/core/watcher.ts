@@ -0,0 +1,152 @@
+import { Loop, AgentType } from './types.js';
+import { appendLog } from './logs.js';
+import { previewImport, importIssues } from './imports.js';
+import { commentOnIssue, relabelIssue, ensureLabel } from './providers/index.js';
+import { WATCH_CONFIG } from '../config.js';
+
+/**
+ * Issue watcher: poll a GitHub repo for open issues with a trigger label
+ * and queue a loop for each one not already tracked (by issue URL). Picked
+ * up issues get a comment and have the trigger label swapped for an
+ * in-progress one, so the next poll skips them.
+ */
+
+export interface WatchConfig {
+  label: string;            // trigger label
+  inProgressLabel: string;  // replaces it once a loop exists ('' = keep the trigger label)
+  intervalMinutes: number;
+  comment: boolean;         // comment on the issue when it is picked up
+  start: boolean;           // hand new loops to the scheduler right away (else they are held)
+}
+
+export const DEFAULT_WATCH_CONFIG: WatchConfig = {
+  label: 'alex:go',
+  inProgressLabel: 'alex:in-progress',
+  intervalMinutes: 5,
+  comment: true,
+  start: true,
+};
+
+// Where watched issues are listed from and how their loops are created
+export interface WatchTarget {
+  repo?: string;            // owner/name (default: the GitHub repo of repoRoot)
+  repoRoot: string;
+  agent: AgentType;         // unless an import rule picks another
+  maxIterations: number;
+  skipPermissions: boolean;
+  useWorktree?: boolean;
+}
+
+/**
+ * Validate the `watch` section of config.yaml; invalid fields fall back to
+ * the defaults.
+ */
+export function sanitizeWatchConfig(raw: unknown): WatchConfig {
+  const section = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const config = { ...DEFAULT_WATCH_CONFIG };
+
+  if (typeof section.label === 'string' && section.label.trim()) {
+    config.label = section.label.trim();
+  }
+  if (typeof section.inProgressLabel === 'string') {
+    config.inProgressLabel = section.inProgressLabel.trim();
+  }
+  if (typeof section.intervalMinutes === 'number' && section.intervalMinutes > 0) {
+    config.intervalMinutes = section.intervalMinutes;
+  }
+  if (typeof section.comment === 'boolean') {
+    config.comment = section.comment;
+  }
+  if (typeof section.start === 'boolean') {
+    config.start = section.start;
+  }
+  return config;
+}
+
+export function loadWatchConfig(): WatchConfig {
+  return sanitizeWatchConfig(WATCH_CONFIG);
+}
+
+export function buildPickUpComment(loop: Loop): string {
+  return `alex picked this up: loop \`${loop.id}\` (${loop.agent}, up to ${loop.maxIterations} iterations).`;
+}
+
+// Comment on and relabel a picked up issue; failures are logged on the loop
+function announcePickUp(loop: Loop, config: WatchConfig): void {
+  if (config.comment) {
+    commentOnIssue(loop.issue.url, buildPickUpComment(loop)).catch((err: Error) => {
+      appendLog(loop.id, { type: 'error', content: `Watcher: ${err.message}` });
+    });
+  }
+  if (config.inProgressLabel && config.inProgressLabel !== config.label) {
+    relabelIssue(loop.issue.url, [config.label], [config.inProgressLabel]).catch((err: Error) => {
+      appendLog(loop.id, { type: 'error', content: `Watcher: ${err.message}` });
+    });
+  }
+}
+
+/**
+ * Create the in-progress label if the repo doesn't have it yet.
+ */
+export async function prepareWatchLabels(target: WatchTarget, config: WatchConfig): Promise<void> {
+  if (config.inProgressLabel && config.inProgressLabel !== config.label) {
+    await ensureLabel(config.inProgressLabel, 'alex is working on this issue', target.repo, target.repoRoot);
+  }
+}
+
+/**
+ * One poll: queue a loop for every open issue with the trigger label that
+ * has none yet - held unless `config.start`, so no scheduler (here, in the
+ * daemon or in the TUI) starts it. Returns the new loops.
+ */
+export async function pollWatchedIssues(target: WatchTarget, config: WatchConfig): Promise<Loop[]> {
+  const candidates = (await previewImport(
+    { repo: target.repo, labels: [config.label] },
+    target.repoRoot,
+    { agent: target.agent, maxIterations: target.maxIterations }
+  )).filter(candidate => !candidate.tracked);
+
+  const created: Loop[] = [];
+  for (const candidate of candidates) {
+    const [loop] = await importIssues([candidate], target.repoRoot, target.skipPermissions, {
+      useWorktree: target.useWorktree,
+      held: !config.start,
+    });
+    if (!loop) continue;
+    appendLog(loop.id, { type: 'system', content: `Picked up by the issue watcher (label ${config.label})` });
+    announcePickUp(loop, config);
+    created.push(loop);
+  }
+  return created;
+}
+
+/**
+ * Poll now and then every `intervalMinutes`; polls never overlap. `onPoll`
+ * gets each poll's new loops or its error. Returns a function that stops
+ * the watcher.
+ */
+export function startWatcher(
+  target: WatchTarget,
+  config: WatchConfig,
+  onPoll: (created: Loop[], error?: Error) => void
+): () => void {
+  let polling = false;
+
+  const poll = (): void => {
+    if (polling) return;
+    polling = true;
+    pollWatchedIssues(target, config)
+      .then(created => onPoll(created))
+      .catch((err: Error) => onPoll([], err))
+      .finally(() => {
+        polling = false;
+      });
+  };
+
+  const timer = setInterval(poll, config.intervalMinutes * 60 * 1000);
+  poll();
+
+  return () => {
+    clearInterval(timer);
+  };
+}
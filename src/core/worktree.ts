@@ -15,10 +15,10 @@ export function isWorktreeAvailable(): boolean {
 /**
  * Query git for the actual path of a worktree by branch name
  */
-function getWorktreePathFromGit(branchName: string): string | null {
+function getWorktreePathFromGit(branchName: string, repoRoot: string = process.cwd()): string | null {
   try {
     const result = spawnSync('git', ['worktree', 'list', '--porcelain'], {
-      cwd: process.cwd(),
+      cwd: repoRoot,
       encoding: 'utf-8',
     });
 
@@ -68,12 +68,13 @@ export function getWorktreeBranchName(loopId: string): string {
  */
 export async function createWorktree(
   loopId: string,
-  baseBranch?: string
+  baseBranch?: string,
+  repoRoot: string = process.cwd()
 ): Promise<{ worktreePath: string; worktreeBranch: string }> {
   const branchName = getWorktreeBranchName(loopId);
 
   // Check if worktree already exists by querying git
-  const existingPath = getWorktreePathFromGit(branchName);
+  const existingPath = getWorktreePathFromGit(branchName, repoRoot);
   if (existingPath) {
     return { worktreePath: existingPath, worktreeBranch: branchName };
   }
@@ -85,7 +86,7 @@ export async function createWorktree(
     }
 
     const proc = spawn('wt', args, {
-      cwd: process.cwd(),
+      cwd: repoRoot,
       stdio: ['ignore', 'pipe', 'pipe'],
     });
 
@@ -97,7 +98,7 @@ export async function createWorktree(
     proc.on('close', (code) => {
       if (code === 0) {
         // Query git for the actual worktree path (wt may put it anywhere based on config)
-        const actualPath = getWorktreePathFromGit(branchName);
+        const actualPath = getWorktreePathFromGit(branchName, repoRoot);
         if (actualPath) {
           resolve({ worktreePath: actualPath, worktreeBranch: branchName });
         } else {
@@ -117,10 +118,10 @@ export async function createWorktree(
 /**
  * Remove a worktree for a loop
  */
-export async function removeWorktree(branchName: string): Promise<void> {
+export async function removeWorktree(branchName: string, repoRoot: string = process.cwd()): Promise<void> {
   return new Promise((resolve, reject) => {
     const proc = spawn('wt', ['remove', branchName], {
-      cwd: process.cwd(),
+      cwd: repoRoot,
       stdio: ['ignore', 'pipe', 'pipe'],
     });
 
@@ -166,6 +167,22 @@ export function getHeadCommit(workingDir: string): string | null {
   }
 }
 
+/**
+ * Get the branch checked out in a directory (null if detached or not a repo)
+ */
+export function getCurrentBranch(workingDir: string): string | null {
+  try {
+    const result = spawnSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
+      cwd: workingDir,
+      encoding: 'utf-8',
+    });
+    const branch = result.status === 0 ? result.stdout.trim() : '';
+    return branch && branch !== 'HEAD' ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get git diff from a start commit to current state
  * Includes both committed and uncommitted changes
@@ -228,6 +245,50 @@ export function getChangedFilesSummary(workingDir: string, startCommit?: string)
   }
 }
 
+// Run git without blocking, rejecting with "<context>: <first line of stderr>"
+function runGit(args: string[], cwd: string, context: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('git', args, {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    proc.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout.trim());
+      } else {
+        reject(new Error(`${context}: ${(stderr || stdout).trim().split('\n')[0] || 'Unknown error'}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      reject(new Error(`${context}: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Commit everything left uncommitted in a directory, untracked files
+ * included. Resolves with false if there was nothing to commit.
+ */
+export async function commitAllChanges(workingDir: string, message: string): Promise<boolean> {
+  if (!await runGit(['status', '--porcelain'], workingDir, 'Failed to read worktree status')) {
+    return false;
+  }
+  await runGit(['add', '-A'], workingDir, 'Failed to stage changes');
+  await runGit(['commit', '-m', message], workingDir, 'Failed to commit changes');
+  return true;
+}
+
 /**
  * List all worktrees using git (more reliable than wt list)
  */
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { spawn } from 'child_process';
+import { ALEX_DIR } from './config.js';
+import {
+  createLocalController,
+  startDaemonServer,
+  pingDaemon,
+  stopDaemon,
+  startScheduler,
+  startRaceReferee,
+  startProgressComments,
+  flushProgressComments,
+  markOrphanedPausedLoops,
+  markOrphanedRunningLoops,
+  suspendAllLoops,
+  DAEMON_SOCKET_PATH,
+} from './core/index.js';
+
+const DAEMON_LOG_FILE = path.join(ALEX_DIR, 'daemon.log');
+
+// How long `--detach` waits for the daemon socket to come up
+const DETACH_TIMEOUT_MS = 5000;
+
+function log(message: string): void {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+/**
+ * Spawn the daemon in the background, detached from this terminal.
+ */
+async function detachDaemon(): Promise<number> {
+  fs.mkdirSync(ALEX_DIR, { recursive: true });
+  const logFd = fs.openSync(DAEMON_LOG_FILE, 'a');
+
+  const child = spawn(process.execPath, [process.argv[1], 'daemon'], {
+    detached: true,
+    stdio: ['ignore', logFd, logFd],
+  });
+  child.unref();
+  fs.closeSync(logFd);
+
+  const deadline = Date.now() + DETACH_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const info = await pingDaemon();
+    if (info) {
+      console.log(`  alex daemon started (pid ${info.pid}), logging to ${DAEMON_LOG_FILE}`);
+      return 0;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  console.error(`  alex daemon: did not start within ${DETACH_TIMEOUT_MS / 1000}s (see ${DAEMON_LOG_FILE})`);
+  return 1;
+}
+
+/**
+ * Daemon command - own the loop manager (agent processes, iteration state,
+ * scheduler) and serve it to TUI/CLI clients over a Unix socket, so loops
+ * keep running after the terminal that started them goes away.
+ */
+export async function runDaemon(flags: Record<string, string | boolean>): Promise<number> {
+  if (flags['--status'] === true) {
+    const info = await pingDaemon();
+    if (!info) {
+      console.log('  alex daemon: not running');
+      return 1;
+    }
+    console.log(`  alex daemon: running (pid ${info.pid}, since ${new Date(info.startedAt).toLocaleString()}, ${info.clients - 1} client(s) attached)`);
+    return 0;
+  }
+
+  if (flags['--stop'] === true) {
+    const stopped = await stopDaemon();
+    console.log(stopped ? '  alex daemon: stopped' : '  alex daemon: not running');
+    return 0;
+  }
+
+  if (await pingDaemon()) {
+    console.error(`  alex daemon: already running (${DAEMON_SOCKET_PATH})`);
+    return 1;
+  }
+
+  if (flags['--detach'] === true) {
+    return detachDaemon();
+  }
+
+  // Loops left behind by a previous TUI/daemon become resumable
+  const orphanedPaused = markOrphanedPausedLoops();
+  const orphanedRunning = markOrphanedRunningLoops();
+  if (orphanedPaused + orphanedRunning > 0) {
+    log(`Marked ${orphanedPaused} paused and ${orphanedRunning} stale running loop(s) for resume`);
+  }
+
+  const controller = createLocalController();
+  controller.events.on('event', (event) => {
+    if (event.type !== 'output') {
+      log(`${event.loopId} ${event.type}${event.type === 'error' ? `: ${event.error}` : ''}`);
+    }
+  });
+
+  return new Promise<number>((resolve, reject) => {
+    let server: net.Server | null = null;
+    let stopScheduler: (() => void) | null = null;
+    let stopRaceReferee: (() => void) | null = null;
+    let stopProgressComments: (() => void) | null = null;
+
+    let shuttingDown = false;
+
+    const shutdown = (): void => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      log('Shutting down - suspending loops');
+      stopScheduler?.();
+      stopRaceReferee?.();
+      stopProgressComments?.();
+      server?.close();
+      // Running loops become paused loops that resume on the next start
+      suspendAllLoops({ wait: false }).then(async (count) => {
+        log(`Suspended ${count} loop(s)`);
+        await flushProgressComments();
+        controller.close();
+        fs.rmSync(DAEMON_SOCKET_PATH, { force: true });
+        resolve(0);
+      }, reject);
+    };
+
+    startDaemonServer(controller, shutdown).then((listening) => {
+      server = listening;
+      stopScheduler = startScheduler();
+      stopRaceReferee = startRaceReferee();
+      stopProgressComments = startProgressComments();
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+      // Keep running when the controlling terminal goes away
+      process.on('SIGHUP', () => {});
+      log(`alex daemon listening on ${DAEMON_SOCKET_PATH} (pid ${process.pid})`);
+    }, reject);
+  });
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './cli.js';
+import { MAX_ITERATIONS_DEFAULT } from './config.js';
+import {
+  ImportCandidate,
+  IssueQuery,
+  previewImport,
+  importIssues,
+  isSchedulerEnabled,
+  connectToDaemon,
+} from './core/index.js';
+import { getAdapter, getAdapterNames } from './adapters/index.js';
+
+// Criteria shown per issue in the preview
+const PREVIEW_CRITERIA = 5;
+
+function fail(message: string): number {
+  console.error(`  alex import: ${message}`);
+  return 1;
+}
+
+function formatCandidate(candidate: ImportCandidate): string[] {
+  const { issue } = candidate;
+  const title = issue.title.length > 60 ? issue.title.substring(0, 57) + '...' : issue.title;
+  const lines = [`    #${issue.number} ${title}`];
+
+  if (candidate.tracked) {
+    lines.push('        already has a loop - skipped');
+    return lines;
+  }
+
+  const rule = candidate.rule ? ` (rule: ${candidate.rule})` : '';
+  lines.push(`        ${candidate.agent}, ${candidate.maxIterations} iterations${rule}`);
+  if (issue.acceptanceCriteria.length === 0) {
+    lines.push('        no acceptance criteria found');
+  }
+  for (const criterion of issue.acceptanceCriteria.slice(0, PREVIEW_CRITERIA)) {
+    lines.push(`        [${criterion.completed ? 'x' : ' '}] ${criterion.text}`);
+  }
+  if (issue.acceptanceCriteria.length > PREVIEW_CRITERIA) {
+    lines.push(`        ... ${issue.acceptanceCriteria.length - PREVIEW_CRITERIA} more`);
+  }
+  return lines;
+}
+
+/**
+ * Ask which issues to queue. Returns the issue numbers to skip, or null to
+ * cancel.
+ */
+async function askSkipped(count: number): Promise<Set<number> | null> {
+  const readline = await import('readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const answer = await new Promise<string>((resolve) => {
+    rl.question(`  Queue ${count} loop(s)? Enter to confirm, issue numbers to skip (e.g. 12 15), n to cancel: `, resolve);
+  });
+  rl.close();
+
+  const trimmed = answer.trim().toLowerCase();
+  if (trimmed === 'n' || trimmed === 'no') {
+    return null;
+  }
+  return new Set(trimmed.split(/[\s,]+/).map(n => Number.parseInt(n.replace(/^#/, ''), 10)).filter(Number.isFinite));
+}
+
+/**
+ * Import command - queue one loop per open GitHub issue matching a label,
+ * milestone, assignee or search query, after previewing each issue's
+ * criteria. `args[0]` is an optional owner/repo (default: the GitHub repo
+ * of the repo root).
+ */
+export async function runImport(args: string[], flags: Record<string, string | boolean>): Promise<number> {
+  const config = getConfig();
+  const agent = typeof flags['--agent'] === 'string' ? flags['--agent'] : config.defaultAgent;
+  if (!getAdapter(agent)) {
+    return fail(`unknown agent "${agent}" (available: ${getAdapterNames().join(', ')})`);
+  }
+
+  let maxIterations = MAX_ITERATIONS_DEFAULT;
+  if (typeof flags['--max-iterations'] === 'string') {
+    const parsed = Number.parseInt(flags['--max-iterations'], 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return fail('--max-iterations must be a positive number');
+    }
+    maxIterations = parsed;
+  }
+
+  const repoRoot = path.resolve(typeof flags['--repo'] === 'string' ? flags['--repo'] : process.cwd());
+  if (!fs.existsSync(repoRoot) || !fs.statSync(repoRoot).isDirectory()) {
+    return fail(`repo root is not a directory: ${repoRoot}`);
+  }
+
+  const query: IssueQuery = { repo: args[0] };
+  if (typeof flags['--label'] === 'string') {
+    query.labels = flags['--label'].split(',').map(label => label.trim()).filter(Boolean);
+  }
+  if (typeof flags['--milestone'] === 'string') query.milestone = flags['--milestone'];
+  if (typeof flags['--assignee'] === 'string') query.assignee = flags['--assignee'];
+  if (typeof flags['--search'] === 'string') query.search = flags['--search'];
+  if (typeof flags['--limit'] === 'string') {
+    const parsed = Number.parseInt(flags['--limit'], 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return fail('--limit must be a positive number');
+    }
+    query.limit = parsed;
+  }
+
+  let candidates: ImportCandidate[];
+  try {
+    candidates = await previewImport(query, repoRoot, { agent, maxIterations });
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  if (candidates.length === 0) {
+    console.log('  No matching open issues.');
+    return 0;
+  }
+
+  console.log(`\n  ${candidates.length} matching open issue(s):\n`);
+  for (const candidate of candidates) {
+    console.log(formatCandidate(candidate).join('\n'));
+  }
+  console.log('');
+
+  let selected = candidates.filter(c => !c.tracked);
+  if (selected.length === 0) {
+    console.log('  Every matching issue already has a loop.');
+    return 0;
+  }
+
+  if (flags['--yes'] !== true) {
+    const skipped = await askSkipped(selected.length);
+    if (!skipped) {
+      console.log('\n  Aborted.\n');
+      return 0;
+    }
+    selected = selected.filter(c => !skipped.has(c.issue.number));
+  }
+
+  const created = await importIssues(selected, repoRoot, flags['--safe'] !== true, {
+    useWorktree: flags['--no-worktree'] === true ? false : undefined,
+  });
+  for (const loop of created) {
+    console.log(`  Queued ${loop.id} (${loop.agent}) for #${loop.issue.number} ${loop.issue.title}`);
+  }
+
+  // A running daemon starts them right away if the scheduler has free slots
+  const daemon = await connectToDaemon();
+  if (daemon) {
+    await daemon.scheduleQueuedLoops();
+    daemon.close();
+  }
+  if (created.length > 0 && !isSchedulerEnabled()) {
+    console.log('  Start them from the TUI, or set loops.maxConcurrent to have the scheduler start them.');
+  }
+
+  return 0;
+}
@@ -2,67 +2,113 @@
 import fs from 'fs';
 import path from 'path';
 import blessed from 'blessed';
-import { parseArgs, runConfigure, runClean, showHelp, shouldShowTutorial } from './cli.js';
+import { parseArgs, runConfigure, runClean, showHelp, shouldShowTutorial, getConfig } from './cli.js';
 import { runTutorial } from './tutorial.js';
 import { runUninstallWizard } from './uninstall.js';
+import { runHeadless } from './run.js';
+import { runImport } from './import.js';
+import { runWatch } from './watch.js';
+import { runDaemon } from './daemon.js';
 import { createScreen } from './ui/screen.js';
-import { colors, MAX_ITERATIONS_DEFAULT, METRICS_TREND_DAYS, METRICS_TREND_WEEKS, METRICS_TOP_FAILURES, DATA_DIR, SCROLLING_TEXT_ENABLED } from './config.js';
+import { colors, REVIEW_THREAD_ACTION, MAX_ITERATIONS_DEFAULT, METRICS_TREND_DAYS, METRICS_TREND_WEEKS, METRICS_TOP_FAILURES, DATA_DIR, SCROLLING_TEXT_ENABLED } from './config.js';
 import { statusColors, statusIcons } from './ui/theme.js';
 import {
   Issue,
   Loop,
   LoopStatus,
+  LoopEvent,
   AppSettings,
+  RunPolicy,
+  resolveRunPolicy,
+  formatRunPolicy,
   loadState,
-  saveState,
-  updateLoop,
+  saveLoopUpdates,
+  mutateState,
   fetchIssue,
+  formatIssueRef,
+  IssueQuery,
+  ImportCandidate,
+  previewImport,
+  importIssues,
+  isTaskPath,
+  resolveTaskPath,
+  setCriterionCompleted,
+  refreshIssue,
+  flushIssueSync,
+  startProgressComments,
+  flushProgressComments,
+  applyCriteriaProgressToIssueBody,
   closeIssue,
+  createPullRequest,
+  publishReviewThreadReplies,
   updateIssueBody,
   applyAcceptanceCriteriaToIssueBody,
+  parseCriterionText,
+  formatCriterionText,
   createLoop,
-  startLoop,
-  pauseLoop,
-  resumeLoop,
-  resumePausedLoop,
-  stopLoop,
-  retryLoop,
-  markLoopManualComplete,
-  sendIntervention,
-  loopEvents,
   appendLog,
   readRecentLogs,
   readLogs,
   tailLog,
   formatLogEntry,
   getLogPath,
-  killAll,
   markOrphanedPausedLoops,
+  markOrphanedRunningLoops,
+  getActiveLoopIds,
+  suspendAllLoops,
   discardPausedLoop,
-  canResumeInSession,
   createReviewLoop,
   createFollowUpFromReview,
   getAlternateAgent,
   calculateMetrics,
+  getAgentIterations,
   formatDuration as formatDurationMs,
   exportMetricsToJson,
   DashboardMetrics,
+  startScheduler,
+  isSchedulerEnabled,
+  isQueueHeld,
+  holdQueue,
+  adjustLoopPriority,
+  LoopController,
+  createLocalController,
+  connectToDaemon,
+  setLoopDependencies,
+  getDependencyStatus,
+  getDependencyChain,
+  describeUnmetDependencies,
+  createRace,
+  getRace,
+  summarizeRace,
+  promoteRaceLoop,
+  startRaceReferee,
+  formatUsage,
+  formatTestRun,
+  formatCost,
+  formatTokenCount,
+  loadCheckpoints,
+  Checkpoint,
 } from './core/index.js';
 import { getAvailableAdapters, adapterEvents, AgentAdapter } from './adapters/index.js';
 import { createInputManager, ManagedInput } from './ui/input-manager.js';
-import { createCursorInput, isAnyInputActive } from './ui/cursor-input.js';
+import { createCursorInput, isAnyInputActive, CursorInput } from './ui/cursor-input.js';
 import { renderHorizontalBar, renderVerticalBars, renderHeatmap } from './ui/charts.js';
 
-function main(): void {
-  const screen = createScreen();
+function main(controller: LoopController): void {
+  const screen = createScreen({ onQuit: () => openQuitModal() });
 
   // App state
   let state = loadState();
 
-  // Mark any paused loops without active processes as from previous session
-  const orphanedCount = markOrphanedPausedLoops();
-  if (orphanedCount > 0) {
-    state = loadState(); // Reload after marking
+  // Mark any paused loops without active processes as from previous session,
+  // and pause stale running loops (left behind by a crash) so they can be resumed.
+  // When attached to a daemon, the daemon owns the processes and does this itself.
+  const attachedToDaemon = controller.mode === 'daemon';
+  if (!attachedToDaemon) {
+    const orphanedCount = markOrphanedPausedLoops() + markOrphanedRunningLoops();
+    if (orphanedCount > 0) {
+      state = loadState(); // Reload after marking
+    }
   }
 
   let selectedLoopId: string | null = state.loops[0]?.id || null;
@@ -531,19 +577,30 @@ function main(): void {
         title = rawTitle.substring(0, loopTitleMaxChars) + '...';
       }
       // Show indicator for paused loops from previous session
-      const prevSess = loop.pausedFromPreviousSession ? ' {#ffbe0b-fg}◀prev{/}' : '';
+      const prevSess = loop.recoveredFromCrash
+        ? ' {#ff006e-fg}◀crash{/}'
+        : loop.pausedFromPreviousSession ? ' {#ffbe0b-fg}◀prev{/}' : '';
       const hiddenTag = loop.hidden ? ' {#666-fg}[hidden]{/}' : '';
+      const priorityTag = loop.status === 'queued' && loop.priority ? ` {#9b5de5-fg}p${loop.priority}{/}` : '';
+      const heldTag = loop.status === 'queued' && loop.held ? ' {#666-fg}held{/}' : '';
+      const pausingTag = loop.status === 'running' && loop.pauseRequested ? ' {#ffbe0b-fg}⏸pausing{/}' : '';
+      const dependencyState = loop.status === 'queued' ? getDependencyStatus(loop, state.loops).state : 'none';
+      const dependencyTag = dependencyState === 'blocked' ? ' {#ff006e-fg}⛓blocked{/}'
+        : dependencyState === 'waiting' ? ' {#ffbe0b-fg}⛓waiting{/}'
+        : dependencyState === 'ready' ? ' {#00f5d4-fg}⛓{/}'
+        : '';
+      const race = loop.raceId ? state.races?.find(r => r.id === loop.raceId) : undefined;
+      const raceTag = !race ? ''
+        : race.winnerLoopId === loop.id ? ' {#00f5d4-fg}★won{/}'
+        : ' {#ff4fd8-fg}⚑race{/}';
       const titleColor = loop.hidden ? '666666' : 'ffffff';
-      return ` {${color}-fg}${icon}{/} {#${titleColor}-fg}{bold}${prefix} #${loop.issue.number}{/} ${title}{/}${prevSess}${hiddenTag} {#666-fg}${time}{/}`;
+      return ` {${color}-fg}${icon}{/} {#${titleColor}-fg}{bold}${prefix} ${formatIssueRef(loop.issue)}{/} ${title}{/}${prevSess}${priorityTag}${heldTag}${dependencyTag}${raceTag}${pausingTag}${hiddenTag} {#666-fg}${time}{/}`;
     });
     loopListWindow.setItems(items);
   }
 
   function applyLoopUpdate(loopId: string, updates: Partial<Loop>): Loop | undefined {
-    let nextState = loadState();
-    nextState = updateLoop(nextState, loopId, updates);
-    saveState(nextState);
-    state = nextState;
+    state = saveLoopUpdates(loopId, updates);
     return state.loops.find(l => l.id === loopId);
   }
 
@@ -656,19 +713,28 @@ function main(): void {
     const issueStatus = loop.issueClosed ? ' {#00f5d4-fg}✓ closed{/}' : '';
 
     // Show indicator for paused loops from previous session
-    const prevSessionIndicator = loop.pausedFromPreviousSession
-      ? ' {#ffbe0b-fg}◀ PREVIOUS SESSION{/}'
-      : '';
+    const prevSessionIndicator = loop.recoveredFromCrash
+      ? ' {#ff006e-fg}◀ RECOVERED AFTER CRASH{/}'
+      : loop.pausedFromPreviousSession
+        ? ' {#ffbe0b-fg}◀ PREVIOUS SESSION{/}'
+        : '';
     const pausedAtInfo = loop.pausedAt && loop.status === 'paused'
       ? `  {#666-fg}│{/}  {#9b5de5-fg}Paused:{/} ${new Date(loop.pausedAt).toLocaleString()}`
-      : '';
+      : loop.status === 'running' && loop.pauseRequested
+        ? '  {#666-fg}│{/}  {#ffbe0b-fg}Pausing after this iteration{/}'
+        : '';
 
     // Review workflow indicators
     const reviewIndicator = loop.isReviewLoop
       ? ' {#ff4fd8-fg}◆ REVIEW{/}'
       : '';
     const worktreeIndicator = loop.worktreePath
-      ? `  {#666-fg}│{/}  {#9b5de5-fg}Worktree:{/} ${loop.worktreeBranch || 'active'}`
+      ? `  {#666-fg}│{/}  {#9b5de5-fg}Worktree:{/} ${loop.worktreeBranch || 'active'}${loop.baseBranch ? ` {#666-fg}(from ${loop.baseBranch}){/}` : ''}`
+      : loop.pendingWorktree
+        ? `  {#666-fg}│{/}  {#9b5de5-fg}Worktree:{/} {#666-fg}created at start{/}`
+        : '';
+    const priorityInfo = loop.status === 'queued'
+      ? `  {#666-fg}│{/}  {#9b5de5-fg}Priority:{/} ${loop.priority ?? 0}${loop.held ? ' {#666-fg}(held - Enter starts it){/}' : ''}`
       : '';
 
     const logPath = getLogPath(loop.id);
@@ -679,15 +745,98 @@ function main(): void {
       `{#9b5de5-fg}Agent:{/} ${loop.agent}  {#666-fg}│{/}  ` +
       `{#9b5de5-fg}Time:{/} ${time}  {#666-fg}│{/}  ` +
       `{#9b5de5-fg}Iteration{/} ${iteration}/${maxIterations}  {#666-fg}│{/}  ` +
-      `{#9b5de5-fg}Issue:{/} #${loop.issue.number}${issueStatus}${pausedAtInfo}${worktreeIndicator}\n` +
+      `{#9b5de5-fg}Issue:{/} ${formatIssueRef(loop.issue)}${issueStatus}${pausedAtInfo}${worktreeIndicator}${priorityInfo}\n` +
       `{#9b5de5-fg}Log:{/} ${logPath}\n`;
 
+    // Show run policy when the loop overrides the defaults
+    if (loop.policy && Object.keys(loop.policy).length > 0) {
+      content += `{#9b5de5-fg}Policy:{/} ${formatRunPolicy(resolveRunPolicy(loop.policy))}\n`;
+    }
+
+    // Show tokens and cost so far, against the budget caps
+    if (loop.usage) {
+      const loopPolicy = resolveRunPolicy(loop.policy);
+      const caps = [
+        loopPolicy.maxCostUsd > 0 ? `$${loopPolicy.maxCostUsd.toFixed(2)}` : '',
+        loopPolicy.maxTokens > 0 ? `${formatTokenCount(loopPolicy.maxTokens)} tokens` : '',
+      ].filter(Boolean);
+      const budgetNote = loop.exitReason === 'budget_exceeded' ? '  {#ff006e-fg}budget exceeded{/}'
+        : caps.length > 0 ? ` {#666-fg}(cap ${caps.join(', ')}){/}`
+        : '';
+      content += `{#9b5de5-fg}Usage:{/} ${formatUsage(loop.usage)}${budgetNote}\n`;
+    }
+
+    // Show the latest run of the loop's test command
+    if (loop.lastTestRun) {
+      const run = loop.lastTestRun;
+      const label = run.ok ? '{#00f5d4-fg}green{/}' : '{#ff006e-fg}red{/}';
+      content += `{#9b5de5-fg}Tests:{/} ${label} ${formatTestRun(run)} {#666-fg}(${resolveRunPolicy(loop.policy).testCommand || 'test command'}){/}\n`;
+    }
+
+    // Show the agents that ran the loop and the fallbacks still left
+    if (loop.handoffs?.length || loop.fallbackAgents?.length) {
+      const agentIterations = getAgentIterations(loop);
+      const ranAgents = [...(loop.handoffs ?? []).map(h => h.from), loop.agent]
+        .map(agent => `${agent} {#666-fg}(${agentIterations[agent] ?? 0} it){/}`)
+        .join(' {#666-fg}→{/} ');
+      const tried = new Set([loop.agent, ...(loop.handoffs ?? []).map(h => h.from)]);
+      const remaining = (loop.fallbackAgents ?? []).filter(agent => !tried.has(agent));
+      const lastHandoff = loop.handoffs?.[loop.handoffs.length - 1];
+      content += `{#9b5de5-fg}Agents:{/} ${ranAgents}` +
+        (remaining.length > 0 ? `  {#666-fg}│{/}  {#9b5de5-fg}Fallback:{/} ${remaining.join(', ')}` : '') +
+        (lastHandoff ? `  {#666-fg}│{/}  {#ffbe0b-fg}Handed off: ${lastHandoff.reason}{/}` : '') + '\n';
+    }
+
+    // Show the latest checkpoint the worktree can be rolled back to
+    if (loop.worktreePath) {
+      const checkpoints = loadCheckpoints(loop.id);
+      const latest = checkpoints[checkpoints.length - 1];
+      if (latest) {
+        content += `{#9b5de5-fg}Checkpoints:{/} ${checkpoints.length}  {#666-fg}│{/}  latest iter-${latest.iteration}: ${latest.diffStat} {#666-fg}(Z to roll back){/}\n`;
+      }
+    }
+
+    // Show the race this loop is part of
+    const race = loop.raceId ? state.races?.find(r => r.id === loop.raceId) : undefined;
+    if (race) {
+      const entrants = race.loopIds
+        .map(id => state.loops.find(l => l.id === id))
+        .filter((l): l is Loop => l !== undefined)
+        .map(l => l.id === loop.id ? `{bold}${l.agent}{/bold}` : l.agent)
+        .join(' vs ');
+      const winner = race.winnerLoopId ? state.loops.find(l => l.id === race.winnerLoopId) : undefined;
+      const outcome = race.promotedLoopId === loop.id ? '  {#00f5d4-fg}promoted{/}'
+        : winner ? `  {#666-fg}│{/}  {#00f5d4-fg}Winner: ${winner.agent}{/}`
+        : '';
+      content += `{#ff4fd8-fg}Race:{/} ${entrants}${outcome} {#666-fg}(X for summary){/}\n`;
+    }
+
+    // Show the dependency chain (root first) and why the loop can't start yet
+    if (loop.dependsOn?.length) {
+      const chain = getDependencyChain(loop.id, state.loops)
+        .map(l => `{${statusColors[l.status] || '#666'}-fg}${formatIssueRef(l.issue)} ${l.status}{/}`)
+        .join(' {#666-fg}→{/} ');
+      const reviewNote = loop.requireApprovedReview ? ' {#666-fg}(approved review required){/}' : '';
+      content += `{#9b5de5-fg}Depends on:{/} ${chain} {#666-fg}→{/} this${reviewNote}\n`;
+      const unmet = loop.status === 'queued' ? describeUnmetDependencies(loop, state.loops) : null;
+      if (unmet) {
+        const unmetColor = getDependencyStatus(loop, state.loops).state === 'blocked' ? '#ff006e' : '#ffbe0b';
+        content += `{${unmetColor}-fg}${unmet}{/}\n`;
+      }
+    }
+
     // Show review links
     if (loop.reviewLoopId) {
       const reviewLoop = state.loops.find(l => l.id === loop.reviewLoopId);
       const reviewStatus = reviewLoop?.status || 'unknown';
       const reviewStatusColor = statusColors[reviewStatus as LoopStatus] || '#666';
-      content += `{#ff4fd8-fg}Review:{/} {${reviewStatusColor}-fg}${reviewStatus}{/} {#666-fg}(V to view){/}\n`;
+      const verdict = loop.reviewVerdict === 'approved' ? ' {#00f5d4-fg}approved{/}'
+        : loop.reviewVerdict === 'changes_requested' ? ' {#ff006e-fg}changes requested{/}'
+        : '';
+      content += `{#ff4fd8-fg}Review:{/} {${reviewStatusColor}-fg}${reviewStatus}{/}${verdict} {#666-fg}(V to view){/}\n`;
+    }
+    if (loop.pullRequestUrl) {
+      content += `{#ff4fd8-fg}PR:{/} ${loop.pullRequestUrl}\n`;
     }
     if (loop.parentLoopId) {
       const parentLoop = state.loops.find(l => l.id === loop.parentLoopId);
@@ -701,11 +850,18 @@ function main(): void {
     const operatorColor = '#0a5fb8';
     const items = loop.issue.acceptanceCriteria.length > 0
       ? loop.issue.acceptanceCriteria.map((criterion) => {
+        const claimed = criterion.claimed && !criterion.completed;
         const iconColor = criterion.completed
           ? (criterion.completedBy === 'agent' ? agentColor : operatorColor)
-          : '#666';
-        const icon = criterion.completed ? '✓' : '○';
-        return ` {${iconColor}-fg}${icon}{/} ${criterion.text}`;
+          : claimed ? '#ffbe0b' : '#666';
+        if (criterion.removed) {
+          return ` {#666-fg}✗ ${criterion.text} (removed from issue){/}`;
+        }
+        const icon = criterion.completed ? '✓' : claimed ? '?' : '○';
+        const verify = criterion.verify ? ` {#666-fg}⚑ ${criterion.verify}{/}` : '';
+        const unverified = claimed ? ' {#ffbe0b-fg}claimed, unverified - Enter to confirm{/}' : '';
+        const replied = criterion.reviewThread?.replied ? ' {#666-fg}↩ replied{/}' : '';
+        return ` {${iconColor}-fg}${icon}{/} ${criterion.text}${verify}${unverified}${replied}`;
       })
       : ['{#666-fg}No acceptance criteria{/}'];
     criteriaList.setItems(items);
@@ -720,25 +876,13 @@ function main(): void {
   }
 
   function toggleCriterion(loopId: string, index: number): void {
-    let nextState = loadState();
-    const loop = nextState.loops.find(l => l.id === loopId);
-    if (!loop) return;
-    if (index < 0 || index >= loop.issue.acceptanceCriteria.length) return;
-
-    const criterion = loop.issue.acceptanceCriteria[index];
-    const nextCompleted = !criterion.completed;
-    criterion.completed = nextCompleted;
-    criterion.completedBy = nextCompleted ? 'operator' : undefined;
-    criterion.completedAt = nextCompleted ? new Date().toISOString() : undefined;
-
-    nextState = updateLoop(nextState, loopId, { issue: loop.issue });
-    saveState(nextState);
-    state = nextState;
+    const loop = state.loops.find(l => l.id === loopId);
+    const criterion = loop?.issue.acceptanceCriteria[index];
+    if (!criterion) return;
 
-    appendLog(loopId, {
-      type: 'system',
-      content: `Criterion ${index + 1} marked ${nextCompleted ? 'complete' : 'incomplete'} by operator`,
-    });
+    // Recorded like the agent's updates: task file write-back, issue sync
+    setCriterionCompleted(loopId, index, !criterion.completed);
+    state = loadState();
 
     const updatedLoop = state.loops.find(l => l.id === loopId);
     if (updatedLoop) {
@@ -997,7 +1141,7 @@ function main(): void {
   function updateStatusBar(loop?: Loop): void {
     const nav = '{#2de2e6-fg}↑↓{/}Nav';
     const quit = '{#ff4fd8-fg}[Q]{/}uit';
-    const newLoop = '{#ff4fd8-fg}[N]{/}ew';
+    const newLoop = '{#ff4fd8-fg}[N]{/}ew {#ff4fd8-fg}[G]{/} Import';
     const refresh = '{#ff4fd8-fg}[T]{/} Refresh';
     const viewLogs = '{#ff4fd8-fg}[L]{/} Logs';
     const metrics = '{#9b5de5-fg}[M]{/}etrics';
@@ -1007,32 +1151,43 @@ function main(): void {
     const bulkHide = '{#ff4fd8-fg}[B]{/} Bulk hide';
     const hideAction = loop && !showHidden ? '{#ff4fd8-fg}[h]{/} Hide' : '';
     const unhideAction = loop && showHidden ? '{#ff4fd8-fg}[U]{/} Unhide' : '';
-    const visibilityActions = `${hideAction}${unhideAction ? ` ${unhideAction}` : ''} ${bulkHide} ${toggleHidden}`.trim();
+    const queueAction = isSchedulerEnabled()
+      ? (isQueueHeld() ? ' {#ffbe0b-fg}[W]{/} Drain queue' : ' {#ff4fd8-fg}[W]{/} Hold queue')
+      : '';
+    const checkpointAction = loop?.worktreePath ? ' {#ff4fd8-fg}[Z]{/} Checkpoints' : '';
+    const visibilityActions = `${hideAction}${unhideAction ? ` ${unhideAction}` : ''} ${bulkHide} ${toggleHidden}${queueAction}`.trim();
 
     let actions = '';
     if (!loop) {
       actions = `${newLoop} ${metrics} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else if (loop.status === 'running') {
-      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ff4fd8-fg}[P]{/}ause {#ff4fd8-fg}[S]{/}top {#ff4fd8-fg}[I]{/}ntervene ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
+      const pauseAction = loop.pauseRequested
+        ? '{#ffbe0b-fg}[p]{/} Cancel pause'
+        : '{#ff4fd8-fg}[p]{/}ause {#ff4fd8-fg}[P]{/} Pause now';
+      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} ${pauseAction} {#ff4fd8-fg}[S]{/}top {#ff4fd8-fg}[I]{/}ntervene ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else if (loop.status === 'paused') {
       const isPrevSession = loop.pausedFromPreviousSession;
       const discardAction = isPrevSession ? ' {#ff4fd8-fg}[D]{/}iscard' : '';
       const resumeLabel = isPrevSession ? ' Resume(rebuild)' : ' Resume';
-      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ff4fd8-fg}[P]{/}${resumeLabel} {#ff4fd8-fg}[S]{/}top${discardAction} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
+      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ff4fd8-fg}[P]{/}${resumeLabel} {#ff4fd8-fg}[S]{/}top${discardAction}${checkpointAction} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else if (loop.status === 'queued') {
-      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#2de2e6-fg}Enter{/} Start {#ff4fd8-fg}[S]{/} Delete ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
+      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#2de2e6-fg}Enter{/} Start {#ff4fd8-fg}[S]{/} Delete {#ff4fd8-fg}[+/-]{/} Priority {#ff4fd8-fg}[A]{/} Depends {#ff4fd8-fg}[X]{/} Race ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else if (loop.status === 'error') {
-      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ffbe0b-fg}[R] RETRY{/} {#ffbe0b-fg}[C] Mark Complete{/} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
+      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ffbe0b-fg}[R] RETRY{/} {#ffbe0b-fg}[C] Mark Complete{/}${checkpointAction} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else if (loop.status === 'stopped') {
-      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ffbe0b-fg}[R] RETRY{/} {#ffbe0b-fg}[C] Mark Complete{/} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
+      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} {#ffbe0b-fg}[R] RETRY{/} {#ffbe0b-fg}[C] Mark Complete{/}${checkpointAction} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else if (loop.status === 'completed') {
-      const closeIssueAction = loop.issueClosed ? '' : ` {#ff4fd8-fg}[C]{/}lose Issue`;
+      const closeIssueAction = loop.issueClosed || loop.issue.pullRequest || loop.issue.provider === 'file' ? '' : ` {#ff4fd8-fg}[C]{/}lose Issue`;
       const reviewAction = loop.reviewLoopId
         ? ' {#ff4fd8-fg}[V]{/} View Review'
         : loop.isReviewLoop
           ? ' {#ff4fd8-fg}[V]{/} View Original'
           : ' {#ff4fd8-fg}[V]{/} Request Review';
-      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics}${reviewAction}${closeIssueAction} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
+      const raceAction = loop.isReviewLoop ? '' : loop.raceId ? ' {#ff4fd8-fg}[X]{/} Race summary' : ' {#ff4fd8-fg}[X]{/} Race';
+      const pullRequestAction = loop.issue.pullRequest ? ' {#ff4fd8-fg}[O]{/} Push & reply'
+        : loop.worktreeBranch && !loop.isReviewLoop && !loop.pullRequestUrl ? ' {#ff4fd8-fg}[O]{/}pen PR'
+        : '';
+      actions = `${newLoop} ${refresh} ${viewLogs} ${metrics}${reviewAction}${closeIssueAction}${pullRequestAction}${raceAction}${checkpointAction} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     } else {
       actions = `${newLoop} ${refresh} ${viewLogs} ${metrics} ${visibilityActions} {#666-fg}│{/} ${nav} {#666-fg}│{/} ${quit}`;
     }
@@ -1090,8 +1245,8 @@ function main(): void {
       tags: true,
       top: 'center',
       left: 'center',
-      width: 70,
-      height: 22,
+      width: 80,
+      height: 26,
       border: 'line',
       style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
       shadow: true,
@@ -1104,7 +1259,7 @@ function main(): void {
       top: 1,
       left: 2,
       tags: true,
-      content: '{#eaeaea-fg}Paste a GitHub Issue URL:{/}',
+      content: '{#eaeaea-fg}Issue URL (GitHub, GitLab, Jira), GitHub PR URL or task file:{/}',
     });
 
     const input = createCursorInput({
@@ -1139,7 +1294,7 @@ function main(): void {
       top: 11,
       left: 2,
       tags: true,
-      content: '{#eaeaea-fg}Max iterations (optional):{/}',
+      content: '{#eaeaea-fg}Max iterations:{/}',
     });
 
     const maxIterInput = createCursorInput({
@@ -1152,6 +1307,75 @@ function main(): void {
       value: String(MAX_ITERATIONS_DEFAULT),
     }, screen);
 
+    // Run policy overrides - blank uses the repo/global default
+    blessed.text({
+      parent: modal,
+      top: 11,
+      left: 20,
+      tags: true,
+      content: '{#eaeaea-fg}Timeout (min):{/}',
+    });
+
+    const timeoutInput = createCursorInput({
+      parent: modal,
+      top: 12,
+      left: 20,
+      width: 16,
+      height: 3,
+      style: { fg: 'white', bg: 'black', border: { fg: 'cyan' }, focus: { border: { fg: 'magenta' } } },
+    }, screen);
+
+    blessed.text({
+      parent: modal,
+      top: 11,
+      left: 38,
+      tags: true,
+      content: '{#eaeaea-fg}Idle iterations to halt:{/}',
+    });
+
+    const noProgressInput = createCursorInput({
+      parent: modal,
+      top: 12,
+      left: 38,
+      width: 16,
+      height: 3,
+      style: { fg: 'white', bg: 'black', border: { fg: 'cyan' }, focus: { border: { fg: 'magenta' } } },
+    }, screen);
+
+    blessed.text({
+      parent: modal,
+      top: 11,
+      left: 64,
+      tags: true,
+      content: '{#eaeaea-fg}Max cost ($):{/}',
+    });
+
+    const maxCostInput = createCursorInput({
+      parent: modal,
+      top: 12,
+      left: 64,
+      width: 12,
+      height: 3,
+      style: { fg: 'white', bg: 'black', border: { fg: 'cyan' }, focus: { border: { fg: 'magenta' } } },
+    }, screen);
+
+    blessed.text({
+      parent: modal,
+      top: 15,
+      left: 2,
+      tags: true,
+      content: '{#eaeaea-fg}Test command:{/} {#666-fg}(run after every iteration, must pass to complete){/}',
+    });
+
+    const testCommandInput = createCursorInput({
+      parent: modal,
+      top: 16,
+      left: 2,
+      width: 74,
+      height: 3,
+      style: { fg: 'white', bg: 'black', border: { fg: 'cyan' }, focus: { border: { fg: 'magenta' } } },
+    }, screen);
+
     // Use InputManager to safely handle switching between inputs
     const inputManager = createInputManager<ManagedInput>({
       onActivate: () => screen.render(),
@@ -1161,6 +1385,10 @@ function main(): void {
     input.on('click', () => inputManager.activate(input));
     repoInput.on('click', () => inputManager.activate(repoInput));
     maxIterInput.on('click', () => inputManager.activate(maxIterInput));
+    timeoutInput.on('click', () => inputManager.activate(timeoutInput));
+    noProgressInput.on('click', () => inputManager.activate(noProgressInput));
+    maxCostInput.on('click', () => inputManager.activate(maxCostInput));
+    testCommandInput.on('click', () => inputManager.activate(testCommandInput));
 
     // Auto-focus first input when modal opens
     setTimeout(() => inputManager.activate(input), 50);
@@ -1168,11 +1396,15 @@ function main(): void {
     // Tab to switch between inputs
     input.key(['tab'], () => inputManager.activate(repoInput));
     repoInput.key(['tab'], () => inputManager.activate(maxIterInput));
-    maxIterInput.key(['tab'], () => inputManager.activate(input));
+    maxIterInput.key(['tab'], () => inputManager.activate(timeoutInput));
+    timeoutInput.key(['tab'], () => inputManager.activate(noProgressInput));
+    noProgressInput.key(['tab'], () => inputManager.activate(maxCostInput));
+    maxCostInput.key(['tab'], () => inputManager.activate(testCommandInput));
+    testCommandInput.key(['tab'], () => inputManager.activate(input));
 
     blessed.text({
       parent: modal,
-      top: 15,
+      top: 19,
       left: 2,
       tags: true,
       content: '{#9b5de5-fg}Agent:{/}',
@@ -1186,7 +1418,7 @@ function main(): void {
       const displayName = adapter.displayName || adapter.type;
       const btn = blessed.button({
         parent: modal,
-        top: 15,
+        top: 19,
         left: leftOffset,
         width: displayName.length + 5,
         height: 1,
@@ -1209,7 +1441,7 @@ function main(): void {
 
     blessed.text({
       parent: modal,
-      top: 17,
+      top: 21,
       left: 2,
       tags: true,
       content: '{#9b5de5-fg}Options:{/}',
@@ -1217,7 +1449,7 @@ function main(): void {
 
     const skipPermBtn = blessed.button({
       parent: modal,
-      top: 17,
+      top: 21,
       left: 11,
       width: 22,
       height: 1,
@@ -1251,7 +1483,7 @@ function main(): void {
 
     const createBtn = blessed.button({
       parent: modal,
-      top: 19,
+      top: 23,
       left: 2,
       width: 16,
       height: 3,
@@ -1264,7 +1496,7 @@ function main(): void {
 
     const cancelBtn = blessed.button({
       parent: modal,
-      top: 19,
+      top: 23,
       left: 20,
       width: 14,
       height: 3,
@@ -1284,7 +1516,7 @@ function main(): void {
     const handleCreate = async (): Promise<void> => {
       const url = input.getValue().trim();
       if (!url) {
-        logWithGlow('{#ff006e-fg}[error]{/} Please enter a GitHub issue URL', 'error');
+        logWithGlow('{#ff006e-fg}[error]{/} Please enter an issue URL, pull request URL or task file', 'error');
         screen.render();
         return;
       }
@@ -1314,6 +1546,42 @@ function main(): void {
         maxIterations = parsed;
       }
 
+      const policy: RunPolicy = {};
+      const timeoutRaw = timeoutInput.getValue().trim();
+      if (timeoutRaw.length > 0) {
+        const minutes = Number.parseFloat(timeoutRaw);
+        if (!Number.isFinite(minutes) || minutes <= 0) {
+          logWithGlow('{#ff006e-fg}[error]{/} Timeout must be a positive number of minutes', 'error');
+          screen.render();
+          return;
+        }
+        policy.iterationTimeoutMs = Math.round(minutes * 60 * 1000);
+      }
+      const noProgressRaw = noProgressInput.getValue().trim();
+      if (noProgressRaw.length > 0) {
+        const parsed = Number.parseInt(noProgressRaw, 10);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+          logWithGlow('{#ff006e-fg}[error]{/} Idle iterations to halt must be a positive number', 'error');
+          screen.render();
+          return;
+        }
+        policy.noProgressThreshold = parsed;
+      }
+      const maxCostRaw = maxCostInput.getValue().trim().replace(/^\$/, '');
+      if (maxCostRaw.length > 0) {
+        const parsed = Number.parseFloat(maxCostRaw);
+        if (!Number.isFinite(parsed) || parsed < 0) {
+          logWithGlow('{#ff006e-fg}[error]{/} Max cost must be a positive number of dollars (0 for no cap)', 'error');
+          screen.render();
+          return;
+        }
+        policy.maxCostUsd = parsed;
+      }
+      const testCommand = testCommandInput.getValue().trim();
+      if (testCommand.length > 0) {
+        policy.testCommand = testCommand;
+      }
+
       closeModal();
       logWithGlow(`{#666-fg}[system]{/} Fetching issue from ${url}...`, 'system');
       screen.render();
@@ -1344,7 +1612,7 @@ function main(): void {
           top: 1,
           left: 2,
           tags: true,
-          content: '{#eaeaea-fg}↑↓ navigate  Tab = edit  Enter = accept  [+] add  [-] remove{/}',
+          content: '{#eaeaea-fg}↑↓ navigate  Tab = edit  Enter = accept  [+] add  [-] remove  {#666-fg}suffix `verify: <cmd>` gates it{/}',
         });
 
         // Scrollable list container
@@ -1378,7 +1646,7 @@ function main(): void {
         const renderList = (): void => {
           const items = criteriaDraft.map((c, i) => {
             const num = `{#666-fg}${String(i + 1).padStart(2)}.{/}`;
-            const rawText = c.text || '';
+            const rawText = c.text ? formatCriterionText(c) : '';
             if (!rawText) return ` ${num} {#666-fg}(empty){/}`;
 
             const textLen = rawText.length;
@@ -1432,7 +1700,7 @@ function main(): void {
               bg: '#111',
               border: { fg: 'cyan' },
             },
-            value: criteriaDraft[index].text,
+            value: formatCriterionText(criteriaDraft[index]),
           }, screen);
 
           blessed.text({
@@ -1446,7 +1714,9 @@ function main(): void {
           const closeEditModal = (save: boolean) => {
             if (!editModal) return;
             if (save) {
-              criteriaDraft[index].text = editInput.getValue().trim();
+              const { text, verify } = parseCriterionText(editInput.getValue());
+              criteriaDraft[index].text = text;
+              criteriaDraft[index].verify = verify;
             }
             editInput.cancel();
             editModal.destroy();
@@ -1500,6 +1770,7 @@ function main(): void {
             selectedIndex = Math.min(selectedIndex, criteriaDraft.length - 1);
           } else {
             criteriaDraft[0].text = '';
+            criteriaDraft[0].verify = undefined;
           }
           renderList();
         });
@@ -1522,7 +1793,12 @@ function main(): void {
             .filter(criterion => criterion.text.trim().length > 0)
             .map(criterion => ({ ...criterion, text: criterion.text.trim() }));
 
-          const updatedBody = applyAcceptanceCriteriaToIssueBody(issue.body || '', nextCriteria);
+          // A pull request's criteria are its review threads - its description stays as is
+          const updatedBody = issue.pullRequest
+            ? issue.body
+            : issue.provider === 'file'
+              ? applyCriteriaProgressToIssueBody(issue.body, nextCriteria)
+              : applyAcceptanceCriteriaToIssueBody(issue.body || '', nextCriteria);
           const updatedIssue: Issue = {
             ...issue,
             acceptanceCriteria: nextCriteria,
@@ -1530,13 +1806,15 @@ function main(): void {
             body: updatedBody,
           };
 
-          try {
-            updateIssueBody(updatedIssue.url, updatedBody);
-          } catch (err: any) {
-            logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+          if (!issue.pullRequest) {
+            try {
+              await updateIssueBody(updatedIssue.url, updatedBody);
+            } catch (err: any) {
+              logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+            }
           }
 
-          const loop = await createLoop(updatedIssue, selectedAgent, skipPermissions, repoRoot, maxIterations);
+          const loop = await createLoop(updatedIssue, selectedAgent, skipPermissions, repoRoot, maxIterations, { policy });
 
           state = loadState();
           updateLoopList();
@@ -1551,7 +1829,15 @@ function main(): void {
           }
 
           logWithGlow(`{#00f5d4-fg}[system]{/} Loop created: ${updatedIssue.title}`, 'system');
-          logWithGlow(`{#666-fg}[system]{/} Press Enter to start the loop`, 'system');
+          if (isSchedulerEnabled()) {
+            logWithGlow(`{#666-fg}[system]{/} Loop queued - the scheduler will start it when a slot frees up`, 'system');
+            controller.scheduleQueuedLoops().catch((err: Error) => {
+              logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+              screen.render();
+            });
+          } else {
+            logWithGlow(`{#666-fg}[system]{/} Press Enter to start the loop`, 'system');
+          }
           closeCriteriaModal();
         };
 
@@ -1586,7 +1872,8 @@ function main(): void {
       };
 
       try {
-        const issue = await fetchIssue(url);
+        // Task file paths are relative to the repo root
+        const issue = await fetchIssue(isTaskPath(url) ? resolveTaskPath(url, repoRoot) : url);
         openCriteriaModal(issue);
       } catch (err: any) {
         logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
@@ -1665,7 +1952,7 @@ function main(): void {
         top: 3,
         left: 2,
         tags: true,
-        content: `{#ffffff-fg}Hiding loop #${loop.issue.number} will NOT stop it.{/}`,
+        content: `{#ffffff-fg}Hiding loop ${formatIssueRef(loop.issue)} will NOT stop it.{/}`,
       });
       blessed.text({
         parent: confirm,
@@ -1680,7 +1967,7 @@ function main(): void {
         top: 1,
         left: 2,
         tags: true,
-        content: `{#eaeaea-fg}Hide ${loop.status} loop #${loop.issue.number}?{/}`,
+        content: `{#eaeaea-fg}Hide ${loop.status} loop ${formatIssueRef(loop.issue)}?{/}`,
       });
     }
 
@@ -1783,11 +2070,10 @@ function main(): void {
         return;
       }
       const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
-      let nextState = loadState();
       let hiddenCount = 0;
-      nextState = {
-        ...nextState,
-        loops: nextState.loops.map(loop => {
+      state = mutateState(current => ({
+        ...current,
+        loops: current.loops.map(loop => {
           if (loop.hidden) return loop;
           if (loop.status !== 'completed') return loop;
           const ts = loop.endedAt || loop.startedAt;
@@ -1796,9 +2082,7 @@ function main(): void {
           hiddenCount += 1;
           return { ...loop, hidden: true };
         }),
-      };
-      saveState(nextState);
-      state = nextState;
+      }));
       if (hiddenCount === 0) {
         logWithGlow('{#ffbe0b-fg}[system]{/} No completed loops matched the cutoff', 'system');
       } else {
@@ -1861,7 +2145,7 @@ function main(): void {
       if (updatedLoop) {
         appendLog(loop.id, { type: 'system', content: 'Loop hidden by operator' });
       }
-      logWithGlow(`{#00f5d4-fg}[system]{/} Hidden loop #${loop.issue.number}`, 'system');
+      logWithGlow(`{#00f5d4-fg}[system]{/} Hidden loop ${formatIssueRef(loop.issue)}`, 'system');
       refreshAfterVisibilityChange();
     };
 
@@ -1891,7 +2175,7 @@ function main(): void {
     if (updatedLoop) {
       appendLog(loop.id, { type: 'system', content: 'Loop unhidden by operator' });
     }
-    logWithGlow(`{#00f5d4-fg}[system]{/} Unhid loop #${loop.issue.number}`, 'system');
+    logWithGlow(`{#00f5d4-fg}[system]{/} Unhid loop ${formatIssueRef(loop.issue)}`, 'system');
     refreshAfterVisibilityChange();
   });
 
@@ -1903,12 +2187,19 @@ function main(): void {
 
   // Enter - Start queued loop
   screen.key(['enter'], () => {
-    if (isAnyInputActive()) return;
+    if (isAnyInputActive() || pickerModalOpen) return;
     if (!selectedLoopId) return;
     const loop = state.loops.find(l => l.id === selectedLoopId);
     if (loop?.status === 'queued') {
+      // Waiting on or blocked by parent loops
+      const unmet = describeUnmetDependencies(loop, state.loops);
+      if (unmet) {
+        logWithGlow(`{#ffbe0b-fg}[system]{/} ${formatIssueRef(loop.issue)} can't start yet - ${unmet}`, 'system');
+        screen.render();
+        return;
+      }
       // startLoop is async - fire and forget, errors handled via events
-      startLoop(loop.id).catch((err: Error) => {
+      controller.startLoop(loop.id).catch((err: Error) => {
         logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
         screen.render();
       });
@@ -1929,166 +2220,1025 @@ function main(): void {
     }
   });
 
-  // P - Pause/Resume
-  screen.key(['p', 'P'], () => {
-    if (isAnyInputActive()) return;
+  // +/- - Raise/lower priority of a queued loop
+  const isMainPaneFocused = (): boolean =>
+    screen.focused === loopListWindow || screen.focused === detailWindow ||
+    screen.focused === criteriaList || screen.focused === logWindow;
+
+  const changeQueuedPriority = (delta: number): void => {
+    if (isAnyInputActive() || !isMainPaneFocused()) return;
     if (!selectedLoopId) return;
     const loop = state.loops.find(l => l.id === selectedLoopId);
-    if (!loop) return;
+    if (loop?.status !== 'queued') return;
 
     try {
-      if (loop.status === 'running') {
-        pauseLoop(loop.id);
-        state = loadState();
-        const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
-        updateLoopList();
-        updateHeader();
-        updateTabBar();
-        const selectionChanged = syncSelectionAfterFilter();
-        if (!selectionChanged && updatedLoop) {
-          updateDetailPane(updatedLoop);
-          updateStatusBar(updatedLoop);
-        }
-        screen.render();
-      } else if (loop.status === 'paused') {
-        // Check if this is a cross-session resume (no active process)
-        if (canResumeInSession(loop.id)) {
-          // Same-session resume with SIGCONT
-          resumeLoop(loop.id);
-          state = loadState();
-          const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
-          updateLoopList();
-          updateHeader();
-          updateTabBar();
-          const selectionChanged = syncSelectionAfterFilter();
-          if (!selectionChanged && updatedLoop) {
-            updateDetailPane(updatedLoop);
-            updateStatusBar(updatedLoop);
-          }
-          screen.render();
-        } else {
-          // Cross-session resume - spawn new process with context
-          logWithGlow('{#ffbe0b-fg}[system]{/} Resuming loop from previous session...', 'system');
-          screen.render();
-          resumePausedLoop(loop.id).catch((err: Error) => {
-            logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
-            screen.render();
-          });
-        }
+      const priority = adjustLoopPriority(loop.id, delta);
+      state = loadState();
+      updateLoopList();
+      const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
+      if (updatedLoop) {
+        updateDetailPane(updatedLoop);
+        updateStatusBar(updatedLoop);
       }
+      logWithGlow(`{#666-fg}[system]{/} Priority for ${formatIssueRef(loop.issue)} set to ${priority}`, 'system');
+      screen.render();
     } catch (err: any) {
       logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
       screen.render();
     }
-  });
+  };
 
-  // S - Stop
-  screen.key(['s', 'S'], () => {
+  screen.key(['+', '='], () => changeQueuedPriority(1));
+  screen.key(['-'], () => changeQueuedPriority(-1));
+
+  // W - Hold/drain the scheduler queue
+  screen.key(['w', 'W'], () => {
     if (isAnyInputActive()) return;
-    if (!selectedLoopId) return;
-    const loop = state.loops.find(l => l.id === selectedLoopId);
-    if (!loop) return;
+    if (!isSchedulerEnabled()) return;
 
-    if (loop.status === 'running' || loop.status === 'paused') {
-      try {
-        stopLoop(loop.id);
-        state = loadState();
-        const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
-        updateLoopList();
-        updateHeader();
-        updateTabBar();
-        const selectionChanged = syncSelectionAfterFilter();
-        if (!selectionChanged && updatedLoop) {
-          updateDetailPane(updatedLoop);
-          updateStatusBar(updatedLoop);
-        }
+    if (isQueueHeld()) {
+      controller.drainQueue().then((started) => {
+        logWithGlow(`{#00f5d4-fg}[system]{/} Queue draining - started ${started.length} loop(s)`, 'system');
         screen.render();
-      } catch (err: any) {
+      }).catch((err: Error) => {
         logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
         screen.render();
-      }
+      });
+    } else {
+      holdQueue();
+      logWithGlow('{#ffbe0b-fg}[system]{/} Queue held - queued loops will not auto-start', 'system');
     }
-  });
 
-  // D - Discard paused loop from previous session
-  screen.key(['d', 'D'], () => {
-    if (isAnyInputActive()) return;
-    if (!selectedLoopId) return;
-    const loop = state.loops.find(l => l.id === selectedLoopId);
-    if (!loop) return;
+    state = loadState();
+    const currentLoop = selectedLoopId ? state.loops.find(l => l.id === selectedLoopId) : undefined;
+    updateStatusBar(currentLoop);
+    screen.render();
+  });
 
-    if (loop.status === 'paused' && loop.pausedFromPreviousSession) {
-      try {
-        discardPausedLoop(loop.id);
-        state = loadState();
-        // Select next loop or clear selection
-        const remainingLoops = state.loops;
-        if (remainingLoops.length > 0) {
-          selectedLoopId = remainingLoops[0].id;
-        } else {
-          selectedLoopId = null;
-        }
-        updateLoopList();
-        updateHeader();
-        updateTabBar();
-        syncSelectionAfterFilter();
-        if (selectedLoopId) {
-          const newLoop = state.loops.find(l => l.id === selectedLoopId);
-          if (newLoop) {
-            updateDetailPane(newLoop);
-            updateStatusBar(newLoop);
-          }
-        } else {
-          detailWindow.setContent('{#666-fg}No loops.{/}');
-          updateStatusBar();
-        }
-        logWithGlow('{#ffbe0b-fg}[system]{/} Paused loop discarded', 'system');
-        screen.render();
-      } catch (err: any) {
-        logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
-        screen.render();
-      }
+  // Refresh list, tabs and the selected loop after a loop action completes
+  const refreshAfterLoopAction = (): void => {
+    state = loadState();
+    const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
+    updateLoopList();
+    updateHeader();
+    updateTabBar();
+    const selectionChanged = syncSelectionAfterFilter();
+    if (!selectionChanged && updatedLoop) {
+      updateDetailPane(updatedLoop);
+      updateStatusBar(updatedLoop);
     }
-  });
+    screen.render();
+  };
 
-  // R - Retry errored/stopped loop
-  screen.key(['r', 'R'], () => {
-    if (isAnyInputActive()) return;
-    if (!selectedLoopId) return;
-    const loop = state.loops.find(l => l.id === selectedLoopId);
-    if (!loop) return;
+  const logActionError = (err: Error): void => {
+    logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+    screen.render();
+  };
 
-    if (loop.status === 'error' || loop.status === 'stopped') {
-      retryLoop(loop.id).catch((err: Error) => {
-        logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
-        screen.render();
-      });
-      // Immediate UI update
-      state = loadState();
-      const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
-      updateLoopList();
-      updateHeader();
-      updateTabBar();
-      const selectionChanged = syncSelectionAfterFilter();
-      if (!selectionChanged && updatedLoop) {
-        updateDetailPane(updatedLoop);
-        updateStatusBar(updatedLoop);
-      }
-      // Refresh log view to show new retry logs
-      loadLogsForLoop(loop.id);
-      screen.render();
-    }
-  });
+  // Set while a checklist modal (dependencies, race, import) owns Space/Enter
+  let pickerModalOpen = false;
 
-  // V - Navigate to review/parent loop, or request review
-  screen.key(['v'], () => {
-    if (isAnyInputActive()) return;
-    if (!selectedLoopId) return;
-    const loop = state.loops.find(l => l.id === selectedLoopId);
-    if (!loop) return;
+  // G - Queue loops for the open GitHub issues matching a query
 
-    // Navigate to review loop if exists
-    if (loop.reviewLoopId) {
+  const openImportPicker = (candidates: ImportCandidate[], repoRoot: string): void => {
+    pickerModalOpen = true;
+    const selected = new Set(candidates.filter(c => !c.tracked).map(c => c.issue.url));
+
+    const modal = blessed.box({
+      parent: screen,
+      label: ' {bold}{#ff4fd8-fg}◆ IMPORT ISSUES{/} ',
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 90,
+      height: 28,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      tags: true,
+      content: `{#eaeaea-fg}${candidates.length} open issue(s) - each selected one becomes a queued loop:{/}`,
+    });
+
+    const listBox = blessed.list({
+      parent: modal,
+      top: 3,
+      left: 2,
+      width: 84,
+      height: 12,
+      border: 'line',
+      scrollable: true,
+      keys: true,
+      mouse: true,
+      tags: true,
+      style: {
+        border: { fg: 'cyan' },
+        selected: { fg: 'black', bg: 'cyan' },
+        item: { fg: 'white' },
+      },
+    } as any);
+
+    // Criteria of the highlighted issue
+    const previewBox = blessed.box({
+      parent: modal,
+      top: 15,
+      left: 2,
+      width: 84,
+      height: 9,
+      border: 'line',
+      label: ' Criteria ',
+      tags: true,
+      scrollable: true,
+      style: { fg: 'white', border: { fg: 'cyan' } },
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 25,
+      left: 2,
+      tags: true,
+      content: '{#ffbe0b-fg}Space{/} Toggle  {#ffbe0b-fg}[A]{/} All/none  {#2de2e6-fg}Enter{/} Queue loops  {#ff4fd8-fg}Esc{/} Cancel',
+    });
+
+    const renderPreview = (): void => {
+      const candidate = candidates[(listBox as any).selected ?? 0];
+      if (!candidate) return;
+      const criteria = candidate.issue.acceptanceCriteria;
+      const lines = criteria.length > 0
+        ? criteria.map(c => `${c.completed ? '{#00f5d4-fg}[x]{/}' : '[ ]'} ${c.text}`)
+        : ['{#666-fg}No acceptance criteria found - the agent works from the issue body{/}'];
+      const labels = candidate.labels.length > 0 ? candidate.labels.join(', ') : 'none';
+      previewBox.setContent(`{#9b5de5-fg}Labels:{/} ${labels}\n${lines.join('\n')}`);
+      previewBox.setScrollPerc(0);
+    };
+
+    const render = (): void => {
+      const current = (listBox as any).selected ?? 0;
+      listBox.setItems(candidates.map((candidate) => {
+        const title = candidate.issue.title.length > 44 ? candidate.issue.title.substring(0, 41) + '...' : candidate.issue.title;
+        if (candidate.tracked) {
+          return ` {#666-fg}[-] #${candidate.issue.number} ${title}  has a loop{/}`;
+        }
+        const mark = selected.has(candidate.issue.url) ? '{#00f5d4-fg}[x]{/}' : '[ ]';
+        const count = candidate.issue.acceptanceCriteria.length;
+        return ` ${mark} #${candidate.issue.number} ${title}  {#9b5de5-fg}${candidate.agent}{/} ${candidate.maxIterations} it, ${count} criteria`;
+      }) as any);
+      listBox.select(current);
+      renderPreview();
+      screen.render();
+    };
+
+    const closeModal = (): void => {
+      pickerModalOpen = false;
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    const queueSelected = (): void => {
+      const chosen = candidates.filter(c => selected.has(c.issue.url));
+      closeModal();
+      if (chosen.length === 0) {
+        logWithGlow('{#ffbe0b-fg}[system]{/} No issues selected', 'system');
+        screen.render();
+        return;
+      }
+      importIssues(chosen, repoRoot, true).then((created) => {
+        logWithGlow(`{#00f5d4-fg}[system]{/} Imported ${created.length} issue(s) as queued loops`, 'system');
+        refreshAfterLoopAction();
+        return controller.scheduleQueuedLoops();
+      }).catch(logActionError);
+    };
+
+    listBox.on('select item', () => {
+      renderPreview();
+      screen.render();
+    });
+    listBox.key(['space'], () => {
+      const candidate = candidates[(listBox as any).selected ?? 0];
+      if (!candidate || candidate.tracked) return;
+      if (selected.has(candidate.issue.url)) {
+        selected.delete(candidate.issue.url);
+      } else {
+        selected.add(candidate.issue.url);
+      }
+      render();
+    });
+    listBox.key(['a', 'A'], () => {
+      const importable = candidates.filter(c => !c.tracked);
+      const allSelected = importable.every(c => selected.has(c.issue.url));
+      selected.clear();
+      if (!allSelected) {
+        importable.forEach(c => selected.add(c.issue.url));
+      }
+      render();
+    });
+    listBox.key(['enter'], queueSelected);
+    listBox.key(['escape'], closeModal);
+
+    render();
+    listBox.focus();
+  };
+
+  const openImportModal = (): void => {
+    const availableAdapters = getAvailableAdapters();
+    if (availableAdapters.length === 0) {
+      logWithGlow('{#ff006e-fg}[error]{/} No agent adapters available', 'error');
+      return;
+    }
+    // Issues without a matching import rule go to the configured default agent
+    const { defaultAgent } = getConfig();
+    const agent = availableAdapters.some(a => a.type === defaultAgent) ? defaultAgent : availableAdapters[0].type;
+
+    const modal = blessed.box({
+      parent: screen,
+      label: ' {bold}{#ff4fd8-fg}◆ IMPORT ISSUES{/} ',
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 80,
+      height: 19,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      tags: true,
+      content: '{#eaeaea-fg}Open GitHub issues matching all of (blank fields are ignored):{/}',
+    });
+
+    const inputStyle = { fg: 'white', bg: 'black', border: { fg: 'cyan' }, focus: { border: { fg: 'magenta' } } };
+    const field = (label: string, top: number, left: number, width: number, value?: string): CursorInput => {
+      blessed.text({ parent: modal, top, left, tags: true, content: `{#eaeaea-fg}${label}{/}` });
+      return createCursorInput({ parent: modal, top: top + 1, left, width, height: 3, style: inputStyle, value }, screen);
+    };
+
+    const labelsInput = field('Labels (comma-separated):', 3, 2, 36);
+    const milestoneInput = field('Milestone:', 3, 40, 36);
+    const assigneeInput = field('Assignee:', 7, 2, 36);
+    const searchInput = field('Search:', 7, 40, 36);
+    const repoInput = field('GitHub repo (owner/name, blank = repo root\'s):', 11, 2, 36);
+    const repoRootInput = field('Local repo root:', 11, 40, 36, process.cwd());
+    const inputs = [labelsInput, milestoneInput, assigneeInput, searchInput, repoInput, repoRootInput];
+
+    blessed.text({
+      parent: modal,
+      top: 16,
+      left: 2,
+      tags: true,
+      content: `{#9b5de5-fg}Default agent:{/} ${agent}  {#2de2e6-fg}Enter{/} Search  {#9b5de5-fg}Tab{/} Next field  {#ff4fd8-fg}Esc{/} Cancel`,
+    });
+
+    const inputManager = createInputManager<ManagedInput>({
+      onActivate: () => screen.render(),
+    });
+
+    const closeModal = (): void => {
+      inputManager.deactivate();
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    const search = async (): Promise<void> => {
+      const repoRoot = path.resolve(repoRootInput.getValue().trim() || process.cwd());
+      if (!fs.existsSync(repoRoot) || !fs.statSync(repoRoot).isDirectory()) {
+        logWithGlow('{#ff006e-fg}[error]{/} Local repo root is not a directory', 'error');
+        screen.render();
+        return;
+      }
+
+      const query: IssueQuery = {
+        repo: repoInput.getValue().trim() || undefined,
+        labels: labelsInput.getValue().split(',').map(label => label.trim()).filter(Boolean),
+        milestone: milestoneInput.getValue().trim() || undefined,
+        assignee: assigneeInput.getValue().trim() || undefined,
+        search: searchInput.getValue().trim() || undefined,
+      };
+
+      closeModal();
+      logWithGlow('{#666-fg}[system]{/} Listing issues...', 'system');
+      screen.render();
+
+      let candidates: ImportCandidate[];
+      try {
+        candidates = await previewImport(query, repoRoot, { agent, maxIterations: MAX_ITERATIONS_DEFAULT });
+      } catch (err: any) {
+        logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+        screen.render();
+        return;
+      }
+      if (candidates.length === 0) {
+        logWithGlow('{#ffbe0b-fg}[system]{/} No matching open issues', 'system');
+        screen.render();
+        return;
+      }
+      openImportPicker(candidates, repoRoot);
+    };
+
+    inputs.forEach((input, index) => {
+      input.on('click', () => inputManager.activate(input));
+      input.key(['tab'], () => inputManager.activate(inputs[(index + 1) % inputs.length]));
+      input.key(['S-tab'], () => inputManager.activate(inputs[(index + inputs.length - 1) % inputs.length]));
+      input.key(['enter'], search);
+      input.key(['escape'], closeModal);
+    });
+    modal.key(['escape'], closeModal);
+    modal.key(['enter'], search);
+
+    setTimeout(() => inputManager.activate(labelsInput), 50);
+    screen.render();
+  };
+
+  screen.key(['g', 'G'], () => {
+    if (isAnyInputActive() || pickerModalOpen) return;
+    openImportModal();
+  });
+
+  // A - Choose the loops a queued loop depends on
+
+  const openDependencyModal = (loop: Loop): void => {
+    const candidates = state.loops.filter(l => l.id !== loop.id && (!l.hidden || loop.dependsOn?.includes(l.id)));
+    if (candidates.length === 0) {
+      logWithGlow('{#ffbe0b-fg}[system]{/} No other loops to depend on', 'system');
+      screen.render();
+      return;
+    }
+    pickerModalOpen = true;
+
+    const selected = new Set(loop.dependsOn ?? []);
+    let requireApprovedReview = loop.requireApprovedReview === true;
+
+    const modal = blessed.box({
+      parent: screen,
+      label: ` {bold}{#ff4fd8-fg}◆ DEPENDENCIES ${formatIssueRef(loop.issue)}{/} `,
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 80,
+      height: 20,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      tags: true,
+      content: '{#eaeaea-fg}Start this loop after the selected loops complete, on the first one\'s branch.{/}',
+    });
+
+    const listBox = blessed.list({
+      parent: modal,
+      top: 3,
+      left: 2,
+      width: 74,
+      height: 11,
+      border: 'line',
+      scrollable: true,
+      keys: true,
+      mouse: true,
+      tags: true,
+      style: {
+        border: { fg: 'cyan' },
+        selected: { fg: 'black', bg: 'cyan' },
+        item: { fg: 'white' },
+      },
+    } as any);
+
+    const reviewText = blessed.text({
+      parent: modal,
+      top: 15,
+      left: 2,
+      tags: true,
+      content: '',
+    });
+
+    blessed.text({
+      parent: modal,
+      top: 17,
+      left: 2,
+      tags: true,
+      content: '{#ffbe0b-fg}Space{/} Toggle  {#ffbe0b-fg}[R]{/} Require review  {#2de2e6-fg}Enter{/} Save  {#ff4fd8-fg}Esc{/} Cancel',
+    });
+
+    const render = (): void => {
+      const current = (listBox as any).selected ?? 0;
+      listBox.setItems(candidates.map((candidate) => {
+        const mark = selected.has(candidate.id) ? '{#00f5d4-fg}[x]{/}' : '[ ]';
+        const color = statusColors[candidate.status] || colors.text;
+        const title = candidate.issue.title.length > 48 ? candidate.issue.title.substring(0, 45) + '...' : candidate.issue.title;
+        return ` ${mark} ${formatIssueRef(candidate.issue)} ${title} {${color}-fg}${candidate.status}{/}`;
+      }) as any);
+      listBox.select(current);
+      reviewText.setContent(`{#9b5de5-fg}Require approved review:{/} ${requireApprovedReview ? '{#00f5d4-fg}yes{/}' : '{#666-fg}no{/}'}`);
+      screen.render();
+    };
+
+    const closeModal = (): void => {
+      pickerModalOpen = false;
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    const save = (): void => {
+      // Keep the list order so the first selected parent provides the base branch
+      const dependsOn = candidates.filter(c => selected.has(c.id)).map(c => c.id);
+      closeModal();
+      setLoopDependencies(loop.id, dependsOn, requireApprovedReview).then(() => {
+        logWithGlow(dependsOn.length > 0
+          ? `{#00f5d4-fg}[system]{/} ${formatIssueRef(loop.issue)} depends on ${dependsOn.length} loop(s)`
+          : `{#00f5d4-fg}[system]{/} ${formatIssueRef(loop.issue)} dependencies cleared`, 'system');
+        refreshAfterLoopAction();
+        // A loop whose dependencies were removed may be ready to start now
+        return controller.scheduleQueuedLoops();
+      }).catch(logActionError);
+    };
+
+    listBox.key(['space'], () => {
+      const candidate = candidates[(listBox as any).selected ?? 0];
+      if (!candidate) return;
+      if (selected.has(candidate.id)) {
+        selected.delete(candidate.id);
+      } else {
+        selected.add(candidate.id);
+      }
+      render();
+    });
+    listBox.key(['r', 'R'], () => {
+      requireApprovedReview = !requireApprovedReview;
+      render();
+    });
+    listBox.key(['enter'], save);
+    listBox.key(['escape'], closeModal);
+
+    render();
+    listBox.focus();
+  };
+
+  screen.key(['a', 'A'], () => {
+    if (isAnyInputActive() || pickerModalOpen) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+    if (loop.status !== 'queued') {
+      logWithGlow('{#ffbe0b-fg}[system]{/} Dependencies can only be set on queued loops', 'system');
+      screen.render();
+      return;
+    }
+    openDependencyModal(loop);
+  });
+
+  // X - Race the selected loop's issue on several agents / show the race summary
+  const openRaceModal = (loop: Loop): void => {
+    const adapters = getAvailableAdapters();
+    if (adapters.length < 2) {
+      logWithGlow('{#ff006e-fg}[error]{/} A race needs at least two available agents', 'error');
+      screen.render();
+      return;
+    }
+    pickerModalOpen = true;
+
+    const selected = new Set(adapters.map(a => a.type));
+    let stopLosers = true;
+
+    const modal = blessed.box({
+      parent: screen,
+      label: ` {bold}{#ff4fd8-fg}◆ RACE ${formatIssueRef(loop.issue)}{/} `,
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 64,
+      height: adapters.length + 10,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      tags: true,
+      content: '{#eaeaea-fg}Run this issue on each selected agent, one worktree each.{/}',
+    });
+
+    const listBox = blessed.list({
+      parent: modal,
+      top: 3,
+      left: 2,
+      width: 58,
+      height: adapters.length + 3,
+      border: 'line',
+      keys: true,
+      mouse: true,
+      tags: true,
+      style: {
+        border: { fg: 'cyan' },
+        selected: { fg: 'black', bg: 'cyan' },
+        item: { fg: 'white' },
+      },
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: adapters.length + 7,
+      left: 2,
+      tags: true,
+      content: '{#ffbe0b-fg}Space{/} Toggle  {#2de2e6-fg}Enter{/} Start race  {#ff4fd8-fg}Esc{/} Cancel',
+    });
+
+    const render = (): void => {
+      const current = (listBox as any).selected ?? 0;
+      const agentItems = adapters.map(a =>
+        ` ${selected.has(a.type) ? '{#00f5d4-fg}[x]{/}' : '[ ]'} ${a.displayName || a.type}`
+      );
+      listBox.setItems([
+        ...agentItems,
+        ` ${stopLosers ? '{#00f5d4-fg}[x]{/}' : '[ ]'} Stop the others when one wins`,
+      ] as any);
+      listBox.select(current);
+      screen.render();
+    };
+
+    const closeModal = (): void => {
+      pickerModalOpen = false;
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    const startRace = async (): Promise<void> => {
+      const agents = adapters.filter(a => selected.has(a.type)).map(a => a.type);
+      closeModal();
+      try {
+        logWithGlow(`{#ff4fd8-fg}[race]{/} Creating race: ${agents.join(' vs ')}...`, 'system');
+        screen.render();
+        const race = await createRace(
+          loop.issue,
+          agents,
+          loop.skipPermissions,
+          loop.repoRoot ?? loop.workingDir,
+          loop.maxIterations ?? MAX_ITERATIONS_DEFAULT,
+          { stopLosers, policy: loop.policy }
+        );
+        for (const loopId of race.loopIds) {
+          controller.startLoop(loopId).catch(logActionError);
+        }
+        selectedLoopId = race.loopIds[0];
+        refreshAfterLoopAction();
+        logWithGlow(`{#ff4fd8-fg}[race]{/} Race started - X on any entrant shows the summary`, 'system');
+        screen.render();
+      } catch (err: any) {
+        logActionError(err);
+      }
+    };
+
+    listBox.key(['space'], () => {
+      const index = (listBox as any).selected ?? 0;
+      if (index === adapters.length) {
+        stopLosers = !stopLosers;
+      } else if (selected.has(adapters[index].type)) {
+        selected.delete(adapters[index].type);
+      } else {
+        selected.add(adapters[index].type);
+      }
+      render();
+    });
+    listBox.key(['enter'], () => {
+      if (selected.size < 2) {
+        logWithGlow('{#ffbe0b-fg}[system]{/} Select at least two agents', 'system');
+        screen.render();
+        return;
+      }
+      startRace();
+    });
+    listBox.key(['escape'], closeModal);
+
+    render();
+    listBox.focus();
+  };
+
+  const openRaceSummaryModal = (raceId: string): void => {
+    const race = getRace(raceId);
+    if (!race) {
+      logWithGlow(`{#ff006e-fg}[error]{/} Race not found: ${raceId}`, 'error');
+      screen.render();
+      return;
+    }
+    const entries = summarizeRace(raceId);
+    pickerModalOpen = true;
+
+    const modal = blessed.box({
+      parent: screen,
+      label: ` {bold}{#ff4fd8-fg}◆ RACE SUMMARY{/} `,
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 110,
+      height: entries.length + 11,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    const outcome = race.promotedLoopId
+      ? `{#00f5d4-fg}Promoted: ${state.loops.find(l => l.id === race.promotedLoopId)?.worktreeBranch ?? race.promotedLoopId}{/}`
+      : race.winnerLoopId
+        ? `{#00f5d4-fg}Winner: ${entries.find(e => e.isWinner)?.agent ?? race.winnerLoopId}{/}`
+        : '{#ffbe0b-fg}No winner yet{/}';
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      width: 104,
+      tags: true,
+      content: `{bold}${race.issueTitle}{/bold}\n${outcome}  {#666-fg}│{/}  ${race.stopLosers ? 'others stop when one wins' : 'all entrants run to the end'}`,
+    });
+
+    const pad = (text: string, width: number): string =>
+      text.length > width ? text.substring(0, width - 1) + '…' : text.padEnd(width);
+    blessed.text({
+      parent: modal,
+      top: 4,
+      left: 4,
+      tags: true,
+      content: `{#9b5de5-fg}${pad('Agent', 12)}${pad('Status', 11)}${pad('Iter', 6)}${pad('Time', 9)}${pad('Criteria', 10)}${pad('Review', 11)}Diff{/}`,
+    });
+
+    const listBox = blessed.list({
+      parent: modal,
+      top: 5,
+      left: 2,
+      width: 104,
+      height: entries.length + 2,
+      border: 'line',
+      keys: true,
+      mouse: true,
+      tags: true,
+      style: {
+        border: { fg: 'cyan' },
+        selected: { fg: 'black', bg: 'cyan' },
+        item: { fg: 'white' },
+      },
+      items: entries.map(entry => {
+        const mark = entry.isWinner ? '★' : ' ';
+        const time = entry.durationMs !== null ? formatDurationMs(entry.durationMs) : '-';
+        const review = entry.reviewVerdict === 'changes_requested' ? 'changes' : entry.reviewVerdict ?? '-';
+        return `${mark} ${pad(entry.agent, 12)}${pad(entry.status, 11)}${pad(String(entry.iterations), 6)}` +
+          `${pad(time, 9)}${pad(`${entry.criteriaDone}/${entry.criteriaTotal}`, 10)}${pad(review, 11)}${pad(entry.diffStat, 40)}`;
+      }),
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: entries.length + 8,
+      left: 2,
+      tags: true,
+      content: '{#2de2e6-fg}Enter{/} Promote branch (hides the others)  {#ff4fd8-fg}Esc{/} Close  {#666-fg}V on an entrant requests a review{/}',
+    });
+
+    const closeModal = (): void => {
+      pickerModalOpen = false;
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    listBox.key(['enter'], () => {
+      const entry = entries[(listBox as any).selected ?? 0];
+      if (!entry) return;
+      try {
+        promoteRaceLoop(raceId, entry.loopId);
+        closeModal();
+        selectedLoopId = entry.loopId;
+        refreshAfterVisibilityChange();
+        logWithGlow(`{#00f5d4-fg}[race]{/} Promoted ${entry.agent}${entry.branch ? ` - branch ${entry.branch}` : ''}`, 'system');
+        screen.render();
+      } catch (err: any) {
+        logActionError(err);
+      }
+    });
+    listBox.key(['escape'], closeModal);
+
+    listBox.focus();
+    screen.render();
+  };
+
+  screen.key(['x', 'X'], () => {
+    if (isAnyInputActive() || pickerModalOpen) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+    if (loop.raceId) {
+      openRaceSummaryModal(loop.raceId);
+    } else if (loop.isReviewLoop) {
+      logWithGlow('{#ffbe0b-fg}[system]{/} Cannot race a review loop', 'system');
+      screen.render();
+    } else {
+      openRaceModal(loop);
+    }
+  });
+
+  // Z - Checkpoints: roll the worktree back to an iteration and resume
+
+  const openRollbackModal = (loop: Loop, checkpoint: Checkpoint): void => {
+    const modal = blessed.box({
+      parent: screen,
+      label: ` {bold}{#ff4fd8-fg}◆ ROLLBACK TO ITERATION ${checkpoint.iteration}{/} `,
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 70,
+      height: 11,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      tags: true,
+      content: '{#eaeaea-fg}Later changes are discarded (kept under a before-rollback ref).\nOptional message for the agent when it resumes:{/}',
+    });
+
+    const input = blessed.textbox({
+      parent: modal,
+      top: 4,
+      left: 2,
+      width: 64,
+      height: 3,
+      border: 'line',
+      style: { fg: 'white', bg: 'black', border: { fg: 'cyan' } },
+      inputOnFocus: true,
+      mouse: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 8,
+      left: 2,
+      tags: true,
+      content: '{#2de2e6-fg}Enter{/} Roll back and resume  {#ff4fd8-fg}Esc{/} Cancel',
+    });
+
+    const closeModal = (): void => {
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    input.key(['enter'], () => {
+      const message = (input as any).getValue().trim();
+      closeModal();
+      controller.rollbackLoop(loop.id, checkpoint.iteration, message || undefined).then(() => {
+        refreshAfterLoopAction();
+        loadLogsForLoop(loop.id);
+        logWithGlow(`{#00f5d4-fg}[system]{/} Rolled back to iteration ${checkpoint.iteration} - resuming`, 'system');
+        screen.render();
+        return controller.resumePausedLoop(loop.id);
+      }).catch(logActionError);
+    });
+
+    input.key(['escape', 'S-tab'], closeModal);
+    input.focus();
+    screen.render();
+  };
+
+  const openCheckpointsModal = (loop: Loop): void => {
+    const checkpoints = loadCheckpoints(loop.id).slice().reverse();
+    if (checkpoints.length === 0) {
+      const reason = loop.worktreePath ? 'No checkpoints yet' : 'Checkpoints are only taken for worktree loops';
+      logWithGlow(`{#ffbe0b-fg}[system]{/} ${reason}`, 'system');
+      screen.render();
+      return;
+    }
+    pickerModalOpen = true;
+
+    const height = Math.min(checkpoints.length, 15);
+    const modal = blessed.box({
+      parent: screen,
+      label: ` {bold}{#ff4fd8-fg}◆ CHECKPOINTS ${formatIssueRef(loop.issue)}{/} `,
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 80,
+      height: height + 8,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: 1,
+      left: 4,
+      tags: true,
+      content: `{#9b5de5-fg}${'Iter'.padEnd(6)}${'Taken'.padEnd(12)}Changes during the iteration{/}`,
+    });
+
+    const listBox = blessed.list({
+      parent: modal,
+      top: 2,
+      left: 2,
+      width: 74,
+      height: height + 2,
+      border: 'line',
+      keys: true,
+      mouse: true,
+      tags: true,
+      style: {
+        border: { fg: 'cyan' },
+        selected: { fg: 'black', bg: 'cyan' },
+        item: { fg: 'white' },
+      },
+      items: checkpoints.map(cp => {
+        const taken = new Date(cp.createdAt).toLocaleTimeString();
+        return `${String(cp.iteration).padEnd(6)}${taken.padEnd(12)}${cp.diffStat}`;
+      }),
+    } as any);
+
+    blessed.text({
+      parent: modal,
+      top: height + 5,
+      left: 2,
+      tags: true,
+      content: '{#2de2e6-fg}Enter{/} Roll back and resume  {#ff4fd8-fg}Esc{/} Close',
+    });
+
+    const closeModal = (): void => {
+      pickerModalOpen = false;
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    listBox.key(['enter'], () => {
+      const checkpoint = checkpoints[(listBox as any).selected ?? 0];
+      if (!checkpoint) return;
+      closeModal();
+      openRollbackModal(loop, checkpoint);
+    });
+    listBox.key(['escape'], closeModal);
+
+    listBox.focus();
+    screen.render();
+  };
+
+  screen.key(['z', 'Z'], () => {
+    if (isAnyInputActive() || pickerModalOpen) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+    if (loop.status === 'running' || loop.status === 'queued') {
+      logWithGlow('{#ffbe0b-fg}[system]{/} Stop the loop before rolling back', 'system');
+      screen.render();
+      return;
+    }
+    openCheckpointsModal(loop);
+  });
+
+  // p - Pause after the current iteration (press again to cancel) / Resume
+  screen.key(['p'], () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+
+    if (loop.status === 'running' && loop.pauseRequested) {
+      controller.cancelPauseAfterIteration(loop.id).then(refreshAfterLoopAction).catch(logActionError);
+    } else if (loop.status === 'running') {
+      controller.pauseLoopAfterIteration(loop.id).then(refreshAfterLoopAction).catch(logActionError);
+    } else if (loop.status === 'paused') {
+      // Check if this is a cross-session resume (no active process)
+      controller.canResumeInSession(loop.id).then((inSession) => {
+        if (inSession) {
+          // Same-session resume with SIGCONT
+          return controller.resumeLoop(loop.id).then(refreshAfterLoopAction);
+        }
+        // Cross-session resume - spawn new process with context
+        logWithGlow('{#ffbe0b-fg}[system]{/} Resuming loop from previous session...', 'system');
+        screen.render();
+        controller.resumePausedLoop(loop.id).catch(logActionError);
+      }).catch(logActionError);
+    }
+  });
+
+  // P - Pause immediately (SIGSTOP mid-iteration)
+  screen.key(['P', 'S-p'], () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (loop?.status !== 'running') return;
+
+    controller.pauseLoop(loop.id).then(refreshAfterLoopAction).catch(logActionError);
+  });
+
+  // S - Stop
+  screen.key(['s', 'S'], () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+
+    if (loop.status === 'running' || loop.status === 'paused') {
+      controller.stopLoop(loop.id).then(refreshAfterLoopAction).catch(logActionError);
+    }
+  });
+
+  // D - Discard paused loop from previous session
+  screen.key(['d', 'D'], () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+
+    if (loop.status === 'paused' && loop.pausedFromPreviousSession) {
+      try {
+        discardPausedLoop(loop.id);
+        state = loadState();
+        // Select next loop or clear selection
+        const remainingLoops = state.loops;
+        if (remainingLoops.length > 0) {
+          selectedLoopId = remainingLoops[0].id;
+        } else {
+          selectedLoopId = null;
+        }
+        updateLoopList();
+        updateHeader();
+        updateTabBar();
+        syncSelectionAfterFilter();
+        if (selectedLoopId) {
+          const newLoop = state.loops.find(l => l.id === selectedLoopId);
+          if (newLoop) {
+            updateDetailPane(newLoop);
+            updateStatusBar(newLoop);
+          }
+        } else {
+          detailWindow.setContent('{#666-fg}No loops.{/}');
+          updateStatusBar();
+        }
+        logWithGlow('{#ffbe0b-fg}[system]{/} Paused loop discarded', 'system');
+        screen.render();
+      } catch (err: any) {
+        logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+        screen.render();
+      }
+    }
+  });
+
+  // R - Retry errored/stopped loop
+  screen.key(['r', 'R'], () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+
+    if (loop.status === 'error' || loop.status === 'stopped') {
+      controller.retryLoop(loop.id).catch((err: Error) => {
+        logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+        screen.render();
+      });
+      // Immediate UI update
+      state = loadState();
+      const updatedLoop = state.loops.find(l => l.id === selectedLoopId);
+      updateLoopList();
+      updateHeader();
+      updateTabBar();
+      const selectionChanged = syncSelectionAfterFilter();
+      if (!selectionChanged && updatedLoop) {
+        updateDetailPane(updatedLoop);
+        updateStatusBar(updatedLoop);
+      }
+      // Refresh log view to show new retry logs
+      loadLogsForLoop(loop.id);
+      screen.render();
+    }
+  });
+
+  // V - Navigate to review/parent loop, or request review
+  screen.key(['v'], () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop) return;
+
+    // Navigate to review loop if exists
+    if (loop.reviewLoopId) {
       const reviewLoop = state.loops.find(l => l.id === loop.reviewLoopId);
       if (reviewLoop) {
         selectedLoopId = reviewLoop.id;
@@ -2209,7 +3359,7 @@ function main(): void {
         const reviewLoop = await createReviewLoop(loop.id, selectedAgent.type);
 
         // Start the review loop
-        startLoop(reviewLoop.id).catch((err: Error) => {
+        controller.startLoop(reviewLoop.id).catch((err: Error) => {
           logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
           screen.render();
         });
@@ -2245,6 +3395,16 @@ function main(): void {
 
   // Function to handle closing a GitHub issue (extracted for reuse)
   function handleCloseIssue(loop: Loop): void {
+    if (loop.issue.pullRequest) {
+      logWithGlow('{#ffbe0b-fg}[system]{/} Pull request loops have no issue to close', 'system');
+      screen.render();
+      return;
+    }
+    if (loop.issue.provider === 'file') {
+      logWithGlow('{#ffbe0b-fg}[system]{/} Task file loops have no issue to close', 'system');
+      screen.render();
+      return;
+    }
     if (loop.issueClosed) {
       logWithGlow('{#ffbe0b-fg}[system]{/} Issue already closed', 'system');
       screen.render();
@@ -2269,7 +3429,7 @@ function main(): void {
       top: 1,
       left: 2,
       tags: true,
-      content: `{#eaeaea-fg}Optional comment for issue #${loop.issue.number}:{/}`,
+      content: `{#eaeaea-fg}Optional comment for issue ${formatIssueRef(loop.issue)}:{/}`,
     });
 
     const commentInput = createCursorInput({
@@ -2313,7 +3473,7 @@ function main(): void {
         top: 1,
         left: 2,
         tags: true,
-        content: `{#eaeaea-fg}Close issue #${loop.issue.number}?{/}`,
+        content: `{#eaeaea-fg}Close issue ${formatIssueRef(loop.issue)}?{/}`,
       });
 
       const yesBtn = blessed.button({
@@ -2345,16 +3505,13 @@ function main(): void {
         screen.render();
       };
 
-      const doCloseIssue = (): void => {
+      const doCloseIssue = async (): Promise<void> => {
         closeConfirm();
         closeModal();
 
         try {
-          const result = closeIssue(loop.issue.url, comment);
-          let nextState = loadState();
-          nextState = updateLoop(nextState, loop.id, { issueClosed: true });
-          saveState(nextState);
-          state = nextState;
+          const result = await closeIssue(loop.issue.url, comment);
+          state = saveLoopUpdates(loop.id, { issueClosed: true });
 
           const updatedLoop = state.loops.find(l => l.id === loop.id);
           updateLoopList();
@@ -2367,9 +3524,9 @@ function main(): void {
           }
 
           if (result === 'already_closed') {
-            logWithGlow(`{#ffbe0b-fg}[system]{/} Issue #${loop.issue.number} was already closed`, 'system');
+            logWithGlow(`{#ffbe0b-fg}[system]{/} Issue ${formatIssueRef(loop.issue)} was already closed`, 'system');
           } else {
-            logWithGlow(`{#00f5d4-fg}[system]{/} Closed issue #${loop.issue.number}`, 'system');
+            logWithGlow(`{#00f5d4-fg}[system]{/} Closed issue ${formatIssueRef(loop.issue)}`, 'system');
           }
         } catch (err: any) {
           logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
@@ -2433,6 +3590,64 @@ function main(): void {
   }
 
   // C - Mark errored/stopped loop as completed, OR close issue for completed loops
+  // Push a pull request loop's fixes to the PR and reply to the threads it addressed
+  async function replyToLoopReviewThreads(loop: Loop): Promise<void> {
+    const resolve = REVIEW_THREAD_ACTION === 'resolve';
+    logWithGlow(`{#2de2e6-fg}[system]{/} Pushing to ${loop.issue.pullRequest?.headRefName} and replying to review threads...`, 'system');
+    screen.render();
+    try {
+      const answered = await publishReviewThreadReplies(loop.id, resolve);
+      state = loadState();
+      const updatedLoop = state.loops.find(l => l.id === loop.id);
+      if (updatedLoop) {
+        updateDetailPane(updatedLoop);
+      }
+      logWithGlow(`{#00f5d4-fg}[system]{/} ${resolve ? 'Replied to and resolved' : 'Replied to'} ${answered} review thread(s) on ${formatIssueRef(loop.issue)}`, 'system');
+    } catch (err: any) {
+      logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+    }
+    screen.render();
+  }
+
+  // O - Push a completed worktree loop's branch and open a pull request
+  // (pull request loops: push to the PR and reply to its review threads)
+  screen.key(['o', 'O'], async () => {
+    if (isAnyInputActive()) return;
+    if (!selectedLoopId) return;
+    const loop = state.loops.find(l => l.id === selectedLoopId);
+    if (!loop || loop.status !== 'completed' || loop.isReviewLoop) return;
+    if (loop.issue.pullRequest) {
+      await replyToLoopReviewThreads(loop);
+      return;
+    }
+    if (loop.pullRequestUrl) {
+      logWithGlow(`{#ffbe0b-fg}[system]{/} Pull request already open: ${loop.pullRequestUrl}`, 'system');
+      screen.render();
+      return;
+    }
+    if (!loop.worktreeBranch) {
+      logWithGlow('{#ffbe0b-fg}[system]{/} Only worktree loops have a branch to open a pull request from', 'system');
+      screen.render();
+      return;
+    }
+
+    logWithGlow(`{#2de2e6-fg}[system]{/} Pushing ${loop.worktreeBranch} and opening a pull request...`, 'system');
+    screen.render();
+    try {
+      const url = await createPullRequest(loop.id);
+      state = loadState();
+      const updatedLoop = state.loops.find(l => l.id === loop.id);
+      if (updatedLoop) {
+        updateDetailPane(updatedLoop);
+        updateStatusBar(updatedLoop);
+      }
+      logWithGlow(`{#00f5d4-fg}[system]{/} Opened pull request: ${url}`, 'system');
+    } catch (err: any) {
+      logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+    }
+    screen.render();
+  });
+
   screen.key(['c', 'C'], () => {
     if (isAnyInputActive()) return;
     if (!selectedLoopId) return;
@@ -2469,7 +3684,7 @@ function main(): void {
       top: 1,
       left: 2,
       tags: true,
-      content: `{#eaeaea-fg}Mark loop #${loop.issue.number} as completed?{/}`,
+      content: `{#eaeaea-fg}Mark loop ${formatIssueRef(loop.issue)} as completed?{/}`,
     });
 
     blessed.text({
@@ -2504,8 +3719,7 @@ function main(): void {
 
     const handleConfirm = (): void => {
       const note = noteInput.getValue().trim();
-      try {
-        markLoopManualComplete(loop.id, note);
+      controller.markLoopManualComplete(loop.id, note).then(() => {
         state = loadState();
         const updatedLoop = state.loops.find(l => l.id === loop.id);
         updateLoopList();
@@ -2518,9 +3732,11 @@ function main(): void {
         }
         loadLogsForLoop(loop.id);
         logWithGlow('{#00f5d4-fg}[system]{/} Loop marked complete', 'system');
-      } catch (err: any) {
+        screen.render();
+      }).catch((err: Error) => {
         logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
-      }
+        screen.render();
+      });
       closeModal();
     };
 
@@ -2611,11 +3827,10 @@ function main(): void {
     input.key(['enter'], () => {
       const message = (input as any).getValue().trim();
       if (message && selectedLoopId) {
-        try {
-          sendIntervention(selectedLoopId, message);
-        } catch (err: any) {
+        controller.sendIntervention(selectedLoopId, message).catch((err: Error) => {
           logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
-        }
+          screen.render();
+        });
       }
       closeModal();
     });
@@ -2717,6 +3932,30 @@ function main(): void {
     }
     content += '\n';
 
+    // ─── COST PER AGENT ───
+    content += `{bold}{#ff4fd8-fg}◆ COST PER AGENT{/}{/bold}\n`;
+    content += `{#666-fg}${'─'.repeat(Math.min(contentWidth, 60))}{/}\n`;
+    if (metrics.costPerAgent.length === 0) {
+      content += `  {#666-fg}No usage reported yet.{/}\n`;
+    } else {
+      const maxCost = Math.max(...metrics.costPerAgent.map(a => a.costUsd), 0.01);
+      for (const agent of metrics.costPerAgent) {
+        const bar = renderHorizontalBar(agent.costUsd, maxCost, Math.floor(barWidth / 2));
+        const unpriced = agent.unpriced > 0 ? `  {#ffbe0b-fg}${agent.unpriced} unpriced{/}` : '';
+        content += `  {#9b5de5-fg}${agent.agent.padEnd(10)}{/} ${bar} {#2de2e6-fg}${formatCost(agent.costUsd)}{/}  ${formatTokenCount(agent.tokens)} tokens  ${agent.loops} loops${unpriced}\n`;
+      }
+    }
+    content += '\n';
+
+    // ─── COST PER COMPLETED LOOP ───
+    content += `{bold}{#ff4fd8-fg}◆ COST PER COMPLETED LOOP{/}{/bold}\n`;
+    content += `{#666-fg}${'─'.repeat(Math.min(contentWidth, 60))}{/}\n`;
+    const { costStats } = metrics;
+    content += `  Total spend:       {#2de2e6-fg}${formatCost(costStats.totalCostUsd)}{/}  (${formatTokenCount(costStats.totalTokens)} tokens)\n`;
+    content += `  Completed loops:   {#00f5d4-fg}${costStats.completedLoops}{/}\n`;
+    content += `  Avg per completed: {#2de2e6-fg}${formatCost(costStats.avgCostPerCompletedUsd)}{/}\n`;
+    content += `  Incl. failures:    {#ffbe0b-fg}${formatCost(costStats.effectiveCostPerCompletedUsd)}{/} {#666-fg}(all spend / completed){/}\n\n`;
+
     // ─── DAILY COMPLETIONS ───
     content += `{bold}{#ff4fd8-fg}◆ DAILY COMPLETIONS (${METRICS_TREND_DAYS} DAYS){/}{/bold}\n`;
     content += `{#666-fg}${'─'.repeat(Math.min(contentWidth, 60))}{/}\n`;
@@ -2851,15 +4090,13 @@ function main(): void {
       `{#666-fg}─────────────────────────────────────────────────────{/}\n` +
       `{#ffbe0b-fg}Refreshing issue data...{/}`
     );
-    logWithGlow(`{#666-fg}[system]{/} Refreshing issue #${loop.issue.number}...`, 'system');
+    logWithGlow(`{#666-fg}[system]{/} Refreshing issue ${formatIssueRef(loop.issue)}...`, 'system');
     screen.render();
 
     try {
-      const issue = await fetchIssue(loop.issue.url);
-      let nextState = loadState();
-      nextState = updateLoop(nextState, loop.id, { issue });
-      saveState(nextState);
-      state = nextState;
+      // Merged into the loop's criteria - completion state survives
+      const { issue, added, removed } = await refreshIssue(loop.id);
+      state = loadState();
 
       updateLoopList();
       updateHeader();
@@ -2871,7 +4108,8 @@ function main(): void {
         updateStatusBar(updatedLoop);
       }
 
-      logWithGlow(`{#00f5d4-fg}[system]{/} Issue refreshed: ${issue.title}`, 'system');
+      const changes = [added > 0 ? `${added} new` : '', removed > 0 ? `${removed} removed` : ''].filter(Boolean);
+      logWithGlow(`{#00f5d4-fg}[system]{/} Issue refreshed: ${issue.title}${changes.length > 0 ? ` (${changes.join(', ')} criteria)` : ''}`, 'system');
     } catch (err: any) {
       logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
       const currentLoop = state.loops.find(l => l.id === selectedLoopId);
@@ -2885,7 +4123,13 @@ function main(): void {
   // ═══════════════════════════════════════════════════════════════════════════
   // LOOP EVENTS - Update UI on state changes
   // ═══════════════════════════════════════════════════════════════════════════
-  loopEvents.on('event', () => {
+  controller.events.on('handoff', (event: Extract<LoopEvent, { type: 'handoff' }>) => {
+    const loop = state.loops.find(l => l.id === event.loopId);
+    const label = loop ? formatIssueRef(loop.issue) : event.loopId;
+    logWithGlow(`{#ffbe0b-fg}[system]{/} ${label} handed off ${event.from} → ${event.to} (${event.reason})`, 'system');
+  });
+
+  controller.events.on('event', () => {
     state = loadState();
     updateLoopList();
     updateHeader();
@@ -2901,14 +4145,140 @@ function main(): void {
     screen.render();
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // QUIT - Suspend running loops so they resume on the next launch
+  // ═══════════════════════════════════════════════════════════════════════════
+  let quitModalOpen = false;
+  // Set while waiting for iterations to finish - Q again interrupts
+  let interruptQuit: (() => void) | null = null;
+
+  const quit = (): void => {
+    screen.destroy();
+    // Criteria ticked in the last few seconds still reach their issues
+    Promise.all([flushIssueSync(), flushProgressComments()]).finally(() => process.exit(0));
+  };
+
+  function openQuitModal(): void {
+    if (quitModalOpen) {
+      interruptQuit?.();
+      return;
+    }
+
+    // An attached daemon keeps its loops running - nothing to suspend
+    const activeCount = attachedToDaemon ? 0 : getActiveLoopIds().length;
+    if (activeCount === 0) {
+      quit();
+      return;
+    }
+    quitModalOpen = true;
+
+    const modal = blessed.box({
+      parent: screen,
+      label: ' {bold}{#ff4fd8-fg}◆ QUIT{/} ',
+      tags: true,
+      top: 'center',
+      left: 'center',
+      width: 64,
+      height: 11,
+      border: 'line',
+      style: { fg: 'white', bg: 'blue', transparent: true, border: { fg: 'magenta' } },
+      shadow: true,
+    } as any);
+
+    const message = blessed.text({
+      parent: modal,
+      top: 1,
+      left: 2,
+      width: 58,
+      tags: true,
+      content: `{#eaeaea-fg}${activeCount} loop(s) still active. They will be paused and\nresumable from the Paused tab on the next launch.{/}`,
+    });
+
+    const choices = blessed.list({
+      parent: modal,
+      top: 4,
+      left: 2,
+      width: 58,
+      height: 3,
+      tags: true,
+      keys: true,
+      vi: true,
+      mouse: true,
+      style: {
+        fg: 'white',
+        selected: { fg: 'black', bg: '#ff4fd8' },
+      },
+      items: [
+        'Wait for current iterations to finish',
+        'Interrupt now (redo the current iteration on resume)',
+        'Cancel',
+      ],
+    } as any);
+
+    const closeModal = (): void => {
+      quitModalOpen = false;
+      modal.destroy();
+      loopListWindow.focus();
+      screen.render();
+    };
+
+    const suspendAndQuit = (wait: boolean): void => {
+      suspendAllLoops({ wait }).then(quit).catch((err: Error) => {
+        logWithGlow(`{#ff006e-fg}[error]{/} ${err.message}`, 'error');
+        quit();
+      });
+    };
+
+    choices.on('select', (_item: any, index: number) => {
+      if (index === 2) {
+        closeModal();
+        return;
+      }
+
+      if (index === 0) {
+        choices.destroy();
+        message.setContent('{#eaeaea-fg}Waiting for current iterations to finish...{/}\n\n{#ff4fd8-fg}[Q]{/} Interrupt now');
+        interruptQuit = () => suspendAndQuit(false);
+        loopListWindow.focus();
+        screen.render();
+      }
+      suspendAndQuit(index === 0);
+    });
+
+    choices.key(['escape'], closeModal);
+    choices.focus();
+    screen.render();
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // CLEANUP ON EXIT
   // ═══════════════════════════════════════════════════════════════════════════
+  controller.events.on('disconnected', () => {
+    logWithGlow('{#ff006e-fg}[error]{/} Lost connection to alex daemon - restart alex to reattach', 'error');
+    screen.render();
+  });
+
+  // Auto-start queued loops as slots free up (no-op unless loops.maxConcurrent is set).
+  // An attached daemon runs its own scheduler.
+  const stopScheduler = attachedToDaemon ? () => {} : startScheduler();
+  // Decide races as their loops complete (the daemon referees its own)
+  const stopRaceReferee = attachedToDaemon ? () => {} : startRaceReferee();
+  // Progress comments on issues (the daemon posts its own)
+  const stopProgressComments = attachedToDaemon ? () => {} : startProgressComments();
+
   screen.on('destroy', () => {
     if (logTailCleanup) logTailCleanup();
-    killAll();
+    stopScheduler();
+    stopRaceReferee();
+    stopProgressComments();
+    // Kills agents when running locally; just detaches from a daemon
+    controller.close();
   });
 
+  if (attachedToDaemon) {
+    logWithGlow('{#00f5d4-fg}[system]{/} Attached to alex daemon - loops keep running after you quit', 'system');
+  }
+
   // Initial render
   loopListWindow.focus();
   setActiveTab(activeTabIndex);
@@ -2919,10 +4289,35 @@ function main(): void {
   screen.render();
 }
 
+// Attach to a running daemon if there is one, otherwise manage loops in-process
+function launchTui(): void {
+  connectToDaemon().then((daemon) => main(daemon ?? createLocalController()));
+}
+
 // CLI routing
-const { command, flags } = parseArgs();
+const { command, args, flags } = parseArgs();
 
-if (command === 'configure') {
+if (command === 'run') {
+  runHeadless(args, flags).then((code) => process.exit(code)).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+} else if (command === 'import') {
+  runImport(args, flags).then((code) => process.exit(code)).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+} else if (command === 'watch') {
+  runWatch(args, flags).then((code) => process.exit(code)).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+} else if (command === 'daemon') {
+  runDaemon(flags).then((code) => process.exit(code)).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+} else if (command === 'configure') {
   runConfigure(flags);
   process.exit(0);
 } else if (command === 'clean') {
@@ -2945,9 +4340,9 @@ if (command === 'configure') {
     const screen = createScreen();
     runTutorial(screen).then(() => {
       screen.destroy();
-      main();
+      launchTui();
     });
   } else {
-    main();
+    launchTui();
   }
 }
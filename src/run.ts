@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './cli.js';
+import { MAX_ITERATIONS_DEFAULT } from './config.js';
+import {
+  ExitReason,
+  LogEntry,
+  RunPolicy,
+  NumericPolicyKey,
+  UNCAPPED_POLICY_KEYS,
+  loadState,
+  fetchIssue,
+  formatIssueRef,
+  resolveTaskPath,
+  createLoop,
+  tailLog,
+  createLocalController,
+  connectToDaemon,
+  startProgressComments,
+  flushProgressComments,
+} from './core/index.js';
+import { getAdapter, getAdapterNames } from './adapters/index.js';
+
+// Process exit codes for each loop exit reason (used by `alex run`)
+export const EXIT_CODES: Record<ExitReason, number> = {
+  completion_signal: 0,
+  exit_signal: 0,
+  project_complete: 0,
+  manual_complete: 0,
+  error: 1,
+  max_iterations: 2,
+  circuit_breaker: 3,
+  test_saturation: 4,
+  budget_exceeded: 5,
+  user_stopped: 130,
+};
+
+// Poll interval for streaming the transcript to stdout
+const TAIL_POLL_MS = 100;
+
+/**
+ * Map a loop exit reason to a process exit code.
+ * Loops that ended without a recorded reason are treated as errors.
+ */
+export function exitCodeForReason(reason?: string): number {
+  if (reason && reason in EXIT_CODES) {
+    return EXIT_CODES[reason as ExitReason];
+  }
+  return EXIT_CODES.error;
+}
+
+// Run policy flags: flag -> [policy field, multiplier to policy units]
+const POLICY_FLAGS: Record<string, [NumericPolicyKey, number]> = {
+  '--iteration-timeout': ['iterationTimeoutMs', 60 * 1000], // minutes
+  '--no-progress-threshold': ['noProgressThreshold', 1],
+  '--same-error-threshold': ['sameErrorThreshold', 1],
+  '--output-decline-threshold': ['outputDeclineThreshold', 1],
+  '--test-only-threshold': ['testOnlyThreshold', 1],
+  '--calls-per-hour': ['callsPerHour', 1],
+  '--failed-exit-threshold': ['failedExitThreshold', 1],
+  '--max-cost': ['maxCostUsd', 1],          // USD
+  '--max-tokens': ['maxTokens', 1],
+};
+
+/**
+ * Build run policy overrides from CLI flags. Throws on invalid values.
+ */
+export function parsePolicyFlags(flags: Record<string, string | boolean>): RunPolicy {
+  const policy: RunPolicy = {};
+  for (const [flag, [key, multiplier]] of Object.entries(POLICY_FLAGS)) {
+    const raw = flags[flag];
+    if (raw === undefined) continue;
+    const value = typeof raw === 'string' ? Number.parseFloat(raw) : NaN;
+    if (UNCAPPED_POLICY_KEYS.has(key)) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${flag} must be a positive number (0 for no cap)`);
+      }
+    } else if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`${flag} must be a positive number`);
+    }
+    if (key === 'outputDeclineThreshold' && value > 1) {
+      throw new Error(`${flag} must be a fraction between 0 and 1`);
+    }
+    policy[key] = value * multiplier;
+  }
+  const testCommand = flags['--test-command'];
+  if (testCommand !== undefined) {
+    if (typeof testCommand !== 'string' || !testCommand.trim()) {
+      throw new Error('--test-command needs a command, e.g. --test-command "bun test"');
+    }
+    policy.testCommand = testCommand.trim();
+  }
+  return policy;
+}
+
+function fail(message: string): number {
+  console.error(`  alex run: ${message}`);
+  return EXIT_CODES.error;
+}
+
+/**
+ * Run command - create a loop from an issue and drive it to completion
+ * without the TUI, streaming the transcript to stdout.
+ * Resolves with the process exit code for the final exit reason.
+ */
+export async function runHeadless(args: string[], flags: Record<string, string | boolean>): Promise<number> {
+  // Task files are resolved against the current directory, not --repo
+  const url = typeof flags['--task'] === 'string' ? resolveTaskPath(flags['--task']) : args[0];
+  if (!url) {
+    return fail('missing issue URL (usage: alex run <issue-or-pr-url> | --task <file.md> [--agent name])');
+  }
+
+  const config = getConfig();
+  const agent = typeof flags['--agent'] === 'string' ? flags['--agent'] : config.defaultAgent;
+  const adapter = getAdapter(agent);
+  if (!adapter) {
+    return fail(`unknown agent "${agent}" (available: ${getAdapterNames().join(', ')})`);
+  }
+  if (!adapter.isAvailable()) {
+    return fail(`agent CLI not available: ${agent}`);
+  }
+
+  let maxIterations = MAX_ITERATIONS_DEFAULT;
+  if (typeof flags['--max-iterations'] === 'string') {
+    const parsed = Number.parseInt(flags['--max-iterations'], 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return fail('--max-iterations must be a positive number');
+    }
+    maxIterations = parsed;
+  }
+
+  const repoRoot = path.resolve(typeof flags['--repo'] === 'string' ? flags['--repo'] : process.cwd());
+  if (!fs.existsSync(repoRoot) || !fs.statSync(repoRoot).isDirectory()) {
+    return fail(`repo root is not a directory: ${repoRoot}`);
+  }
+
+  let policy: RunPolicy;
+  try {
+    policy = parsePolicyFlags(flags);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  let fallbackAgents: string[] | undefined;
+  if (typeof flags['--fallback'] === 'string') {
+    fallbackAgents = flags['--fallback'].split(',').map(name => name.trim()).filter(Boolean);
+    const unknown = fallbackAgents.find(name => !getAdapter(name));
+    if (unknown) {
+      return fail(`unknown fallback agent "${unknown}" (available: ${getAdapterNames().join(', ')})`);
+    }
+  }
+
+  const skipPermissions = flags['--safe'] !== true;
+  const useWorktree = flags['--no-worktree'] === true ? false : undefined;
+
+  let issue;
+  try {
+    issue = await fetchIssue(url);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  const loop = await createLoop(issue, agent, skipPermissions, repoRoot, maxIterations, { useWorktree, policy, fallbackAgents });
+  console.error(`  alex run: loop ${loop.id} (${agent}) for ${formatIssueRef(issue)} ${issue.title}`);
+
+  // Hand the loop to a running daemon so it survives this terminal going away
+  const daemon = await connectToDaemon();
+  const controller = daemon ?? createLocalController();
+  if (daemon) {
+    console.error('  alex run: running in alex daemon');
+  }
+  // The daemon posts its own loops' progress comments
+  const stopProgressComments = daemon ? () => {} : startProgressComments();
+
+  // Stream the transcript: agent output verbatim (parsed records one per
+  // line), everything else as tagged lines
+  let atLineStart = true;
+  const writeEntry = (entry: LogEntry): void => {
+    if (entry.type === 'agent') {
+      const text = entry.record ? `${entry.content}\n` : entry.content;
+      process.stdout.write(text);
+      atLineStart = text.endsWith('\n');
+      return;
+    }
+    const prefix = atLineStart ? '' : '\n';
+    process.stdout.write(`${prefix}[${entry.type}] ${entry.content}\n`);
+    atLineStart = true;
+  };
+  const stopTail = tailLog(loop.id, writeEntry, undefined, TAIL_POLL_MS);
+
+  // Ctrl-C stops the loop; startLoop then resolves with user_stopped
+  const onSigint = (): void => {
+    controller.stopLoop(loop.id).catch(() => {
+      // Loop may already be finishing
+    });
+  };
+  process.on('SIGINT', onSigint);
+
+  try {
+    await controller.startLoop(loop.id);
+  } catch (err) {
+    stopTail();
+    stopProgressComments();
+    process.off('SIGINT', onSigint);
+    controller.close();
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  stopProgressComments();
+  await flushProgressComments();
+
+  // Let the tail pick up the final log entries before detaching
+  await new Promise(resolve => setTimeout(resolve, TAIL_POLL_MS * 3));
+  stopTail();
+  process.off('SIGINT', onSigint);
+  controller.close();
+
+  const finalLoop = loadState().loops.find(l => l.id === loop.id);
+  const exitReason = finalLoop?.exitReason;
+  console.error(`  alex run: ${finalLoop?.status ?? 'unknown'} (${exitReason ?? 'no exit reason'})`);
+
+  return exitCodeForReason(exitReason);
+}
@@ -1,7 +1,7 @@
 import blessed from 'blessed';
 import { isAnyInputActive } from './cursor-input.js';
 
-export function createScreen(): blessed.Widgets.Screen {
+export function createScreen(options: { onQuit?: () => void } = {}): blessed.Widgets.Screen {
   const screen = blessed.screen({
     smartCSR: true,
     title: 'Alex - Multi-Agent Loop Orchestrator',
@@ -13,6 +13,10 @@ export function createScreen(): blessed.Widgets.Screen {
   // Global key bindings
   screen.key(['q', 'C-c'], () => {
     if (isAnyInputActive()) return;
+    if (options.onQuit) {
+      options.onQuit();
+      return;
+    }
     screen.destroy();
     process.exit(0);
   });
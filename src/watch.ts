@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './cli.js';
+import { MAX_ITERATIONS_DEFAULT } from './config.js';
+import {
+  Loop,
+  WatchConfig,
+  WatchTarget,
+  loadWatchConfig,
+  prepareWatchLabels,
+  pollWatchedIssues,
+  startWatcher,
+  startScheduler,
+  startProgressComments,
+  flushProgressComments,
+  isSchedulerEnabled,
+  suspendAllLoops,
+  createLocalController,
+  connectToDaemon,
+} from './core/index.js';
+import { getAdapter, getAdapterNames } from './adapters/index.js';
+
+function log(message: string): void {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+function fail(message: string): number {
+  console.error(`  alex watch: ${message}`);
+  return 1;
+}
+
+/**
+ * Watch command - poll a GitHub repo for open issues with a trigger label
+ * and queue a loop for each new one. Loops run in the alex daemon when one
+ * is running, else in this process (stopping the watcher pauses them).
+ * `args[0]` is an optional owner/repo (default: the GitHub repo of the repo
+ * root); `--once` polls a single time and exits.
+ */
+export async function runWatch(args: string[], flags: Record<string, string | boolean>): Promise<number> {
+  const agent = typeof flags['--agent'] === 'string' ? flags['--agent'] : getConfig().defaultAgent;
+  if (!getAdapter(agent)) {
+    return fail(`unknown agent "${agent}" (available: ${getAdapterNames().join(', ')})`);
+  }
+
+  let maxIterations = MAX_ITERATIONS_DEFAULT;
+  if (typeof flags['--max-iterations'] === 'string') {
+    const parsed = Number.parseInt(flags['--max-iterations'], 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return fail('--max-iterations must be a positive number');
+    }
+    maxIterations = parsed;
+  }
+
+  const repoRoot = path.resolve(typeof flags['--repo'] === 'string' ? flags['--repo'] : process.cwd());
+  if (!fs.existsSync(repoRoot) || !fs.statSync(repoRoot).isDirectory()) {
+    return fail(`repo root is not a directory: ${repoRoot}`);
+  }
+
+  const config: WatchConfig = { ...loadWatchConfig() };
+  if (typeof flags['--label'] === 'string') config.label = flags['--label'];
+  if (typeof flags['--in-progress-label'] === 'string') config.inProgressLabel = flags['--in-progress-label'];
+  if (typeof flags['--interval'] === 'string') {
+    const minutes = Number.parseFloat(flags['--interval']);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      return fail('--interval must be a positive number of minutes');
+    }
+    config.intervalMinutes = minutes;
+  }
+  if (flags['--no-comment'] === true) config.comment = false;
+  if (flags['--no-start'] === true) config.start = false;
+
+  const target: WatchTarget = {
+    repo: args[0],
+    repoRoot,
+    agent,
+    maxIterations,
+    skipPermissions: flags['--safe'] !== true,
+    useWorktree: flags['--no-worktree'] === true ? false : undefined,
+  };
+
+  try {
+    await prepareWatchLabels(target, config);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  const daemon = await connectToDaemon();
+  const repoName = target.repo ?? repoRoot;
+  const logCreated = (created: Loop[]): void => {
+    for (const loop of created) {
+      log(`${loop.held ? 'Queued (held)' : 'Queued'} ${loop.id} (${loop.agent}) for #${loop.issue.number} ${loop.issue.title}`);
+    }
+  };
+
+  if (flags['--once'] === true) {
+    try {
+      const created = await pollWatchedIssues(target, config);
+      logCreated(created);
+      if (daemon && config.start && created.length > 0) {
+        await daemon.scheduleQueuedLoops();
+      }
+    } catch (err) {
+      return fail(err instanceof Error ? err.message : String(err));
+    } finally {
+      daemon?.close();
+    }
+    return 0;
+  }
+
+  const controller = daemon ?? createLocalController();
+  const stopScheduler = daemon ? null : startScheduler();
+  const stopProgressComments = daemon ? null : startProgressComments();
+  if (config.start && !isSchedulerEnabled()) {
+    log('loops.maxConcurrent is 0 - new loops stay queued until started from the TUI');
+  }
+  log(`Watching ${repoName} for "${config.label}" every ${config.intervalMinutes} min` +
+    (daemon ? ' (loops run in alex daemon)' : ''));
+
+  return new Promise<number>((resolve) => {
+    const stopWatcher = startWatcher(target, config, (created, error) => {
+      if (error) {
+        log(`Poll failed: ${error.message}`);
+        return;
+      }
+      logCreated(created);
+      if (config.start && created.length > 0) {
+        controller.scheduleQueuedLoops().catch((err: Error) => log(`Scheduling failed: ${err.message}`));
+      }
+    });
+
+    let shuttingDown = false;
+    const shutdown = (): void => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      stopWatcher();
+      if (daemon) {
+        daemon.close();
+        resolve(0);
+        return;
+      }
+      // Loops running here become paused loops that resume on the next start
+      stopScheduler?.();
+      stopProgressComments?.();
+      suspendAllLoops({ wait: false }).then(async (count) => {
+        log(`Stopped watching - suspended ${count} loop(s)`);
+        await flushProgressComments();
+        controller.close();
+        resolve(0);
+      }, () => resolve(1));
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  });
+}